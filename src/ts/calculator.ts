@@ -1,69 +1,136 @@
 /**
  * LOGIC FLOW
  * 
+ * The arithmetic state machine lives in CalculatorEngine (see engine.ts).
+ * This file is the DOM view: it translates clicks and key presses into
+ * engine actions and renders the resulting state.
+ * 
  * 1. INITIALIZATION FLOW
- * DOM Ready → Constructor → Get Display Element → Initialize State → Setup Event Listeners
+ * DOM Ready → Constructor → Get Display Element → Create Engine → Setup Event Listeners
  * - Waits for DOM to load, creates Calculator instance
  * - Finds display element, throws error if missing
- * - Sets initial state: currentValue='0', previousValue=null, operator=null
+ * - Engine starts from INITIAL_STATE: currentValue='0', previousValue=null, operator=null
  * 
  * 2. USER INPUT FLOW
  * Button Clicks:
- * Button Click → Extract data attributes → Clear active operator styling → Route by type → Update display
+ * Button Click → Extract data attributes → Clear active operator styling → Map to action → Dispatch → Update display
  * 
  * Keyboard Input:
- * Key Press → Check key type → Map to function → Update display
+ * Key Press → Find the command in the keymap (keymap.ts) → Map to action → Dispatch → Update display
+ * ├─ Ctrl/Cmd + Z, Shift + Ctrl/Cmd + Z: Step the engine's history back or forward → Update display
+ * └─ ?: Show the keyboard shortcuts
  * 
- * 3. NUMBER INPUT LOGIC
- * inputNumber() → Check waitingForNewValue flag
- * ├─ True: Start new number (replace current)
- * └─ False: Append digit (or replace leading zero)
+ * Expression Input:
+ * Paste or Enter in the expression editor → Parse → Dispatch expression action
+ * └─ Syntax error: Open the editor with the message and select the bad character
  * 
- * 4. OPERATOR INPUT LOGIC
- * inputOperator() → Check if previousValue exists
- * ├─ No previous: Store current as previous
- * └─ Has previous + operator + not waiting: Calculate first, then store
- * → Set waitingForNewValue = true
- * → Store new operator
+ * Clipboard:
+ * Paste a number ("$1,234.50") → Strip symbols → Dispatch enterNumber action
+ * Copy (Ctrl/Cmd + C or the display's context menu) → Full-precision currentValue
  * 
- * 5. CALCULATION CHAIN LOGIC
- * For operations like 5 + 3 × 2:
- * 1. 5 → currentValue = "5"
- * 2. + → previousValue = 5, operator = "+", waiting = true
- * 3. 3 → currentValue = "3", waiting = false  
- * 4. × → Calculate 5+3=8, currentValue = "8", previousValue = 8, operator = "×"
- * 5. 2 → currentValue = "2"
- * 6. = → Calculate 8×2=16, reset state
+ * Host pages:
+ * calculator.dispatch(action) → Same path as a key press
+ * calculator.use(plugin) → Register its functions → Render its keys in the plugin row
+ * After each change → Compare the snapshots (events.ts) → Call on() listeners
  * 
- * 6. DISPLAY UPDATE FLOW
+ * 3. DISPLAY UPDATE FLOW
  * updateDisplay() → Format number
- * ├─ Length > 9: Use scientific notation
- * ├─ Long decimal: Limit precision, remove trailing zeros
- * └─ Adjust font size based on length
- * → Update DOM
- * 
- * 7. STATE MANAGEMENT
- * The calculator maintains state through:
- * - currentValue: What's shown on display
- * - previousValue: Stored number for calculations  
- * - operator: Current math operation
- * - waitingForNewValue: Controls whether next input starts fresh number
+ * ├─ Programmer mode: Show the word in the selected base
+ * ├─ Too long for the mode's digit budget: Round to the significant digits that fit
+ * ├─ Plain notation cannot show it: Use exponent notation (1.234568e9)
+ * └─ Apply the locale's separators
+ * → Update DOM → Scale the font to the rendered width
  * 
- * KEY LOGIC PATTERNS
- * 1. Chain calculations - Each operator triggers calculation of previous operation
- * 2. State flags - waitingForNewValue controls input behavior
- * 3. UI feedback - Active operator highlighting with state tracking
- * 4. Error prevention - Division by zero returns 0
- * 5. Format handling - Scientific notation and decimal precision for display
- * 
- * The flow ensures smooth chaining of operations while maintaining calculator-like behavior 
- * where each operator press calculates the previous operation before setting up the next one.
+ * KEY VIEW PATTERNS
+ * 1. Thin view - All calculator state is read from the engine snapshot
+ * 2. UI feedback - Active operator highlighting with state tracking
+ * 3. Error display - Engine errors are shown on the display and announced;
+ *    the next key starts a new calculation
+ * 4. Screen readers - Results, errors and the pending calculation are
+ *    announced in a live region (see speech.ts); each key grid is one Tab
+ *    stop, moved through with the arrow keys
  */
 
-// Simple calculator without complex dependencies
+import {
+    crossRate,
+    currencyCodes,
+    loadRateTable,
+    overriddenCurrency,
+    overrideRate,
+    RATES_URL,
+    RateTable,
+    resetRate,
+} from './currency.js';
+import { Decimal } from './decimal.js';
+import { CalculatorError, toCalculatorError } from './errors.js';
+import {
+    BinaryOperator,
+    CalculatorAction,
+    CalculatorEngine,
+    CalculatorMode,
+    CalculatorState,
+    canClearEntry,
+    isBinaryOperator,
+    isRegisterName,
+} from './engine.js';
+import { CalculatorEmitter, CalculatorEventType, CalculatorListener, stateEvents } from './events.js';
+import { ExpressionError, parseExpression } from './expression.js';
+import { formatDisplayNumber, getNumberSymbols, localizeNumber, parseNumberText } from './format.js';
+import { formatTapeAsCsv, formatTapeAsText, formatTapeEntry, joinExpression, TapeEntry } from './history.js';
+import {
+    buildKeymap,
+    commandAction,
+    findCommand,
+    formatShortcut,
+    KEY_COMMAND_GROUPS,
+    KEY_COMMANDS,
+    KeyBinding,
+    KeyCommand,
+    KeyContext,
+    parseShortcut,
+} from './keymap.js';
+import { CALCULATOR_MARKUP } from './markup.js';
+import { CalculatorPlugin, PluginButton } from './plugins.js';
+import { formatInBase, NUMBER_BASES, NumberBase, parseInBase, toWord, WORD_SIZES, WordSize } from './programmer.js';
+import { isConstant, isUnaryFunction } from './scientific.js';
+import { CalculatorSettings, DEFAULT_SETTINGS } from './settings.js';
+import { describeChange, speakExpression } from './speech.js';
+import { defaultStorage, loadSnapshot, saveSnapshot, STORAGE_KEY } from './storage.js';
+import { ACCENT_VARIABLES, accentVariables, isAccentColor, isThemeName, ThemeName } from './theme.js';
+import { UNIT_CATEGORIES, UnitCategory, unitsIn } from './units.js';
+
+/** Operator key color of the light and dark themes, shown by the accent picker until one is chosen */
+const DEFAULT_ACCENT_COLOR = '#ff9500';
+
+/** Spoken names of the Programmer number bases */
+const BASE_NAMES: Readonly<Record<NumberBase, string>> = {
+    2: 'binary',
+    8: 'octal',
+    10: 'decimal',
+    16: 'hexadecimal',
+};
+
+/** Characters the display has room for in each mode (Programmer shows whole words instead) */
+const DISPLAY_DIGITS: Readonly<Record<CalculatorMode, number>> = {
+    basic: 9,
+    scientific: 16,
+    programmer: 16,
+};
+
+/** Smallest font size in pixels the display shrinks long numbers to */
+const MIN_DISPLAY_FONT_SIZE = 12;
+
+/** Significant digits shown for an exchange rate in the converter */
+const RATE_DIGITS = 6;
+
+/** Categories offered by the converter: the unit categories plus currencies */
+type ConverterCategory = UnitCategory | 'currency';
+
+/** Where a calculator's markup lives: the page, or the shadow root of a <macos-calculator> */
+export type CalculatorRoot = Document | ShadowRoot;
 
 /**
- * Main Calculator class implementing a full-featured calculator with error handling,
+ * Main Calculator class rendering a CalculatorEngine into the page, with error handling,
  * accessibility features, and comprehensive input validation
  * 
  * @example
@@ -73,21 +140,42 @@
  * ```
  */
 export class Calculator {
+    public root: CalculatorRoot;
+    public storageKey: string;
     public display: HTMLElement;
-    public currentValue: string;
-    public previousValue: number | null;
-    public operator: string | null;
-    public waitingForNewValue: boolean;
+    public calculatorWindow: HTMLElement;
+    public engine: CalculatorEngine;
     public activeOperatorBtn: HTMLButtonElement | null;
+    public secondFunctionsActive: boolean;
+    public pendingRegisterCommand: 'store' | 'recall' | null;
+    public renderedTape: readonly TapeEntry[] | null;
     public hasError: boolean;
+    public expressionInput: HTMLInputElement | null;
+    public displayMenu: HTMLElement | null;
+    public settings: CalculatorSettings;
+    public storage: Storage | null;
+    public rateTable: RateTable | null;
+    public shortcutHelp: HTMLElement | null;
+    public pluginKeys: HTMLElement | null;
+    private readonly events = new CalculatorEmitter();
+    private readonly plugins = new Map<string, () => void>();
+    private readonly pluginButtons = new Map<string, PluginButton>();
     
     /**
      * Creates a Calculator instance
      * 
      * Initializes calculator state, validates DOM elements, and sets up event listeners.
      * Throws an error if required DOM elements are not found.
+     * State and settings saved by a previous visit are restored from storage.
+     * 
+     * Elements are only looked up, and keyboard and clipboard events only
+     * handled, within the root, so several calculators can share a page.
+     * 
+     * @param storage - Where to save and restore state (defaults to localStorage; null disables saving)
+     * @param root - Document or shadow root holding the calculator markup (see markup.ts)
+     * @param storageKey - Key to save state under; give each calculator on a page its own
      * 
-     * @throws {CalculatorError} When display element is not found in DOM
+     * @throws {CalculatorError} With code 'setup' when the display or window element is not found in the root
      * 
      * @example
      * ```typescript
@@ -98,28 +186,52 @@ export class Calculator {
      * }
      * ```
      */
-    constructor() {
+    constructor(storage: Storage | null = defaultStorage(), root: CalculatorRoot = document, storageKey: string = STORAGE_KEY) {
+        this.root = root;
+        this.storageKey = storageKey;
+
         try {
             // Get and validate display element
-            const displayElement = document.getElementById('display');
+            const displayElement = this.root.querySelector<HTMLElement>('#display');
             if (!displayElement) {
-                throw new Error('Display element not found');
+                throw new CalculatorError('setup', 'Display element not found');
             }
             this.display = displayElement;
 
-            // Initialize calculator state to default values
-            this.currentValue = '0';            // Start with zero displayed
-            this.previousValue = null;          // No previous calculation
-            this.operator = null;               // No operator selected
-            this.waitingForNewValue = false;    // Not waiting for new input
+            const windowElement = this.root.querySelector<HTMLElement>('.calculator-window');
+            if (!windowElement) {
+                throw new CalculatorError('setup', 'Calculator window not found');
+            }
+            this.calculatorWindow = windowElement;
+            this.expressionInput = this.root.querySelector<HTMLInputElement>('.expression-input');
+            this.displayMenu = this.root.querySelector<HTMLElement>('.display-menu');
+            this.shortcutHelp = this.root.querySelector<HTMLElement>('.shortcut-help');
+            this.pluginKeys = this.root.querySelector<HTMLElement>('.plugin-keys');
+
+            // Initialize calculator state from the last visit, or to default values
+            const snapshot = loadSnapshot(storage, storageKey);
+            this.storage = storage;
+            this.engine = new CalculatorEngine(snapshot?.state);
             this.activeOperatorBtn = null;      // No operator button highlighted
+            this.secondFunctionsActive = false; // Primary scientific labels shown
+            this.pendingRegisterCommand = null; // No STO/RCL armed
+            this.renderedTape = null;           // Paper tape not rendered yet
             this.hasError = false;              // No error state
+            this.settings = snapshot?.settings ?? DEFAULT_SETTINGS;   // Browser locale with grouping
+            this.rateTable = null;              // Exchange rates not loaded yet
 
             // Set up event listeners for user interaction
             this.initializeEventListeners();
             
-            // Initialize accessibility
+            // Initialize accessibility and mode-dependent layout
+            this.updateLayout();
+            this.updateSettings({});
             this.updateDisplayAccessibility();
+            this.updateMemoryIndicators();
+            this.updateClearButton();
+            this.renderTape();
+            this.renderUnitCategories();
+            void this.loadCurrencyRates();
             
         } catch (error) {
             console.error('Calculator initialization error:', error);
@@ -127,6 +239,31 @@ export class Calculator {
         }
     }
 
+    /** Value currently shown on the display */
+    public get currentValue(): string {
+        return this.engine.getState().currentValue;
+    }
+
+    /** Stored left-hand operand of the pending operation */
+    public get previousValue(): Decimal | null {
+        return this.engine.getState().previousValue;
+    }
+
+    /** Pending operator, if any */
+    public get operator(): BinaryOperator | null {
+        return this.engine.getState().operator;
+    }
+
+    /** Whether the next digit starts a fresh number */
+    public get waitingForNewValue(): boolean {
+        return this.engine.getState().waitingForNewValue;
+    }
+
+    /** Error of the last failed calculation, while it is shown */
+    public get error(): CalculatorError | null {
+        return this.engine.getState().error;
+    }
+
     /**
      * Initializes event listeners for button clicks and keyboard input
      * 
@@ -144,23 +281,135 @@ export class Calculator {
     private initializeEventListeners(): void {
         try {
             // Add click listeners to all calculator buttons using event delegation
-            const buttonContainer = document.querySelector('.button-grid');
-            if (!buttonContainer) {
+            const buttonContainers = this.root.querySelectorAll('.button-grid');
+            if (buttonContainers.length === 0) {
                 throw new Error('Button container not found');
             }
             
-            buttonContainer.addEventListener('click', (e) => {
-                const target = e.target as HTMLElement;
-                if (target.classList.contains('btn')) {
-                    this.handleButtonClick(e);
+            buttonContainers.forEach((buttonContainer) => {
+                buttonContainer.addEventListener('click', (e) => {
+                    const target = e.target as HTMLElement;
+                    if (target.classList.contains('btn')) {
+                        this.handleButtonClick(e);
+                    }
+                });
+            });
+
+            // Add click listener for the Basic/Scientific/Programmer mode switch
+            this.root.querySelector('.mode-switch')?.addEventListener('click', (e) => {
+                const mode = (e.target as HTMLElement).dataset.mode;
+                if (mode === 'basic' || mode === 'scientific' || mode === 'programmer') {
+                    this.setMode(mode);
+                }
+            });
+
+            // Add listeners for the Programmer base, word size, signedness and bit field
+            this.root.querySelector('.base-switch')?.addEventListener('click', (e) => {
+                const base = Number((e.target as HTMLElement).dataset.base);
+                if ((NUMBER_BASES as readonly number[]).includes(base)) {
+                    this.dispatch({ type: 'setBase', base: base as NumberBase });
+                }
+            });
+            this.root.querySelector('.word-size-select')?.addEventListener('change', (e) => {
+                const wordSize = Number((e.target as HTMLSelectElement).value);
+                if ((WORD_SIZES as readonly number[]).includes(wordSize)) {
+                    this.dispatch({ type: 'setWordSize', wordSize: wordSize as WordSize });
+                }
+            });
+            this.root.querySelector('.signed-checkbox')?.addEventListener('change', (e) => {
+                this.dispatch({ type: 'setSigned', signed: (e.target as HTMLInputElement).checked });
+            });
+            this.root.querySelector('.bit-field')?.addEventListener('click', (e) => {
+                const bit = (e.target as HTMLElement).dataset.bit;
+                if (bit !== undefined) {
+                    this.clearActiveOperator();
+                    this.dispatch({ type: 'toggleBit', bit: Number(bit) });
+                }
+            });
+
+            // Add click listeners for the paper tape (toggle, entries and actions)
+            this.root.querySelector('.tape-toggle')?.addEventListener('click', () => this.toggleTape());
+            this.root.querySelector('.paper-tape')?.addEventListener('click', (e) => this.handleTapeClick(e));
+
+            // Add listeners for the settings panel
+            this.root.querySelector('.settings-toggle')?.addEventListener('click', () => this.toggleSettings());
+            this.root.querySelector('.locale-select')?.addEventListener('change', (e) => {
+                this.updateSettings({ locale: (e.target as HTMLSelectElement).value });
+            });
+            this.root.querySelector('.grouping-checkbox')?.addEventListener('change', (e) => {
+                this.updateSettings({ useGrouping: (e.target as HTMLInputElement).checked });
+            });
+            this.root.querySelector('.theme-select')?.addEventListener('change', (e) => {
+                this.updateSettings({ theme: (e.target as HTMLSelectElement).value as ThemeName });
+            });
+            this.root.querySelector('.accent-input')?.addEventListener('input', (e) => {
+                this.updateSettings({ accentColor: (e.target as HTMLInputElement).value });
+            });
+            this.root.querySelector('.accent-reset')?.addEventListener('click', () => this.updateSettings({ accentColor: '' }));
+
+            // Add listeners for the unit converter
+            this.root.querySelector('.convert-toggle')?.addEventListener('click', () => this.toggleConverter());
+            this.root.querySelector('.unit-category')?.addEventListener('change', (e) => {
+                this.renderUnitOptions((e.target as HTMLSelectElement).value as ConverterCategory);
+            });
+            this.root.querySelector('.unit-from')?.addEventListener('change', () => this.updateRateRow());
+            this.root.querySelector('.unit-to')?.addEventListener('change', () => this.updateRateRow());
+            this.root.querySelector('.unit-swap')?.addEventListener('click', () => this.swapUnits());
+            this.root.querySelector('.convert-action')?.addEventListener('click', () => {
+                const category = this.root.querySelector<HTMLSelectElement>('.unit-category')?.value;
+                const from = this.root.querySelector<HTMLSelectElement>('.unit-from')?.value;
+                const to = this.root.querySelector<HTMLSelectElement>('.unit-to')?.value;
+                if (from && to) {
+                    if (category === 'currency') {
+                        this.convertCurrency(from, to);
+                    } else {
+                        this.convertUnits(from, to);
+                    }
+                }
+            });
+            this.root.querySelector('.rate-input')?.addEventListener('change', (e) => {
+                const from = this.root.querySelector<HTMLSelectElement>('.unit-from')?.value;
+                const to = this.root.querySelector<HTMLSelectElement>('.unit-to')?.value;
+                if (from && to) {
+                    this.setCurrencyRate(from, to, (e.target as HTMLInputElement).value);
+                }
+            });
+            this.root.querySelector('.rate-reset')?.addEventListener('click', () => {
+                const from = this.root.querySelector<HTMLSelectElement>('.unit-from')?.value;
+                const to = this.root.querySelector<HTMLSelectElement>('.unit-to')?.value;
+                if (from && to) {
+                    this.resetCurrencyRate(from, to);
+                }
+            });
+
+            // Add listeners for typing or pasting a whole expression
+            this.display.addEventListener('dblclick', () => this.openExpressionEditor());
+            this.expressionInput?.addEventListener('keydown', (e) => this.handleExpressionKey(e));
+            this.expressionInput?.addEventListener('input', () => this.clearExpressionError());
+            this.expressionInput?.addEventListener('blur', () => this.closeExpressionEditor());
+            this.listen('paste', (e) => this.handlePaste(e));
+
+            // Add listeners for copying the result and the display's context menu
+            this.listen('copy', (e) => this.handleCopy(e));
+            this.display.addEventListener('contextmenu', (e) => this.openDisplayMenu(e));
+            this.displayMenu?.addEventListener('click', (e) => this.handleDisplayMenuClick(e));
+            this.displayMenu?.addEventListener('keydown', (e) => this.handleDisplayMenuKey(e));
+            this.displayMenu?.addEventListener('focusout', (e) => {
+                if (!this.displayMenu?.contains(e.relatedTarget as Node | null)) {
+                    this.closeDisplayMenu();
                 }
             });
 
-            // Add keyboard listener for keyboard shortcuts
-            document.addEventListener('keydown', (e) => this.handleKeyPress(e));
+            // Add keyboard listener for keyboard shortcuts, and the shortcut help
+            this.listen('keydown', (e) => this.handleKeyPress(e));
+            this.shortcutHelp?.addEventListener('keydown', (e) => this.handleShortcutHelpKey(e));
+            this.root.querySelector('.shortcut-help-close')?.addEventListener('click', () => this.toggleShortcutHelp());
 
-            // Add focus management for accessibility
-            document.addEventListener('focusin', this.handleFocusIn.bind(this));
+            // Add focus management for accessibility: arrow keys move within a key grid
+            this.listen('focusin', (e) => this.handleFocusIn(e));
+            this.root.querySelectorAll<HTMLElement>('[role="grid"]').forEach((grid) => {
+                grid.addEventListener('keydown', (e) => this.handleGridKey(e, grid));
+            });
             
         } catch (error) {
             console.error('Failed to initialize event listeners:', error);
@@ -168,6 +417,27 @@ export class Calculator {
         }
     }
 
+    /**
+     * Listens for events from inside this calculator's root
+     * 
+     * On the page, events from <macos-calculator> elements bubble up to the
+     * document too; they belong to those elements and are skipped here.
+     * 
+     * @param type - Event type
+     * @param listener - Called for events that started in this root
+     * 
+     * @private
+     */
+    private listen<K extends keyof DocumentEventMap>(type: K, listener: (event: DocumentEventMap[K]) => void): void {
+        this.root.addEventListener(type, (event) => {
+            const origin = event.composedPath()[0];
+            if (origin instanceof Node && origin.getRootNode() !== this.root) {
+                return;
+            }
+            listener(event as DocumentEventMap[K]);
+        });
+    }
+
     /**
      * Handles button click events and routes them to appropriate calculator functions
      * 
@@ -186,16 +456,10 @@ export class Calculator {
      */
     private handleButtonClick(event: Event): void {
         try {
-            console.log('Button clicked!', event.target); // Debug log
-            
-            if (this.hasError) return; // Ignore input during error display
-
             const btn = event.target as HTMLButtonElement;
             const type = btn.dataset.type;
             const value = btn.dataset.value;
 
-            console.log('Button data:', { type, value }); // Debug log
-
             // Basic validation
             if (!type) {
                 console.warn('Button missing type attribute');
@@ -205,44 +469,112 @@ export class Calculator {
             // Clear any previously active operator button styling
             this.clearActiveOperator();
 
-            // Route to appropriate handler based on button type
+            // Map button type to an engine action
+            let action: CalculatorAction;
             switch (type) {
                 case 'number':
-                    this.inputNumber(value || '');
+                    action = { type: 'digit', digit: value || '' };
                     break;
                 case 'operator':
-                    this.inputOperator(value || '');
-                    btn.classList.add('active'); // Highlight active operator
-                    this.activeOperatorBtn = btn;
+                    if (!value || !isBinaryOperator(value)) {
+                        console.warn('Unknown operator:', value);
+                        return;
+                    }
+                    action = { type: 'operator', operator: value };
                     break;
                 case 'equals':
-                    this.calculate();
+                    action = { type: 'equals' };
                     break;
                 case 'decimal':
-                    this.inputDecimal();
+                    action = { type: 'decimal' };
                     break;
                 case 'clear':
-                    this.clear();
+                    action = this.clearAction();
                     break;
                 case 'negate':
-                    this.negate();
+                    action = { type: 'negate' };
                     break;
                 case 'percent':
-                    this.percent();
+                    action = { type: 'percent' };
+                    break;
+                case 'not':
+                    action = { type: 'bitwiseNot' };
+                    break;
+                case 'function': {
+                    const name = this.secondFunctionsActive ? btn.dataset.altValue || value : value;
+                    if (!name || !isUnaryFunction(name)) {
+                        console.warn('Unknown function:', name);
+                        return;
+                    }
+                    action = { type: 'function', name };
+                    break;
+                }
+                case 'constant':
+                    if (!value || !isConstant(value)) {
+                        console.warn('Unknown constant:', value);
+                        return;
+                    }
+                    action = { type: 'constant', name: value };
+                    break;
+                case 'paren':
+                    action = { type: value === ')' ? 'closeParen' : 'openParen' };
+                    break;
+                case 'angle':
+                    action = { type: 'toggleAngleMode' };
+                    break;
+                case 'second':
+                    this.toggleSecondFunctions();
+                    return;
+                case 'memory': {
+                    const memoryActions: Record<string, CalculatorAction> = {
+                        clear: { type: 'memoryClear' },
+                        add: { type: 'memoryAdd' },
+                        subtract: { type: 'memorySubtract' },
+                        recall: { type: 'memoryRecall' },
+                    };
+                    if (!value || !memoryActions[value]) {
+                        console.warn('Unknown memory key:', value);
+                        return;
+                    }
+                    action = memoryActions[value];
+                    break;
+                }
+                case 'register-command':
+                    this.armRegisterCommand(value === 'store' ? 'store' : 'recall');
+                    return;
+                case 'plugin': {
+                    const pluginButton = value ? this.pluginButtons.get(value) : undefined;
+                    if (!pluginButton) {
+                        console.warn('Unknown plugin key:', value);
+                        return;
+                    }
+                    action = pluginButton.action;
+                    break;
+                }
+                case 'register':
+                    if (!value || !isRegisterName(value)) {
+                        console.warn('Unknown register:', value);
+                        return;
+                    }
+                    action = this.pendingRegisterCommand === 'store'
+                        ? { type: 'storeRegister', register: value }
+                        : { type: 'recallRegister', register: value };
+                    this.armRegisterCommand(null);
                     break;
                 default:
                     console.warn('Unknown button type:', type);
                     return;
             }
 
-            // Update display after any operation
-            console.log('About to update display. Current value:', this.currentValue); // Debug log
-            this.updateDisplay();
-            this.updateDisplayAccessibility();
+            // Dispatch and update display after any operation
+            if (this.dispatch(action) && action.type === 'operator') {
+                btn.classList.add('active'); // Highlight active operator
+                this.activeOperatorBtn = btn;
+            }
 
         } catch (error) {
             console.error('Button click error:', error);
-            this.showError('Error');
+            this.showError(toCalculatorError(error));
         }
     }
 
@@ -250,9 +582,9 @@ export class Calculator {
     /**
      * Handles keyboard input events and maps them to calculator functions
      * 
-     * Provides comprehensive keyboard support including number keys, operators,
-     * and special functions. Validates input and provides the same functionality
-     * as button clicks.
+     * Finds the pressed shortcut in the keymap (see keymap.ts) and runs its
+     * command, which provides the same functionality as button clicks.
+     * Keys that are not bound are left to the browser.
      * 
      * @param event - The keyboard event
      * 
@@ -266,439 +598,1830 @@ export class Calculator {
      */
     private handleKeyPress(event: KeyboardEvent): void {
         try {
-            if (this.hasError) return; // Ignore input during error display
+            if (this.isEditingText(event.target)) return; // Let text fields handle their own keys
 
-            const key = event.key;
-            let handled = false;
+            // Look the key up in the keymap (user bindings first, then the defaults)
+            const { mode, base } = this.engine.getState();
+            let command = findCommand(this.getKeymap(), event, { mode, base });
 
-            // Handle number keys (0-9)
-            if (key >= '0' && key <= '9') {
-                this.inputNumber(key);
-                handled = true;
-            }
-            // Handle operator keys (+, -, *, /)
-            else if (['+', '-', '*', '/'].includes(key)) {
-                this.inputOperator(key);
-                handled = true;
-            }
-            // Handle equals key (Enter or =)
-            else if (key === 'Enter' || key === '=') {
-                event.preventDefault(); // Prevent form submission
-                this.calculate();
-                handled = true;
-            }
-            // Handle decimal point
-            else if (key === '.') {
-                this.inputDecimal();
-                handled = true;
-            }
-            // Handle clear keys (Escape, c, C)
-            else if (key === 'Escape' || key.toLowerCase() === 'c') {
-                this.clear();
-                handled = true;
-            }
-            // Handle percent key
-            else if (key === '%') {
-                this.percent();
-                handled = true;
-            }
-            // Handle backspace for single digit deletion
-            else if (key === 'Backspace') {
-                this.backspace();
-                handled = true;
+            // The locale's decimal key is a decimal point too, e.g. ',' in de-DE
+            const plainKey = !event.ctrlKey && !event.metaKey && !event.altKey;
+            if (!command && plainKey && event.key === getNumberSymbols(this.settings.locale).decimal) {
+                command = 'decimal';
             }
 
-            if (handled) {
-                // Update display after any keyboard operation
-                this.updateDisplay();
-                this.updateDisplayAccessibility();
+            // Leave unbound keys (Ctrl/Cmd + C copies, Ctrl/Cmd + V pastes) to the browser
+            if (!command || command === 'none') {
+                return;
             }
 
+            event.preventDefault(); // Keep the browser's own shortcut (search, reload, undo) from running too
+            this.runKeyCommand(command);
+
         } catch (error) {
             console.error('Keyboard error:', error);
-            this.showError('Error');
+            this.showError(toCalculatorError(error));
         }
     }
 
     /**
-     * Handles numeric input and builds multi-digit numbers
-     * 
-     * Manages number input state, handles leading zeros, and validates input length.
-     * Either starts a new number (after operators/equals) or appends to current number.
+     * Runs the command bound to a key
      * 
-     * @param num - The digit to input (0-9)
+     * @param command - The command from the keymap
      * 
-     * @example
-     * ```typescript
-     * calculator.inputNumber('5'); // Displays "5"
-     * calculator.inputNumber('7'); // Displays "57" 
-     * ```
+     * @private
      */
-    private inputNumber(num: string): void {
-        if (this.waitingForNewValue) {
-            // Start a new number after operator or equals
-            this.currentValue = num;
-            this.waitingForNewValue = false;
-        } else {
-            // Append digit to current number (replace leading zero)
-            this.currentValue = this.currentValue === '0' ? num : this.currentValue + num;
+    private runKeyCommand(command: KeyCommand): void {
+        switch (command) {
+            case 'basicMode':
+            case 'scientificMode':
+            case 'programmerMode':
+                this.setMode(command === 'basicMode' ? 'basic' : command === 'scientificMode' ? 'scientific' : 'programmer');
+                return;
+            case 'undo':
+                this.undo();
+                return;
+            case 'redo':
+                this.redo();
+                return;
+            case 'editExpression':
+                this.openExpressionEditor();
+                return;
+            case 'showShortcuts':
+                this.toggleShortcutHelp();
+                return;
+            case 'clear':
+                this.clearActiveOperator();
+                this.dispatch(this.clearAction());
+                return;
+        }
+
+        const action = commandAction(command);
+        if (action) {
+            // Update display after any keyboard operation
+            this.clearActiveOperator();
+            this.dispatch(action);
         }
     }
 
     /**
-     * Handles mathematical operator input and manages calculation chaining
+     * Evaluates a whole formula and enters its result as the display value
      * 
-     * Stores current value, performs pending calculations if exists, and sets up
-     * for the next number input. Implements proper calculator chaining behavior.
+     * Syntax errors open the expression editor with the formula, the error
+     * message and the offending character selected; any other failure is
+     * shown on the display.
      * 
-     * @param nextOperator - The operator to apply (+, -, *, /)
+     * @param source - Formula such as "12*(3+4)/7"
+     * @returns False when the formula could not be evaluated
      * 
      * @example
      * ```typescript
-     * calculator.inputNumber('5');
-     * calculator.inputOperator('+');  // Sets up addition
-     * calculator.inputNumber('3');
-     * calculator.inputOperator('*');  // Calculates 5+3=8, then sets up multiplication
+     * calculator.enterExpression('12*(3+4)/7'); // Display shows 12
      * ```
      */
-    private inputOperator(nextOperator: string): void {
-        const inputValue = parseFloat(this.currentValue);
-
-        if (this.previousValue === null) {
-            // First operator - store current value as previous
-            this.previousValue = inputValue;
-        } else if (this.operator && !this.waitingForNewValue) {
-            // Chain calculation - calculate with existing operator first
-            try {
-                const result = this.performCalculation();
-                this.currentValue = String(result);
-                this.previousValue = result;
-            } catch (error) {
-                console.error('Calculation error:', error);
-                this.showError('Error');
-                return;
+    public enterExpression(source: string): boolean {
+        try {
+            parseExpression(source, this.engine.functions);
+        } catch (error) {
+            if (!(error instanceof ExpressionError)) {
+                this.showError(toCalculatorError(error));
+                return false;
             }
+            this.openExpressionEditor(source);
+            this.showExpressionError(error);
+            return false;
         }
 
-        // Set up for next number input
-        this.waitingForNewValue = true;
-        this.operator = nextOperator;
+        this.closeExpressionEditor();
+        this.clearActiveOperator();
+        return this.dispatch({ type: 'expression', source });
     }
 
     /**
-     * Performs final calculation and displays the result
-     * 
-     * Executes pending mathematical operation, resets calculation state,
-     * and prepares for new calculations. Handles error cases gracefully.
+     * Replaces the display with a text field for typing a formula
      * 
-     * @example
-     * ```typescript
-     * calculator.inputNumber('10');
-     * calculator.inputOperator('/');
-     * calculator.inputNumber('2');
-     * calculator.calculate(); // Displays "5"
-     * ```
+     * @param source - Initial text (defaults to the displayed value, selected)
      */
-    private calculate(): void {
-        if (this.operator && this.previousValue !== null && !this.waitingForNewValue) {
-            try {
-                const result = this.performCalculation();
-                this.currentValue = String(result);
-                this.previousValue = null;          // Clear previous value
-                this.operator = null;               // Clear operator
-                this.waitingForNewValue = true;     // Result becomes starting point for next calculation
-            } catch (error) {
-                console.error('Calculation error:', error);
-                this.showError('Error');
-                return;
-            }
+    public openExpressionEditor(source?: string): void {
+        const input = this.expressionInput;
+        if (!input) {
+            return;
         }
 
-        this.clearActiveOperator();
+        input.value = source ?? (this.hasError ? '' : this.currentValue);
+        input.hidden = false;
+        this.display.hidden = true;
+        this.clearExpressionError();
+        input.focus();
+        if (source === undefined) {
+            input.select();
+        }
     }
 
     /**
-     * Performs the actual calculation between two numbers
-     * @returns The calculation result
+     * Hides the expression editor and shows the display again
+     * 
      * @private
      */
-    private performCalculation(): number {
-        const prev = this.previousValue!;
-        const current = parseFloat(this.currentValue);
-        
-        // Validate inputs
-        if (isNaN(prev) || isNaN(current)) {
-            throw new Error('Invalid number in calculation');
-        }
-        
-        let result: number;
-        
-        switch(this.operator) {
-            case '+':
-                result = prev + current;
-                break;
-            case '-':
-                result = prev - current;
-                break;
-            case '*':
-                result = prev * current;
-                break;
-            case '/':
-                if (current === 0) {
-                    throw new Error('Division by zero');
-                }
-                result = prev / current;
-                break;
-            default:
-                result = current;
-        }
-        
-        // Check for overflow or invalid results
-        if (!Number.isFinite(result)) {
-            throw new Error('Result is not finite');
+    private closeExpressionEditor(): void {
+        const input = this.expressionInput;
+        if (!input || input.hidden) {
+            return;
         }
-        
-        // Round to avoid floating point precision issues
-        return Math.round(result * 1000000000000) / 1000000000000;
+
+        input.hidden = true;
+        this.display.hidden = false;
+        this.clearExpressionError();
     }
 
     /**
-     * Handles decimal point input for floating-point numbers
+     * Handles Enter (evaluate) and Escape (cancel) in the expression editor
      * 
-     * Validates decimal input, prevents multiple decimal points,
-     * and handles new decimal numbers after operators.
+     * @param event - The keyboard event from the editor
      * 
-     * @example
-     * ```typescript
-     * calculator.inputDecimal();    // Shows "0."
-     * calculator.inputNumber('5');  // Shows "0.5"
-     * ```
+     * @private
      */
-    private inputDecimal(): void {
-        if (this.waitingForNewValue) {
-            // Start new decimal number
-            this.currentValue = '0.';
-            this.waitingForNewValue = false;
-        } else if (this.currentValue.indexOf('.') === -1) {
-            // Add decimal point if none exists
-            this.currentValue += '.';
+    private handleExpressionKey(event: KeyboardEvent): void {
+        if (event.key === 'Enter') {
+            event.preventDefault();
+            this.enterExpression(this.expressionInput?.value ?? '');
+            if (this.expressionInput?.hidden) {
+                this.display.focus();   // Keep keyboard input flowing to the calculator
+            }
+        } else if (event.key === 'Escape') {
+            event.preventDefault();
+            this.closeExpressionEditor();
+            this.display.focus();
         }
     }
 
     /**
-     * Resets calculator to initial state (All Clear functionality)
+     * Enters a pasted number, or evaluates pasted text as an expression
      * 
-     * Clears all state variables, resets display to zero,
-     * and removes any active operator styling.
+     * Numbers may carry grouping separators and currency symbols
+     * ("$1,234.50"); in Programmer mode they are read in the current base.
+     * Text that is neither a number nor a valid formula opens the
+     * expression editor with the error.
+     * 
+     * @param text - The pasted text
+     * @returns False when nothing could be entered
      * 
      * @example
      * ```typescript
-     * calculator.clear(); // Resets to "0"
+     * calculator.pasteText('1.234,5 €'); // Display shows 1,234.5 (en-US)
      * ```
      */
-    private clear(): void {
-        this.currentValue = '0';
-        this.previousValue = null;
-        this.operator = null;
-        this.waitingForNewValue = false;
-        this.hasError = false;
+    public pasteText(text: string): boolean {
+        if (text.trim() === '') {
+            return false;
+        }
+
+        const { mode, base } = this.engine.getState();
+        const value = mode === 'programmer'
+            ? parseInBase(text, base)?.toString() ?? null
+            : parseNumberText(text, this.settings.locale);
+
+        if (value === null) {
+            return this.enterExpression(text);
+        }
+
+        this.closeExpressionEditor();
         this.clearActiveOperator();
+        return this.dispatch({ type: 'enterNumber', value });
     }
 
     /**
-     * Toggles the sign of the current number (positive/negative)
+     * Text copied by Ctrl/Cmd + C: the full-precision value, not the rounded display
      * 
-     * Changes positive numbers to negative and vice versa.
-     * Does not affect zero values.
+     * Programmer mode copies the word in the selected base.
      * 
      * @example
      * ```typescript
-     * calculator.currentValue = "5";
-     * calculator.negate(); // Changes to "-5"
-     * calculator.negate(); // Changes back to "5"
+     * // After 2 ÷ 3 =, the display shows 0.66666667
+     * calculator.getCopyText(); // "0.6666666666666666666666666666666667"
      * ```
      */
-    private negate(): void {
-        if (this.currentValue !== '0') {
-            this.currentValue = this.currentValue.startsWith('-') 
-                ? this.currentValue.slice(1)      // Remove minus sign
-                : '-' + this.currentValue;        // Add minus sign
+    public getCopyText(): string {
+        const state = this.engine.getState();
+        if (state.mode === 'programmer') {
+            return formatInBase(toWord(Decimal.parse(state.currentValue), state), state.base, state);
         }
+        return state.currentValue;
     }
 
     /**
-     * Converts current number to percentage (divides by 100)
+     * Writes the full-precision value to the system clipboard
      * 
-     * Applies percentage calculation to the current display value.
-     * Useful for calculations involving percentages.
+     * @returns False when the clipboard is unavailable or access was denied
+     */
+    public async copyToClipboard(): Promise<boolean> {
+        try {
+            await navigator.clipboard.writeText(this.getCopyText());
+            return true;
+        } catch (error) {
+            console.error('Copy failed:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Reads the system clipboard and pastes its text
      * 
-     * @example
-     * ```typescript
-     * calculator.currentValue = "50";
-     * calculator.percent(); // Changes to "0.5" (50%)
-     * ```
+     * @returns False when the clipboard is unavailable or its text could not be entered
      */
-    private percent(): void {
-        this.currentValue = String(parseFloat(this.currentValue) / 100);
+    public async pasteFromClipboard(): Promise<boolean> {
+        try {
+            return this.pasteText(await navigator.clipboard.readText());
+        } catch (error) {
+            console.error('Paste failed:', error);
+            return false;
+        }
     }
 
     /**
-     * Removes the last digit from the current number (backspace functionality)
+     * Pastes clipboard text into the calculator (see pasteText)
      * 
-     * Provides backspace functionality for number editing.
-     * Resets to "0" if all digits are removed.
+     * Pastes into text fields are left alone.
      * 
-     * @private
+     * @param event - The paste event
      * 
-     * @example
-     * ```typescript
-     * calculator.currentValue = "123";
-     * calculator.backspace(); // Changes to "12"
-     * calculator.backspace(); // Changes to "1"
-     * calculator.backspace(); // Changes to "0"
-     * ```
+     * @private
      */
-    private backspace(): void {
-        if (this.waitingForNewValue || this.currentValue === '0') {
+    private handlePaste(event: ClipboardEvent): void {
+        if (this.isEditingText(event.target)) {
             return;
         }
 
-        if (this.currentValue.length > 1) {
-            this.currentValue = this.currentValue.slice(0, -1);
-        } else {
-            this.currentValue = '0';
+        const text = event.clipboardData?.getData('text/plain') ?? '';
+        if (text.trim() === '') {
+            return;
+        }
+
+        event.preventDefault();
+        try {
+            this.pasteText(text);
+        } catch (error) {
+            console.error('Paste error:', error);
+            this.showError(toCalculatorError(error));
         }
     }
 
     /**
-     * Removes visual highlighting from operator buttons
+     * Puts the full-precision value on the clipboard
      * 
-     * Clears the active state styling from previously selected operator buttons.
-     * Provides visual feedback for the current operation state.
+     * Copies from text fields and of selected page text are left alone.
      * 
-     * @private
+     * @param event - The copy event
      * 
-     * @example
-     * ```typescript
-     * this.clearActiveOperator(); // Removes highlighting from all operator buttons
-     * ```
+     * @private
      */
-    private clearActiveOperator(): void {
-        if (this.activeOperatorBtn) {
-            this.activeOperatorBtn.classList.remove('active');
-            this.activeOperatorBtn = null;
+    private handleCopy(event: ClipboardEvent): void {
+        if (this.hasError || this.isEditingText(event.target) || !event.clipboardData) {
+            return;
+        }
+        if ((window.getSelection()?.toString() ?? '') !== '') {
+            return;
         }
+
+        event.preventDefault();
+        event.clipboardData.setData('text/plain', this.getCopyText());
     }
 
     /**
-     * Updates the calculator display with proper formatting and responsive sizing
+     * Shows the Copy / Paste menu at the pointer
      * 
-     * Handles number formatting, overflow cases, scientific notation,
-     * and dynamically adjusts font size based on content length.
+     * @param event - The contextmenu event from the display
      * 
-     * @example
-     * ```typescript
-     * this.currentValue = "1234567890123";
-     * this.updateDisplay(); // Formats to scientific notation and adjusts font size
-     * ```
+     * @private
      */
-    private updateDisplay(): void {
-        let displayValue = this.currentValue;
-
-        console.log('updateDisplay called with:', displayValue); // Debug log
+    private openDisplayMenu(event: MouseEvent): void {
+        const menu = this.displayMenu;
+        if (!menu) {
+            return;
+        }
 
-        // Handle long numbers - use scientific notation for very long numbers
-        if (displayValue.length > 9) {
-            const num = parseFloat(displayValue);
-            displayValue = num.toExponential(6);
+        event.preventDefault();
+        const paste = menu.querySelector<HTMLButtonElement>('[data-command="paste"]');
+        if (paste) {
+            paste.disabled = typeof navigator.clipboard?.readText !== 'function';
         }
-        
-        // Handle decimal precision - limit decimal places for long decimal numbers
-        if (displayValue.includes('.') && displayValue.length > 9) {
-            const num = parseFloat(displayValue);
-            displayValue = num.toFixed(6).replace(/\.?0+$/, '');  // Remove trailing zeros
+        const copy = menu.querySelector<HTMLButtonElement>('[data-command="copy"]');
+        if (copy) {
+            copy.disabled = this.hasError;
         }
 
-        // Update the DOM display element
-        console.log('Setting display text to:', displayValue); // Debug log
-        this.display.textContent = displayValue;
+        menu.style.left = `${event.clientX}px`;
+        menu.style.top = `${event.clientY}px`;
+        menu.hidden = false;
+        menu.querySelector<HTMLButtonElement>('.display-menu-item:not(:disabled)')?.focus();
+    }
 
-        // Responsive font sizing - smaller font for longer numbers
-        if (displayValue.length > 7) {
-            this.display.style.fontSize = '2.5rem';
-        } else {
-            this.display.style.fontSize = '3rem';
+    /**
+     * Hides the display's context menu
+     * 
+     * @private
+     */
+    private closeDisplayMenu(): void {
+        if (this.displayMenu && !this.displayMenu.hidden) {
+            this.displayMenu.hidden = true;
+        }
+    }
+
+    /**
+     * Runs the Copy or Paste command picked from the display's context menu
+     * 
+     * @param event - The click event inside the menu
+     * 
+     * @private
+     */
+    private handleDisplayMenuClick(event: MouseEvent): void {
+        const item = (event.target as HTMLElement).closest<HTMLButtonElement>('.display-menu-item');
+        if (!item || item.disabled) {
+            return;
         }
 
-        // Remove error state styling if present
-        this.display.classList.remove('error-state');
+        this.closeDisplayMenu();
+        this.display.focus();
+        if (item.dataset.command === 'copy') {
+            void this.copyToClipboard();
+        } else if (item.dataset.command === 'paste') {
+            void this.pasteFromClipboard();
+        }
     }
 
     /**
-     * Updates accessibility attributes for the display element
+     * Moves between menu items with the arrow keys and closes the menu with Escape
      * 
-     * Maintains screen reader compatibility by updating ARIA labels
-     * and live region announcements for display changes.
+     * Keys are kept from the calculator's keyboard shortcuts while the menu is open.
+     * 
+     * @param event - The keyboard event from the menu
      * 
      * @private
      */
-    private updateDisplayAccessibility(): void {
-        const displayValue = this.display.textContent || '0';
-        this.display.setAttribute('aria-label', `Calculator display showing: ${displayValue}`);
+    private handleDisplayMenuKey(event: KeyboardEvent): void {
+        event.stopPropagation();
+
+        const items = Array.from(this.displayMenu?.querySelectorAll<HTMLButtonElement>('.display-menu-item:not(:disabled)') ?? []);
+        const index = items.indexOf(this.root.activeElement as HTMLButtonElement);
+
+        if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+            event.preventDefault();
+            const step = event.key === 'ArrowDown' ? 1 : -1;
+            items[(index + step + items.length) % items.length]?.focus();
+        } else if (event.key === 'Escape' || event.key === 'Tab') {
+            event.preventDefault();
+            this.closeDisplayMenu();
+            this.display.focus();
+        }
     }
 
     /**
-     * Shows error message and auto-clears after timeout
-     * @param message - Error message to display
+     * Shows a syntax error under the expression editor and selects the offending character
+     * 
+     * @param error - The parse error
+     * 
      * @private
      */
-    private showError(message: string): void {
-        this.display.textContent = message;
-        this.display.classList.add('error-state');
-        
-        // Auto-clear error after 2 seconds
-        setTimeout(() => {
-            this.clear();
-            this.updateDisplay();
-            this.updateDisplayAccessibility();
-        }, 2000);
+    private showExpressionError(error: ExpressionError): void {
+        const input = this.expressionInput;
+        const message = this.root.querySelector<HTMLElement>('.expression-error');
+        if (message) {
+            message.textContent = error.message;
+            message.hidden = false;
+        }
+        input?.setAttribute('aria-invalid', 'true');
+        input?.setSelectionRange(error.position, error.position + 1);
     }
 
     /**
-     * Handles focus events for improved accessibility
+     * Hides the expression error message
      * 
-     * @param event - The focus event
      * @private
      */
-    private handleFocusIn(event: FocusEvent): void {
-        const target = event.target as HTMLElement;
-        if (target.classList.contains('btn')) {
-            // Announce button purpose to screen readers
-            target.setAttribute('aria-describedby', target.title || '');
+    private clearExpressionError(): void {
+        const message = this.root.querySelector<HTMLElement>('.expression-error');
+        if (message) {
+            message.hidden = true;
         }
+        this.expressionInput?.removeAttribute('aria-invalid');
     }
 
-}
+    /**
+     * Whether an event comes from a field that takes its own keyboard input
+     * 
+     * @param target - The event target
+     * 
+     * @private
+     */
+    private isEditingText(target: EventTarget | null): boolean {
+        return target instanceof HTMLElement && target.matches('input[type="text"], textarea, select');
+    }
 
-/**
- * Application Initialization
- * 
- * Initializes the calculator when the DOM is fully loaded.
- * Uses DOMContentLoaded event to ensure all DOM elements exist
- * before creating the calculator instance.
- * 
- * @example
- * ```typescript
- * // Automatically runs when page loads
- * document.addEventListener('DOMContentLoaded', () => {
- *   new Calculator();
- * });
- * ```
- */
+    /**
+     * Sends an action to the engine, renders the resulting state and notifies listeners
+     * 
+     * Host pages can drive the calculator with any engine action (see engine.ts).
+     * 
+     * @param action - The action to apply
+     * @returns False when the engine reported a calculation error
+     * 
+     * @example
+     * ```typescript
+     * calculator.dispatch({ type: 'enterNumber', value: '1234.5' });
+     * calculator.dispatch({ type: 'function', name: 'sqrt' });
+     * ```
+     */
+    public dispatch(action: CalculatorAction): boolean {
+        const previous = this.engine.getState();
+        const state = this.engine.dispatch(action);
+
+        if (state.error) {
+            console.error('Calculation error:', state.error);
+            this.showError(state.error);
+        } else {
+            this.render();
+        }
+
+        this.emitChanges(previous);
+        return state.error === null;
+    }
+
+    /**
+     * Subscribes to calculator events (see events.ts)
+     * 
+     * @param type - valuechange, result, error or modechange
+     * @param listener - Called with the event's details
+     * @returns A function that unsubscribes the listener
+     * 
+     * @example
+     * ```typescript
+     * calculator.on('result', ({ entry }) => {
+     *   console.log(`${entry.expression} = ${entry.result.toString()}`);
+     * });
+     * ```
+     */
+    public on<K extends CalculatorEventType>(type: K, listener: CalculatorListener<K>): () => void {
+        return this.events.on(type, listener);
+    }
+
+    /**
+     * Removes a listener added with on()
+     */
+    public off<K extends CalculatorEventType>(type: K, listener: CalculatorListener<K>): void {
+        this.events.off(type, listener);
+    }
+
+    /**
+     * Announces the change from a snapshot to the current state and emits its events
+     * 
+     * @param previous - State before the change
+     * 
+     * @private
+     */
+    private emitChanges(previous: CalculatorState): void {
+        const state = this.engine.getState();
+        const announcement = describeChange(previous, state, this.display.textContent || '0');
+        if (announcement) {
+            this.announce(announcement);
+        }
+        stateEvents(previous, state).forEach((event) => this.events.emit(event));
+    }
+
+    /**
+     * Says something through the live region for screen readers
+     * 
+     * @param text - What to say
+     * 
+     * @private
+     */
+    private announce(text: string): void {
+        const announcer = this.root.querySelector('.announcer');
+        if (announcer) {
+            // Repeated text is not read again unless the region's content changes
+            announcer.textContent = announcer.textContent === text ? `${text}\u00a0` : text;
+        }
+    }
+
+    /**
+     * Adds a plugin's functions and keys, then runs its setup (see plugins.ts)
+     * 
+     * The functions are added to this calculator only; other calculators
+     * on the page can use the same plugin.
+     * 
+     * @param plugin - The plugin to add
+     * @returns A function that removes the plugin again
+     * @throws {Error} When a plugin with the same name was added, or a function name is taken in this calculator
+     * 
+     * @example
+     * ```typescript
+     * const remove = calculator.use({
+     *   name: 'tax',
+     *   functions: [{ name: 'vat', label: 'VAT', apply: (x) => x.times(Decimal.parse('1.2')) }],
+     *   buttons: [{ label: '+VAT', action: { type: 'customFunction', name: 'vat' } }],
+     * });
+     * ```
+     */
+    public use(plugin: CalculatorPlugin): () => void {
+        if (this.plugins.has(plugin.name)) {
+            throw new Error(`Plugin already added: ${plugin.name}`);
+        }
+
+        const { functions } = this.engine;
+        const registered: string[] = [];
+        try {
+            (plugin.functions ?? []).forEach((definition) => {
+                functions.register(definition);
+                registered.push(definition.name);
+            });
+        } catch (error) {
+            registered.forEach((name) => functions.unregister(name));
+            throw error;
+        }
+
+        const keys = (plugin.buttons ?? []).map((button, index) => {
+            const key = `${plugin.name}:${index}`;
+            this.pluginButtons.set(key, button);
+            return key;
+        });
+        this.renderPluginKeys();
+
+        let cleanup: (() => void) | void;
+        const remove = (): void => {
+            if (this.plugins.get(plugin.name) !== remove) {
+                return;
+            }
+            this.plugins.delete(plugin.name);
+            registered.forEach((name) => functions.unregister(name));
+            keys.forEach((key) => this.pluginButtons.delete(key));
+            this.renderPluginKeys();
+            try {
+                cleanup?.();
+            } catch (error) {
+                console.error(`Plugin ${plugin.name} cleanup error:`, error);
+            }
+        };
+        this.plugins.set(plugin.name, remove);
+
+        try {
+            cleanup = plugin.setup?.(this);
+        } catch (error) {
+            remove();
+            throw error;
+        }
+        return remove;
+    }
+
+    /**
+     * Shows the keys added by plugins, hiding the row when there are none
+     * 
+     * @private
+     */
+    private renderPluginKeys(): void {
+        const row = this.pluginKeys;
+        if (!row) {
+            return;
+        }
+
+        const gridRow = document.createElement('div');
+        gridRow.className = 'grid-row';
+        gridRow.setAttribute('role', 'row');
+        gridRow.append(...Array.from(this.pluginButtons, ([key, button]) => {
+            const element = document.createElement('button');
+            element.className = 'btn btn-scientific btn-plugin';
+            element.dataset.type = 'plugin';
+            element.dataset.value = key;
+            element.textContent = button.label;
+            element.title = button.title ?? button.label;
+            element.setAttribute('aria-label', button.title ?? button.label);
+
+            const cell = document.createElement('div');
+            cell.className = 'grid-cell';
+            cell.setAttribute('role', 'gridcell');
+            cell.append(element);
+            return cell;
+        }));
+
+        row.replaceChildren(gridRow);
+        row.hidden = this.pluginButtons.size === 0;
+        this.updateGridTabStops();
+    }
+
+    /**
+     * Reverses the last action, restoring the whole calculator state before it
+     * 
+     * Undoing while an error is shown returns to the state before the failed action.
+     * 
+     * @returns False when there is nothing to undo
+     * 
+     * @example
+     * ```typescript
+     * // 12 + 5, then AC
+     * calculator.undo(); // Display shows 5 again, with + still pending
+     * ```
+     */
+    public undo(): boolean {
+        if (!this.engine.canUndo()) {
+            return false;
+        }
+
+        const previous = this.engine.getState();
+        this.clearActiveOperator();
+        this.engine.undo();
+        this.render();
+        this.emitChanges(previous);
+        return true;
+    }
+
+    /**
+     * Reapplies the last undone action
+     * 
+     * @returns False when there is nothing to redo
+     */
+    public redo(): boolean {
+        if (!this.engine.canRedo()) {
+            return false;
+        }
+
+        const previous = this.engine.getState();
+        this.clearActiveOperator();
+        this.engine.redo();
+        this.render();
+        this.emitChanges(previous);
+        return true;
+    }
+
+    /**
+     * Renders the engine's current state and saves it
+     * 
+     * @private
+     */
+    private render(): void {
+        this.clearError();
+        this.updateLayout();
+        this.updateDisplay();
+        this.updateDisplayAccessibility();
+        this.updateMemoryIndicators();
+        this.updateClearButton();
+        this.renderTape();
+        this.saveState();
+    }
+
+    /**
+     * Saves the engine state and settings so a reload can restore them
+     * 
+     * @private
+     */
+    private saveState(): void {
+        saveSnapshot({ state: this.engine.getState(), settings: this.settings }, this.storage, this.storageKey);
+    }
+
+    /**
+     * Shows or hides the paper tape panel
+     * 
+     * @example
+     * ```typescript
+     * calculator.toggleTape(); // Like macOS "Show Paper Tape"
+     * ```
+     */
+    public toggleTape(): void {
+        const tape = this.root.querySelector<HTMLElement>('.paper-tape');
+        if (!tape) {
+            return;
+        }
+
+        tape.hidden = !tape.hidden;
+        this.root.querySelector('.tape-toggle')?.setAttribute('aria-pressed', String(!tape.hidden));
+    }
+
+    /**
+     * Shows or hides the settings panel
+     */
+    public toggleSettings(): void {
+        this.togglePanel('.settings-panel', '.settings-toggle');
+    }
+
+    /**
+     * Shortcuts in effect: the user's bindings, then the defaults
+     * 
+     * @returns Bindings in the order they are matched
+     */
+    public getKeymap(): KeyBinding[] {
+        return buildKeymap(this.settings.keyBindings);
+    }
+
+    /**
+     * Binds a shortcut to a command, ahead of the default shortcuts
+     * 
+     * The binding is kept in the settings and replaces any earlier user
+     * binding of the same shortcut in the same context.
+     * 
+     * @param keys - Shortcut such as "Mod+Shift+Z" (see keymap.ts)
+     * @param command - Command to run; 'none' disables the shortcut
+     * @param context - Mode the binding is limited to
+     * @returns False when the shortcut cannot be parsed
+     * 
+     * @example
+     * ```typescript
+     * calculator.bindKey('m', 'memoryAdd');  // M adds the display to memory
+     * calculator.bindKey('c', 'none');       // C no longer clears
+     * ```
+     */
+    public bindKey(keys: string, command: KeyCommand, context?: KeyContext): boolean {
+        try {
+            parseShortcut(keys);
+        } catch (error) {
+            console.warn('Invalid shortcut:', error);
+            return false;
+        }
+
+        const binding: KeyBinding = context ? { keys, command, context } : { keys, command };
+        const others = this.settings.keyBindings.filter((existing) =>
+            existing.keys !== keys || existing.context !== context);
+        this.updateSettings({ keyBindings: [binding, ...others] });
+        return true;
+    }
+
+    /**
+     * Removes the user's shortcuts, going back to the defaults
+     */
+    public resetKeymap(): void {
+        this.updateSettings({ keyBindings: [] });
+    }
+
+    /**
+     * Shows or hides the list of keyboard shortcuts
+     * 
+     * Focus moves into the list while it is open and back to the display when it closes.
+     */
+    public toggleShortcutHelp(): void {
+        const help = this.shortcutHelp;
+        if (!help) {
+            return;
+        }
+
+        if (help.hidden) {
+            this.renderShortcutHelp();
+            help.hidden = false;
+            help.querySelector<HTMLButtonElement>('.shortcut-help-close')?.focus();
+        } else {
+            help.hidden = true;
+            this.display.focus();
+        }
+    }
+
+    /**
+     * Lists the shortcuts of the current keymap, grouped like KEY_COMMAND_GROUPS
+     * 
+     * Shortcuts hidden by an earlier binding of the same key are left out.
+     * 
+     * @private
+     */
+    private renderShortcutHelp(): void {
+        const container = this.shortcutHelp?.querySelector('.shortcut-help-groups');
+        if (!container) {
+            return;
+        }
+
+        const apple = /Mac|iPhone|iPad/.test(navigator.platform);
+        const contextNames: Readonly<Record<KeyContext, string>> = {
+            basic: 'Basic',
+            scientific: 'Scientific',
+            programmer: 'Programmer',
+            hex: 'HEX',
+        };
+
+        // Collect each command's shortcuts, skipping shadowed bindings
+        const seen = new Set<string>();
+        const shortcuts = new Map<KeyCommand, string[]>();
+        this.getKeymap().forEach((binding) => {
+            const id = `${formatShortcut(binding.keys, false)} ${binding.context ?? ''}`;
+            if (seen.has(id)) {
+                return;
+            }
+            seen.add(id);
+            if (binding.command === 'none') {
+                return;
+            }
+
+            const context = binding.context ? ` (${contextNames[binding.context]})` : '';
+            shortcuts.set(binding.command, [...(shortcuts.get(binding.command) ?? []), formatShortcut(binding.keys, apple) + context]);
+        });
+
+        container.replaceChildren(...KEY_COMMAND_GROUPS.map((group) => {
+            const section = document.createElement('section');
+            const heading = document.createElement('h3');
+            const list = document.createElement('dl');
+            heading.textContent = group;
+            list.className = 'shortcut-list';
+
+            shortcuts.forEach((keys, command) => {
+                if (KEY_COMMANDS[command].group !== group) {
+                    return;
+                }
+                const term = document.createElement('dt');
+                const description = document.createElement('dd');
+                term.textContent = KEY_COMMANDS[command].label;
+                keys.forEach((key, index) => {
+                    const kbd = document.createElement('kbd');
+                    kbd.textContent = key;
+                    if (index > 0) {
+                        description.append(' ');
+                    }
+                    description.append(kbd);
+                });
+                list.append(term, description);
+            });
+
+            section.append(heading, list);
+            return list.children.length > 0 ? section : null;
+        }).filter((section): section is HTMLElement => section !== null));
+    }
+
+    /**
+     * Closes the shortcut list with Escape or ? and keeps focus inside it
+     * 
+     * Keys are kept from the calculator's keyboard shortcuts while the list is open.
+     * 
+     * @param event - The keyboard event from the shortcut list
+     * 
+     * @private
+     */
+    private handleShortcutHelpKey(event: KeyboardEvent): void {
+        event.stopPropagation();
+
+        if (event.key === 'Escape' || event.key === '?') {
+            event.preventDefault();
+            this.toggleShortcutHelp();
+        } else if (event.key === 'Tab') {
+            event.preventDefault(); // The close button is the only stop
+        }
+    }
+
+    /**
+     * Shows or hides the unit converter
+     */
+    public toggleConverter(): void {
+        this.togglePanel('.convert-panel', '.convert-toggle');
+    }
+
+    /**
+     * Converts the displayed value between two units of the same category
+     * 
+     * The result replaces the display, so calculation can continue from it,
+     * and the conversion is recorded on the paper tape.
+     * 
+     * @param from - Id of the unit the displayed value is in (see units.ts)
+     * @param to - Id of the unit to convert to
+     * @returns False when the conversion failed (e.g. below absolute zero)
+     * 
+     * @example
+     * ```typescript
+     * calculator.convertUnits('in', 'cm'); // 12 → 30.48
+     * ```
+     */
+    public convertUnits(from: string, to: string): boolean {
+        if (this.hasError) {
+            return false;
+        }
+
+        this.clearActiveOperator();
+        return this.dispatch({ type: 'convert', from, to });
+    }
+
+    /**
+     * Converts the displayed amount between currencies
+     * 
+     * Uses the loaded rate table, or the user's own rate where one was entered.
+     * The result is rounded to the target currency's minor unit (0.01 EUR, 1 JPY),
+     * replaces the display and is recorded on the paper tape.
+     * 
+     * @param from - ISO 4217 code of the displayed amount
+     * @param to - ISO 4217 code to convert to
+     * @returns False when no rates are loaded or a currency is not in the table
+     * 
+     * @example
+     * ```typescript
+     * calculator.convertCurrency('EUR', 'USD'); // 100 → 117.34
+     * ```
+     */
+    public convertCurrency(from: string, to: string): boolean {
+        if (this.hasError || !this.rateTable) {
+            return false;
+        }
+
+        let rate: Decimal;
+        try {
+            rate = crossRate(this.rateTable, this.settings.currencyRates, from, to);
+        } catch (error) {
+            console.warn('Cannot convert currency:', error);
+            return false;
+        }
+
+        this.clearActiveOperator();
+        return this.dispatch({ type: 'convertCurrency', from, to, rate: rate.toString() });
+    }
+
+    /**
+     * Replaces the exchange rate between two currencies with the user's own
+     * 
+     * The rate is kept in the settings, so it survives reloads, until it is reset.
+     * 
+     * @param from - ISO 4217 code of the currency being priced
+     * @param to - ISO 4217 code the rate is given in
+     * @param rate - Units of `to` per 1 unit of `from`, in the display locale
+     * @returns False when no rates are loaded or the rate is not a positive number
+     * 
+     * @example
+     * ```typescript
+     * calculator.setCurrencyRate('USD', 'EUR', '0.85'); // 1 USD = 0.85 EUR
+     * ```
+     */
+    public setCurrencyRate(from: string, to: string, rate: string): boolean {
+        const table = this.rateTable;
+        if (!table) {
+            this.updateRateRow(true);
+            return false;
+        }
+
+        let currencyRates: Readonly<Record<string, string>>;
+        try {
+            const value = parseNumberText(rate, this.settings.locale);
+            if (value === null) {
+                this.updateRateRow(true);
+                return false;
+            }
+            currencyRates = overrideRate(table, this.settings.currencyRates, from, to, value);
+        } catch (error) {
+            console.warn('Invalid exchange rate:', error);
+            this.updateRateRow(true);
+            return false;
+        }
+
+        this.updateSettings({ currencyRates });
+        return true;
+    }
+
+    /**
+     * Removes the rate entered with setCurrencyRate for two currencies
+     * 
+     * Rates the user entered for other pairs are kept.
+     * 
+     * @param from - ISO 4217 code of the currency being priced
+     * @param to - ISO 4217 code the rate is given in
+     */
+    public resetCurrencyRate(from: string, to: string): void {
+        if (!this.rateTable) {
+            return;
+        }
+        this.updateSettings({ currencyRates: resetRate(this.rateTable, this.settings.currencyRates, from, to) });
+    }
+
+    /**
+     * Loads the offline exchange rates and offers Currency in the converter
+     * 
+     * When the rates cannot be loaded, Currency stays unavailable and the
+     * unit converter works as before.
+     * 
+     * @param url - Location of the rate table (see currency.ts for the format)
+     * @returns Whether the rates were loaded
+     */
+    public async loadCurrencyRates(url: string = RATES_URL): Promise<boolean> {
+        try {
+            this.rateTable = await loadRateTable(url);
+        } catch (error) {
+            console.warn('Could not load exchange rates:', error);
+            return false;
+        }
+
+        const option = this.root.querySelector<HTMLOptionElement>('.unit-category option[value="currency"]');
+        if (option) {
+            option.disabled = false;
+        }
+        return true;
+    }
+
+    /**
+     * Shows or hides a panel and updates the aria-pressed state of its toolbar button
+     * 
+     * @param panelSelector - The panel to toggle
+     * @param toggleSelector - The toolbar button controlling it
+     * 
+     * @private
+     */
+    private togglePanel(panelSelector: string, toggleSelector: string): void {
+        const panel = this.root.querySelector<HTMLElement>(panelSelector);
+        if (!panel) {
+            return;
+        }
+
+        panel.hidden = !panel.hidden;
+        this.root.querySelector(toggleSelector)?.setAttribute('aria-pressed', String(!panel.hidden));
+    }
+
+    /**
+     * Fills the converter's category picker and the unit pickers of the first category
+     * 
+     * @private
+     */
+    private renderUnitCategories(): void {
+        const select = this.root.querySelector<HTMLSelectElement>('.unit-category');
+        if (!select) {
+            return;
+        }
+
+        // Currency is offered once the exchange rates have loaded
+        const currency = new Option('Currency', 'currency');
+        currency.disabled = !this.rateTable;
+
+        select.replaceChildren(
+            ...Object.entries(UNIT_CATEGORIES).map(([category, name]) => new Option(name, category)),
+            currency,
+        );
+        this.renderUnitOptions(select.value as ConverterCategory);
+    }
+
+    /**
+     * Fills the from/to pickers with a category's units, preselecting the first two
+     * 
+     * Currency lists the codes in the rate table, base currency first.
+     * 
+     * @param category - The selected category
+     * 
+     * @private
+     */
+    private renderUnitOptions(category: ConverterCategory): void {
+        const options = category === 'currency'
+            ? (this.rateTable ? currencyCodes(this.rateTable) : []).map((code) => ({ label: code, value: code }))
+            : unitsIn(category).map((unit) => ({ label: `${unit.name} (${unit.symbol})`, value: unit.id }));
+        const pickers = [
+            this.root.querySelector<HTMLSelectElement>('.unit-from'),
+            this.root.querySelector<HTMLSelectElement>('.unit-to'),
+        ];
+
+        pickers.forEach((picker, index) => {
+            if (picker) {
+                picker.replaceChildren(...options.map((option) => new Option(option.label, option.value)));
+                picker.value = options[index]?.value ?? options[0]?.value ?? '';
+            }
+        });
+        this.updateRateRow();
+    }
+
+    /**
+     * Shows the exchange rate between the picked currencies and the date of the rate table
+     * 
+     * The row is hidden unless Currency is the selected category.
+     * 
+     * @param invalid - Whether to mark the last entered rate as rejected
+     * 
+     * @private
+     */
+    private updateRateRow(invalid: boolean = false): void {
+        const row = this.root.querySelector<HTMLElement>('.currency-rate');
+        const category = this.root.querySelector<HTMLSelectElement>('.unit-category')?.value;
+        const from = this.root.querySelector<HTMLSelectElement>('.unit-from')?.value ?? '';
+        const to = this.root.querySelector<HTMLSelectElement>('.unit-to')?.value ?? '';
+        if (!row) {
+            return;
+        }
+
+        row.hidden = category !== 'currency' || !this.rateTable || !from || !to;
+        if (row.hidden || !this.rateTable) {
+            return;
+        }
+
+        const { currencyRates } = this.settings;
+        const rate = crossRate(this.rateTable, currencyRates, from, to).toSignificantDigits(RATE_DIGITS);
+        const edited = currencyRates[from] !== undefined || currencyRates[to] !== undefined;
+        const ownRate = currencyRates[overriddenCurrency(this.rateTable, from, to)] !== undefined;   // What reset removes
+        const input = row.querySelector<HTMLInputElement>('.rate-input');
+        if (input) {
+            input.value = localizeNumber(rate.toString(), { locale: this.settings.locale, useGrouping: false });
+            input.setAttribute('aria-invalid', String(invalid));
+        }
+
+        const labels: [string, string][] = [
+            ['.rate-from', from],
+            ['.rate-to', to],
+            ['.rate-date', edited ? 'Your rate' : `Rates of ${this.formatRateDate(this.rateTable.date)}`],
+        ];
+        labels.forEach(([selector, text]) => {
+            const label = row.querySelector(selector);
+            if (label) {
+                label.textContent = text;
+            }
+        });
+
+        const reset = row.querySelector<HTMLElement>('.rate-reset');
+        if (reset) {
+            reset.hidden = !ownRate;
+        }
+    }
+
+    /**
+     * Formats the rate table's ISO date in the display locale
+     * 
+     * @param date - Date such as "2026-10-01"
+     * 
+     * @private
+     */
+    private formatRateDate(date: string): string {
+        try {
+            return new Date(`${date}T00:00:00Z`).toLocaleDateString(this.settings.locale || undefined, {
+                dateStyle: 'medium',
+                timeZone: 'UTC',
+            });
+        } catch {
+            return date;
+        }
+    }
+
+    /**
+     * Exchanges the from and to units
+     * 
+     * @private
+     */
+    private swapUnits(): void {
+        const from = this.root.querySelector<HTMLSelectElement>('.unit-from');
+        const to = this.root.querySelector<HTMLSelectElement>('.unit-to');
+        if (from && to) {
+            [from.value, to.value] = [to.value, from.value];
+        }
+        this.updateRateRow();
+    }
+
+    /**
+     * Changes display settings and re-renders with them
+     * 
+     * Unknown locale tags, themes and accent colors are rejected and leave
+     * the settings unchanged.
+     * 
+     * @param changes - Settings to change; omitted settings keep their value
+     * 
+     * @example
+     * ```typescript
+     * calculator.updateSettings({ locale: 'de-DE' }); // 1234.5 shows as 1.234,5
+     * calculator.updateSettings({ theme: 'dark', accentColor: '#0a84ff' });
+     * ```
+     */
+    public updateSettings(changes: Partial<CalculatorSettings>): void {
+        const settings = { ...this.settings, ...changes };
+
+        if (!isThemeName(settings.theme)) {
+            console.warn('Unsupported theme:', settings.theme);
+            return;
+        }
+        if (settings.accentColor !== '' && !isAccentColor(settings.accentColor)) {
+            console.warn('Unsupported accent color:', settings.accentColor);
+            return;
+        }
+
+        let decimal: string;
+        try {
+            decimal = getNumberSymbols(settings.locale).decimal;
+        } catch (error) {
+            console.warn('Unsupported locale:', settings.locale, error);
+            return;
+        }
+        this.settings = Object.freeze(settings);
+        this.saveState();
+
+        // Sync the settings panel and the decimal key with the new settings
+        const localeSelect = this.root.querySelector<HTMLSelectElement>('.locale-select');
+        if (localeSelect) {
+            localeSelect.value = settings.locale;
+        }
+        const groupingCheckbox = this.root.querySelector<HTMLInputElement>('.grouping-checkbox');
+        if (groupingCheckbox) {
+            groupingCheckbox.checked = settings.useGrouping;
+        }
+        const decimalButton = this.root.querySelector('.btn[data-type="decimal"]');
+        if (decimalButton) {
+            decimalButton.textContent = decimal;
+        }
+
+        this.updateRateRow();
+        this.applyTheme();
+
+        if (!this.hasError) {
+            this.updateDisplay();
+            this.updateDisplayAccessibility();
+        }
+    }
+
+    /**
+     * Applies the theme and accent color settings
+     * 
+     * The theme is set as data-theme on the page's root element, or on the
+     * <macos-calculator> element, where input.css picks the palette from it.
+     * An accent color overrides the theme's accent variables on the same
+     * element, except in the high-contrast theme, which keeps its own.
+     * 
+     * @private
+     */
+    private applyTheme(): void {
+        const { theme, accentColor } = this.settings;
+        const themed = (this.root instanceof Document ? this.root.documentElement : this.root.host) as HTMLElement;
+
+        themed.dataset.theme = theme;
+        ACCENT_VARIABLES.forEach((name) => themed.style.removeProperty(name));
+        if (accentColor && theme !== 'high-contrast') {
+            Object.entries(accentVariables(accentColor)).forEach(([name, value]) => themed.style.setProperty(name, value));
+        }
+
+        // Sync the settings panel
+        const themeSelect = this.root.querySelector<HTMLSelectElement>('.theme-select');
+        if (themeSelect) {
+            themeSelect.value = theme;
+        }
+        const accentInput = this.root.querySelector<HTMLInputElement>('.accent-input');
+        if (accentInput) {
+            accentInput.value = accentColor || DEFAULT_ACCENT_COLOR;
+            accentInput.disabled = theme === 'high-contrast';
+        }
+        const accentReset = this.root.querySelector<HTMLElement>('.accent-reset');
+        if (accentReset) {
+            accentReset.hidden = !accentColor;
+        }
+    }
+
+    /**
+     * Handles clicks inside the paper tape: recalling entries and tape actions
+     * 
+     * @param event - The click event from the tape panel
+     * 
+     * @private
+     */
+    private handleTapeClick(event: Event): void {
+        const target = event.target as HTMLElement;
+
+        if (target.classList.contains('tape-entry')) {
+            this.clearActiveOperator();
+            this.dispatch({ type: 'recallTape', index: Number(target.dataset.index) });
+            return;
+        }
+
+        const { tape } = this.engine.getState();
+        switch (target.dataset.tapeAction) {
+            case 'export-text':
+                this.downloadFile('calculator-tape.txt', formatTapeAsText(tape), 'text/plain');
+                break;
+            case 'export-csv':
+                this.downloadFile('calculator-tape.csv', formatTapeAsCsv(tape), 'text/csv');
+                break;
+            case 'clear':
+                this.dispatch({ type: 'clearTape' });
+                break;
+        }
+    }
+
+    /**
+     * Re-renders the paper tape entries when the tape has changed
+     * 
+     * Each entry is a button that recalls its result into the display.
+     * 
+     * @private
+     */
+    private renderTape(): void {
+        const { tape } = this.engine.getState();
+        const list = this.root.querySelector('.tape-entries');
+        if (!list || tape === this.renderedTape) {
+            return;
+        }
+
+        list.replaceChildren(...tape.map((entry, index) => {
+            const item = document.createElement('li');
+            const button = document.createElement('button');
+            button.className = 'tape-entry';
+            button.dataset.index = String(index);
+            button.textContent = formatTapeEntry(entry);
+            button.title = 'Recall this result';
+            item.appendChild(button);
+            return item;
+        }));
+        list.lastElementChild?.scrollIntoView?.({ block: 'nearest' });
+
+        this.renderedTape = tape;
+    }
+
+    /**
+     * Offers generated text to the user as a file download
+     * 
+     * @param filename - Suggested file name
+     * @param content - File contents
+     * @param type - MIME type
+     * 
+     * @private
+     */
+    private downloadFile(filename: string, content: string, type: string): void {
+        const url = URL.createObjectURL(new Blob([content], { type }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        link.click();
+        URL.revokeObjectURL(url);
+    }
+
+    /**
+     * Switches between the basic keypad, the scientific panel and the programmer panel
+     * 
+     * @param mode - The layout to show
+     * 
+     * @example
+     * ```typescript
+     * calculator.setMode('scientific'); // Shows trig, log and power keys
+     * calculator.setMode('programmer'); // Shows bases, bitwise keys and the bit field
+     * ```
+     */
+    public setMode(mode: CalculatorMode): void {
+        this.dispatch({ type: 'setMode', mode });
+    }
+
+    /**
+     * Restores left-to-right chaining in Basic mode (5 + 3 × 2 = 16)
+     * 
+     * Scientific mode always respects operator precedence.
+     * 
+     * @param enabled - True for immediate execution, false for precedence
+     */
+    public setImmediateExecution(enabled: boolean): void {
+        this.dispatch({ type: 'setImmediateExecution', enabled });
+    }
+
+    /**
+     * Toggles the 2nd key, swapping scientific buttons to their inverse functions
+     * 
+     * Buttons carrying data-alt-value/data-alt-label swap their label and
+     * aria-label; the original values are kept in data attributes.
+     * 
+     * @private
+     */
+    private toggleSecondFunctions(): void {
+        this.secondFunctionsActive = !this.secondFunctionsActive;
+
+        const buttons = this.root.querySelectorAll<HTMLButtonElement>('.btn[data-alt-label]');
+        buttons.forEach((btn) => {
+            if (btn.dataset.primaryLabel === undefined) {
+                btn.dataset.primaryLabel = btn.textContent || '';
+                btn.dataset.primaryAriaLabel = btn.getAttribute('aria-label') || '';
+            }
+
+            const label = this.secondFunctionsActive ? btn.dataset.altLabel : btn.dataset.primaryLabel;
+            const ariaLabel = this.secondFunctionsActive ? btn.dataset.altAriaLabel : btn.dataset.primaryAriaLabel;
+            btn.textContent = label || '';
+            btn.setAttribute('aria-label', ariaLabel || label || '');
+        });
+
+        this.root.querySelector('.btn[data-type="second"]')?.classList.toggle('active', this.secondFunctionsActive);
+    }
+
+    /**
+     * Arms STO or RCL so the next register key stores or recalls
+     * 
+     * Pressing the armed command again disarms it.
+     * 
+     * @param command - The command to arm, or null to disarm
+     * 
+     * @private
+     */
+    private armRegisterCommand(command: 'store' | 'recall' | null): void {
+        this.pendingRegisterCommand = command === this.pendingRegisterCommand ? null : command;
+
+        this.root.querySelectorAll<HTMLElement>('.btn[data-type="register-command"]').forEach((btn) => {
+            btn.classList.toggle('active', btn.dataset.value === this.pendingRegisterCommand);
+        });
+    }
+
+    /**
+     * The clear key's action: C while there is an entry to clear, AC otherwise
+     * 
+     * @private
+     */
+    private clearAction(): CalculatorAction {
+        return canClearEntry(this.engine.getState()) ? { type: 'clearEntry' } : { type: 'clear' };
+    }
+
+    /**
+     * Labels the clear key C or AC, matching what pressing it will do
+     * 
+     * @private
+     */
+    private updateClearButton(): void {
+        const entry = canClearEntry(this.engine.getState());
+        this.root.querySelectorAll<HTMLButtonElement>('.btn[data-type="clear"]').forEach((button) => {
+            button.textContent = entry ? 'C' : 'AC';
+            button.setAttribute('aria-label', entry ? 'Clear' : 'All Clear');
+            button.title = entry ? 'Clear the current entry (Escape)' : 'Clear all calculations (Escape)';
+        });
+    }
+
+    /**
+     * Shows the memory indicator on the display and marks filled registers
+     * 
+     * @private
+     */
+    private updateMemoryIndicators(): void {
+        const { memory, registers } = this.engine.getState();
+
+        this.display.classList.toggle('has-memory', !memory.isZero());
+
+        this.root.querySelectorAll<HTMLElement>('.btn[data-type="register"]').forEach((btn) => {
+            const register = btn.dataset.value || '';
+            const value = isRegisterName(register) ? registers[register] : undefined;
+            btn.classList.toggle('has-value', value !== undefined);
+            btn.title = value !== undefined ? `Register ${register}: ${value.toString()}` : `Register ${register}`;
+        });
+    }
+
+    /**
+     * Reflects mode and angle unit in the window layout
+     * 
+     * Shows the scientific or programmer panel for its mode, marks the selected
+     * mode button, and labels the Rad/Deg key with the unit it switches to.
+     * 
+     * @private
+     */
+    private updateLayout(): void {
+        const { mode, angleMode } = this.engine.getState();
+
+        this.calculatorWindow.classList.toggle('mode-scientific', mode === 'scientific');
+        this.calculatorWindow.classList.toggle('mode-programmer', mode === 'programmer');
+
+        this.root.querySelectorAll<HTMLElement>('.mode-btn').forEach((btn) => {
+            btn.setAttribute('aria-checked', String(btn.dataset.mode === mode));
+        });
+
+        const angleButton = this.root.querySelector('.btn[data-type="angle"]');
+        if (angleButton) {
+            angleButton.textContent = angleMode === 'deg' ? 'Rad' : 'Deg';
+            angleButton.setAttribute('aria-label', angleMode === 'deg' ? 'Switch to radians' : 'Switch to degrees');
+        }
+
+        this.root.querySelector('.angle-indicator')?.classList.toggle('visible', angleMode === 'rad');
+
+        this.updateProgrammerPanel();
+        this.updateGridTabStops();
+    }
+
+    /**
+     * Keeps one enabled key per key grid in the Tab order (roving tabindex)
+     * 
+     * The key focused last in a grid stays its Tab stop, unless it was
+     * disabled (e.g. digit keys outside the Programmer base), in which case
+     * the grid's first enabled key takes over.
+     * 
+     * @private
+     */
+    private updateGridTabStops(): void {
+        this.root.querySelectorAll<HTMLElement>('[role="grid"]').forEach((grid) => {
+            const keys = Array.from(grid.querySelectorAll<HTMLButtonElement>('.btn'));
+            const current = keys.find((key) => key.tabIndex === 0 && !key.disabled);
+            const stop = current ?? keys.find((key) => !key.disabled);
+            keys.forEach((key) => {
+                key.tabIndex = key === stop ? 0 : -1;
+            });
+        });
+    }
+
+    /**
+     * Moves focus between the keys of a grid with the arrow keys
+     * 
+     * Left and Right move within a row, Up and Down to the key in the same
+     * column (the wide 0 key covers two), Home and End to the ends of the
+     * row, and Ctrl+Home and Ctrl+End to the first and last key. Disabled
+     * keys are skipped. Enter and Space press the focused key instead of
+     * running their keyboard shortcuts.
+     * 
+     * @param event - The keyboard event from the grid
+     * @param grid - The role="grid" element
+     * 
+     * @private
+     */
+    private handleGridKey(event: KeyboardEvent, grid: HTMLElement): void {
+        const key = (event.target as HTMLElement).closest<HTMLButtonElement>('.btn');
+        if (!key || event.altKey || event.metaKey || event.shiftKey) {
+            return;
+        }
+
+        if ((event.key === 'Enter' || event.key === ' ') && !event.ctrlKey) {
+            event.stopPropagation();    // Let the browser press the key
+            return;
+        }
+
+        // Each row's keys with the column they start in and how many they cover
+        const rows = Array.from(grid.querySelectorAll('[role="row"]'), (row) => {
+            let column = 0;
+            return Array.from(row.querySelectorAll('[role="gridcell"]'), (cell) => {
+                const span = Number(cell.getAttribute('aria-colspan') ?? 1);
+                const position = { button: cell.querySelector<HTMLButtonElement>('.btn'), column, span };
+                column += span;
+                return position;
+            });
+        });
+        const rowIndex = rows.findIndex((row) => row.some((position) => position.button === key));
+        if (rowIndex === -1) {
+            return;
+        }
+
+        const row = rows[rowIndex];
+        const index = row.findIndex((position) => position.button === key);
+        const column = row[index].column;
+        const enabled = (position: { button: HTMLButtonElement | null } | undefined): boolean =>
+            !!position?.button && !position.button.disabled;
+        const inColumn = (candidates: typeof rows): HTMLButtonElement | null | undefined => candidates
+            .map((candidate) => candidate.find((position) => position.column <= column && column < position.column + position.span))
+            .find(enabled)?.button;
+
+        let target: HTMLButtonElement | null | undefined;
+        switch (event.key) {
+            case 'ArrowRight':
+                target = row.slice(index + 1).find(enabled)?.button;
+                break;
+            case 'ArrowLeft':
+                target = row.slice(0, index).reverse().find(enabled)?.button;
+                break;
+            case 'ArrowDown':
+                target = inColumn(rows.slice(rowIndex + 1));
+                break;
+            case 'ArrowUp':
+                target = inColumn(rows.slice(0, rowIndex).reverse());
+                break;
+            case 'Home':
+                target = (event.ctrlKey ? rows.flat() : row).find(enabled)?.button;
+                break;
+            case 'End':
+                target = (event.ctrlKey ? rows.flat() : row).slice().reverse().find(enabled)?.button;
+                break;
+            default:
+                return;
+        }
+
+        event.preventDefault();     // Keep the page from scrolling
+        event.stopPropagation();
+        target?.focus();
+    }
+
+    /**
+     * Syncs the Programmer controls with the engine and redraws the bit field
+     * 
+     * Digit keys outside the current base, the decimal point and percent
+     * are disabled in Programmer mode.
+     * 
+     * @private
+     */
+    private updateProgrammerPanel(): void {
+        const state = this.engine.getState();
+        const programmer = state.mode === 'programmer';
+
+        this.root.querySelectorAll<HTMLElement>('.base-btn').forEach((btn) => {
+            btn.setAttribute('aria-checked', String(Number(btn.dataset.base) === state.base));
+        });
+
+        const wordSizeSelect = this.root.querySelector<HTMLSelectElement>('.word-size-select');
+        if (wordSizeSelect) {
+            wordSizeSelect.value = String(state.wordSize);
+        }
+        const signedCheckbox = this.root.querySelector<HTMLInputElement>('.signed-checkbox');
+        if (signedCheckbox) {
+            signedCheckbox.checked = state.signed;
+        }
+
+        this.root.querySelectorAll<HTMLButtonElement>('.btn[data-type="number"]').forEach((btn) => {
+            const digit = parseInt(btn.dataset.value || '', 16);
+            btn.disabled = programmer ? digit >= state.base : digit > 9;
+        });
+        this.root.querySelectorAll<HTMLButtonElement>('.btn[data-type="decimal"], .btn[data-type="percent"]').forEach((btn) => {
+            btn.disabled = programmer;
+        });
+
+        if (programmer) {
+            this.renderBitField();
+        }
+    }
+
+    /**
+     * Draws the displayed word as clickable bits, most significant first, in groups of four
+     * 
+     * @private
+     */
+    private renderBitField(): void {
+        const state = this.engine.getState();
+        const field = this.root.querySelector('.bit-field');
+        if (!field || !Decimal.isDecimal(state.currentValue)) {
+            return;
+        }
+
+        const bits = formatInBase(toWord(Decimal.parse(state.currentValue), state), 2, state)
+            .padStart(state.wordSize, '0');
+
+        const groups: HTMLElement[] = [];
+        for (let start = 0; start < bits.length; start += 4) {
+            const group = document.createElement('span');
+            group.className = 'bit-group';
+
+            for (let offset = start; offset < start + 4; offset++) {
+                const bit = state.wordSize - 1 - offset;
+                const set = bits[offset] === '1';
+                const button = document.createElement('button');
+                button.className = 'bit';
+                button.dataset.bit = String(bit);
+                button.textContent = bits[offset];
+                button.title = `Bit ${bit}`;
+                button.setAttribute('aria-label', `Bit ${bit}`);
+                button.setAttribute('aria-pressed', String(set));
+                group.appendChild(button);
+            }
+            groups.push(group);
+        }
+
+        field.replaceChildren(...groups);
+    }
+
+    /**
+     * Removes visual highlighting from operator buttons
+     * 
+     * Clears the active state styling from previously selected operator buttons.
+     * Provides visual feedback for the current operation state.
+     * 
+     * @private
+     * 
+     * @example
+     * ```typescript
+     * this.clearActiveOperator(); // Removes highlighting from all operator buttons
+     * ```
+     */
+    private clearActiveOperator(): void {
+        if (this.activeOperatorBtn) {
+            this.activeOperatorBtn.classList.remove('active');
+            this.activeOperatorBtn = null;
+        }
+    }
+
+    /**
+     * Updates the calculator display with proper formatting and responsive sizing
+     * 
+     * Fits the value into the mode's digit budget (see formatDisplayNumber),
+     * applies the locale's separators and scales the font to the rendered width.
+     * 
+     * @example
+     * ```typescript
+     * this.currentValue = "1234567890123";
+     * this.updateDisplay(); // Shows "1.23457e12" and shrinks the font if needed
+     * ```
+     */
+    private updateDisplay(): void {
+        let displayValue = this.currentValue;
+
+        // Programmer mode shows the whole word in the selected base
+        const state = this.engine.getState();
+        if (state.mode === 'programmer' && Decimal.isDecimal(displayValue)) {
+            displayValue = formatInBase(toWord(Decimal.parse(displayValue), state), state.base, state);
+        } else {
+            displayValue = localizeNumber(formatDisplayNumber(displayValue, DISPLAY_DIGITS[state.mode]), this.settings);
+        }
+
+        // Update the DOM display element
+        this.display.textContent = displayValue;
+        this.fitDisplayText();
+
+        // Remove error state styling if present
+        this.display.classList.remove('error-state');
+    }
+
+    /**
+     * Shrinks the display font until the text fits the display's width
+     * 
+     * The font scales with the measured overflow rather than the character
+     * count, so narrow digits like "1" keep a larger size than "8".
+     */
+    private fitDisplayText(): void {
+        this.display.style.fontSize = '';
+
+        const available = this.display.clientWidth;
+        const needed = this.display.scrollWidth;
+        if (available === 0 || needed <= available) {
+            return;
+        }
+
+        const fontSize = parseFloat(getComputedStyle(this.display).fontSize);
+        this.display.style.fontSize = `${Math.max(MIN_DISPLAY_FONT_SIZE, Math.floor(fontSize * available / needed))}px`;
+    }
+
+    /**
+     * Updates accessibility attributes for the display element
+     * 
+     * Maintains screen reader compatibility by updating ARIA labels
+     * and live region announcements for display changes.
+     * 
+     * @private
+     */
+    private updateDisplayAccessibility(): void {
+        const displayValue = this.display.textContent || '0';
+        const { memory, mode, base, expression } = this.engine.getState();
+        const baseNote = mode === 'programmer' && base !== 10 ? ` ${BASE_NAMES[base]}` : '';
+        const pendingNote = expression.length > 0 ? `, after ${speakExpression(joinExpression(expression))}` : '';
+        const memoryNote = memory.isZero() ? '' : ', memory stored';
+        this.display.setAttribute('aria-label', `Calculator display showing: ${displayValue}${baseNote}${pendingNote}${memoryNote}`);
+    }
+
+    /**
+     * Shows an error on the display and announces it to screen readers
+     * 
+     * The error stays until the next key: a digit starts a new calculation,
+     * C/AC clears and undo returns to the state before the failed action.
+     * 
+     * @param error - The error to show
+     * 
+     * @private
+     */
+    private showError(error: CalculatorError): void {
+        this.hasError = true;
+        this.clearActiveOperator();
+        this.display.textContent = error.displayText;
+        this.display.classList.add('error-state');
+        this.display.setAttribute('aria-label', `Calculator display showing: ${error.displayText}`);
+        this.fitDisplayText();
+        this.updateClearButton();
+
+        this.announce(`Error: ${error.message}`);
+    }
+
+    /**
+     * Removes the error announcement once a new state is shown
+     * 
+     * @private
+     */
+    private clearError(): void {
+        const announcer = this.root.querySelector('.announcer');
+        if (this.hasError && announcer) {
+            announcer.textContent = '';
+        }
+        this.hasError = false;
+    }
+
+    /**
+     * Makes a focused key its grid's Tab stop, so Tab returns to it
+     * 
+     * Keys need no aria-describedby: their title (with the shortcut) is
+     * already read as their description.
+     * 
+     * @param event - The focus event
+     * @private
+     */
+    private handleFocusIn(event: FocusEvent): void {
+        const target = event.target as HTMLElement;
+        const grid = target.closest('[role="grid"]');
+        if (grid && target.classList.contains('btn')) {
+            grid.querySelectorAll<HTMLButtonElement>('.btn').forEach((key) => {
+                key.tabIndex = key === target ? 0 : -1;
+            });
+        }
+    }
+
+}
+
+declare global {
+    interface Window {
+        /** The page's calculator, once the DOM has loaded */
+        calculator?: Calculator;
+    }
+}
+
+/**
+ * Application Initialization
+ * 
+ * Initializes the calculator when the DOM is fully loaded.
+ * Uses DOMContentLoaded event to ensure all DOM elements exist
+ * before creating the calculator instance.
+ * 
+ * The calculator markup is rendered into the page's #calculator-app
+ * element; pages without one (such as those only using
+ * <macos-calculator> elements) are left alone.
+ * 
+ * The instance is published as window.calculator, and a
+ * "calculatorready" event carrying it is dispatched on the document,
+ * so host pages can subscribe to events and add plugins.
+ * 
+ * @example
+ * ```typescript
+ * // In a host page
+ * document.addEventListener('calculatorready', (event) => {
+ *   const calculator = (event as CustomEvent<Calculator>).detail;
+ *   calculator.on('result', ({ entry }) => console.log(entry.result.toString()));
+ * });
+ * ```
+ */
 document.addEventListener('DOMContentLoaded', () => {
+    const app = document.getElementById('calculator-app');
+    if (!app) {
+        return;
+    }
+
     try {
-        new Calculator();
-        console.log('Calculator initialized successfully');
+        app.innerHTML = CALCULATOR_MARKUP;
+        const calculator = new Calculator();
+        window.calculator = calculator;
+        document.dispatchEvent(new CustomEvent('calculatorready', { detail: calculator }));
     } catch (error) {
         console.error('Failed to initialize calculator:', error);
         // Could show user-friendly error message in UI
@@ -0,0 +1,233 @@
+/**
+ * Currency conversion from an offline table of exchange rates
+ *
+ * Rates are read from a JSON file shipped with the page (see
+ * RATES_URL), so no live service is needed:
+ *
+ *   {
+ *     "base": "EUR",                     ISO 4217 code the rates are quoted against
+ *     "date": "2026-10-01",              Day the rates were published (ISO 8601)
+ *     "source": "…",                     Optional description of where they come from
+ *     "rates": { "USD": "1.1734", … }    Units of each currency per 1 base unit
+ *   }
+ *
+ * Rates are strings so they stay exact decimals (plain JSON numbers are
+ * accepted too). Users can override any rate; overrides are kept with the
+ * settings as strings in the same "per 1 base unit" form.
+ *
+ * Amounts are converted with Decimal arithmetic and rounded, half away from
+ * zero, to the target currency's minor unit (2 places for EUR, 0 for JPY,
+ * 3 for KWD), as reported by Intl.
+ */
+
+import { Decimal } from './decimal.js';
+import { ConversionError } from './errors.js';
+
+/** Where the bundled rate table is served from, relative to index.html */
+export const RATES_URL = './src/data/currency-rates.json';
+
+/**
+ * Exchange rates against a base currency on one date
+ */
+export interface RateTable {
+    readonly base: string;
+    readonly date: string;
+    readonly source: string;
+    /** Units of each currency per 1 base unit; the base itself is 1 */
+    readonly rates: Readonly<Record<string, Decimal>>;
+}
+
+/**
+ * User-entered rates, per 1 base unit, keyed by currency code
+ */
+export type RateOverrides = Readonly<Record<string, string>>;
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+/**
+ * Validates parsed JSON as a rate table
+ *
+ * @param data - Contents of the rates file
+ * @throws {Error} When a field is missing or a rate is not a positive number
+ *
+ * @example
+ * ```typescript
+ * parseRateTable({ base: 'EUR', date: '2026-10-01', rates: { USD: '1.1734' } }).rates.USD.toString(); // "1.1734"
+ * ```
+ */
+export function parseRateTable(data: unknown): RateTable {
+    const table = data as Partial<Record<'base' | 'date' | 'source' | 'rates', unknown>> | null;
+
+    if (typeof table !== 'object' || table === null) {
+        throw new Error('Rate table is not an object');
+    }
+    if (typeof table.base !== 'string' || !CURRENCY_CODE.test(table.base)) {
+        throw new Error('Rate table has no base currency');
+    }
+    if (typeof table.date !== 'string' || Number.isNaN(Date.parse(table.date))) {
+        throw new Error('Rate table has no valid date');
+    }
+    if (typeof table.rates !== 'object' || table.rates === null) {
+        throw new Error('Rate table has no rates');
+    }
+
+    const rates: Record<string, Decimal> = { [table.base]: Decimal.ONE };
+    Object.entries(table.rates).forEach(([code, rate]) => {
+        if (!CURRENCY_CODE.test(code)) {
+            throw new Error(`Invalid currency code: ${code}`);
+        }
+        rates[code] = parseRate(typeof rate === 'number' ? String(rate) : rate, code);
+    });
+
+    return {
+        base: table.base,
+        date: table.date,
+        source: typeof table.source === 'string' ? table.source : '',
+        rates: Object.freeze(rates),
+    };
+}
+
+/**
+ * Downloads and validates the bundled rate table
+ *
+ * @param url - Location of the rates file
+ * @throws {Error} When the file cannot be fetched or is not a valid table
+ */
+export async function loadRateTable(url: string = RATES_URL): Promise<RateTable> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Could not load exchange rates (${response.status})`);
+    }
+    return parseRateTable(await response.json());
+}
+
+/**
+ * Currency codes in the table, base first, then alphabetical
+ */
+export function currencyCodes(table: RateTable): string[] {
+    return [table.base, ...Object.keys(table.rates).filter((code) => code !== table.base).sort()];
+}
+
+/**
+ * Units of `to` per 1 unit of `from`, using overrides where the user gave them
+ *
+ * @throws {ConversionError} When a currency is not in the table
+ *
+ * @example
+ * ```typescript
+ * crossRate(table, {}, 'EUR', 'USD').toString(); // "1.1734"
+ * ```
+ */
+export function crossRate(table: RateTable, overrides: RateOverrides, from: string, to: string): Decimal {
+    return baseRate(table, overrides, to).dividedBy(baseRate(table, overrides, from));
+}
+
+/**
+ * Stores a user-entered pair rate as an override of the `to` currency
+ * (or of `from`, when `to` is the base currency)
+ *
+ * @param rate - Units of `to` per 1 unit of `from`
+ * @returns The overrides with the new rate
+ * @throws {Error} When the rate is not a positive number
+ * @throws {ConversionError} When a currency is unknown
+ */
+export function overrideRate(table: RateTable, overrides: RateOverrides, from: string, to: string, rate: string): RateOverrides {
+    const pairRate = parseRate(rate, `${from}/${to}`);
+
+    if (to === table.base) {
+        return { ...overrides, [from]: baseRate(table, overrides, to).dividedBy(pairRate).toString() };
+    }
+    return { ...overrides, [to]: pairRate.times(baseRate(table, overrides, from)).toString() };
+}
+
+/**
+ * Currency whose override holds a user-entered pair rate (see overrideRate)
+ */
+export function overriddenCurrency(table: RateTable, from: string, to: string): string {
+    return to === table.base ? from : to;
+}
+
+/**
+ * Removes a user-entered pair rate stored by overrideRate
+ *
+ * Overrides of other currencies are kept, even when they also affect
+ * the rate between `from` and `to`.
+ *
+ * @returns The overrides without the pair's rate
+ *
+ * @example
+ * ```typescript
+ * resetRate(table, { JPY: '176.01', USD: '1.2' }, 'USD', 'JPY'); // { USD: '1.2' }
+ * ```
+ */
+export function resetRate(table: RateTable, overrides: RateOverrides, from: string, to: string): RateOverrides {
+    const remaining = { ...overrides };
+    delete remaining[overriddenCurrency(table, from, to)];
+    return remaining;
+}
+
+/**
+ * Number of digits after the decimal point in a currency's minor unit
+ *
+ * @param code - ISO 4217 code such as "JPY"
+ */
+export function minorUnits(code: string): number {
+    try {
+        return new Intl.NumberFormat('en', { style: 'currency', currency: code }).resolvedOptions().maximumFractionDigits ?? 2;
+    } catch {
+        return 2;   // Codes Intl does not know get cents
+    }
+}
+
+/**
+ * Converts an amount at a rate and rounds it to the target currency's minor unit
+ *
+ * @param amount - Amount in the source currency
+ * @param rate - Units of the target currency per source unit
+ * @param currency - Target currency code
+ *
+ * @example
+ * ```typescript
+ * convertAmount(Decimal.parse('100'), Decimal.parse('1.1734'), 'USD').toString(); // "117.34"
+ * convertAmount(Decimal.parse('100'), Decimal.parse('172.345'), 'JPY').toString(); // "17235"
+ * ```
+ */
+export function convertAmount(amount: Decimal, rate: Decimal, currency: string): Decimal {
+    return amount.times(rate).toDecimalPlaces(minorUnits(currency));
+}
+
+/** Units of a currency per 1 base unit */
+function baseRate(table: RateTable, overrides: RateOverrides, code: string): Decimal {
+    if (overrides[code] !== undefined && Decimal.isDecimal(overrides[code])) {
+        return Decimal.parse(overrides[code]);
+    }
+    if (!table.rates[code]) {
+        throw new ConversionError(`Unknown currency: ${code}`);
+    }
+    return table.rates[code];
+}
+
+/**
+ * Checks whether text can be used as an exchange rate: a positive number
+ *
+ * @example
+ * ```typescript
+ * isValidRate('1.1734'); // true
+ * isValidRate('0');      // false
+ * ```
+ */
+export function isValidRate(rate: string): boolean {
+    if (!Decimal.isDecimal(rate)) {
+        return false;
+    }
+    const value = Decimal.parse(rate);
+    return !value.isZero() && !value.isNegative();
+}
+
+/** Reads a rate, which must be a positive number */
+function parseRate(rate: unknown, label: string): Decimal {
+    if (typeof rate !== 'string' || !isValidRate(rate)) {
+        throw new Error(`Invalid rate for ${label}`);
+    }
+    return Decimal.parse(rate);
+}
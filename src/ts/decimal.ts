@@ -0,0 +1,323 @@
+/**
+ * Arbitrary-precision decimal numbers backed by BigInt
+ *
+ * A Decimal is stored as an integer coefficient and a base-10 scale, so
+ * 0.1 is (1n, 1) and 9007199254740993 is (9007199254740993n, 0). Addition,
+ * subtraction and multiplication are exact; division is rounded to
+ * DEFAULT_PRECISION significant digits (the precision of IEEE decimal128).
+ *
+ * @example
+ * ```typescript
+ * Decimal.parse('0.1').plus(Decimal.parse('0.2')).toString(); // "0.3"
+ * Decimal.parse('1').dividedBy(Decimal.parse('3')).toString(); // "0.3333…" (34 digits)
+ * ```
+ */
+
+import { DivisionByZeroError, InvalidInputError, NotANumberError, OverflowError } from './errors.js';
+
+/** Significant digits kept by division and by calculator results */
+export const DEFAULT_PRECISION = 34;
+
+/** Largest power of ten a result may reach before it counts as an overflow */
+export const MAX_EXPONENT = 308;
+
+/**
+ * Largest power of ten parse() accepts. Anything beyond it could never be
+ * a result, and building its coefficient would take minutes.
+ */
+const PARSE_EXPONENT_LIMIT = MAX_EXPONENT + DEFAULT_PRECISION;
+
+const DECIMAL_PATTERN = /^([+-]?)(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/;
+
+/**
+ * Immutable decimal value: coefficient × 10^-scale
+ */
+export class Decimal {
+    public static readonly ZERO = new Decimal(0n, 0);
+    public static readonly ONE = new Decimal(1n, 0);
+
+    /**
+     * @param coefficient - Unscaled integer value
+     * @param scale - Number of digits after the decimal point (never negative)
+     */
+    private constructor(public readonly coefficient: bigint, public readonly scale: number) {}
+
+    /**
+     * Creates a normalized Decimal from a coefficient and scale
+     *
+     * Trailing zeros are stripped and negative scales are folded into
+     * the coefficient, so equal values always share one representation.
+     *
+     * @param coefficient - Unscaled integer value
+     * @param scale - Power of ten to divide by
+     */
+    public static of(coefficient: bigint, scale: number = 0): Decimal {
+        if (coefficient === 0n) {
+            return Decimal.ZERO;
+        }
+
+        if (scale < 0) {
+            return new Decimal(coefficient * pow10(-scale), 0);
+        }
+
+        while (scale > 0 && coefficient % 10n === 0n) {
+            coefficient /= 10n;
+            scale--;
+        }
+
+        return new Decimal(coefficient, scale);
+    }
+
+    /**
+     * Checks whether a string can be parsed as a Decimal
+     *
+     * @param text - Candidate number such as "12", "-0.5", "3." or "1e-7"
+     */
+    public static isDecimal(text: string): boolean {
+        const match = DECIMAL_PATTERN.exec(text.trim());
+        return match !== null && (match[2] + (match[3] ?? '')).length > 0;
+    }
+
+    /**
+     * Parses plain or exponent notation into a Decimal
+     *
+     * Numbers smaller than 10^-(MAX_EXPONENT + DEFAULT_PRECISION) parse as
+     * zero.
+     *
+     * @param text - Number such as "12", "-0.5", "3." or "1e-7"
+     * @throws {InvalidInputError} When the text is not a number
+     * @throws {OverflowError} When the number is 10^(MAX_EXPONENT + DEFAULT_PRECISION) or more
+     */
+    public static parse(text: string): Decimal {
+        const match = DECIMAL_PATTERN.exec(text.trim());
+        const integerDigits = match?.[2] ?? '';
+        const fractionDigits = match?.[3] ?? '';
+
+        if (!match || integerDigits.length + fractionDigits.length === 0) {
+            throw new InvalidInputError(`Invalid number: ${text}`);
+        }
+
+        const sign = match[1] === '-' ? -1n : 1n;
+        const exponent = match[4] ? parseInt(match[4], 10) : 0;
+
+        // Check the magnitude before building the coefficient: "1e999999999" would never finish
+        const significantDigits = (integerDigits + fractionDigits).replace(/^0+/, '');
+        if (significantDigits.length === 0) {
+            return Decimal.ZERO;
+        }
+        const magnitude = significantDigits.length - 1 - fractionDigits.length + exponent;
+        if (magnitude > PARSE_EXPONENT_LIMIT) {
+            throw new OverflowError();
+        }
+        if (magnitude < -PARSE_EXPONENT_LIMIT) {
+            return Decimal.ZERO;
+        }
+
+        const coefficient = BigInt(integerDigits + fractionDigits || '0') * sign;
+
+        return Decimal.of(coefficient, fractionDigits.length - exponent);
+    }
+
+    /**
+     * Converts a finite JS number into a Decimal using its shortest round-trip form
+     *
+     * @param value - The number to convert
+     * @throws {NotANumberError} When the number is NaN
+     * @throws {OverflowError} When the number is infinite
+     */
+    public static fromNumber(value: number): Decimal {
+        if (Number.isNaN(value)) {
+            throw new NotANumberError();
+        }
+        if (!Number.isFinite(value)) {
+            throw new OverflowError();
+        }
+        return Decimal.parse(String(value));
+    }
+
+    /** True when the value is zero */
+    public isZero(): boolean {
+        return this.coefficient === 0n;
+    }
+
+    /** True when the value is below zero */
+    public isNegative(): boolean {
+        return this.coefficient < 0n;
+    }
+
+    /** True when the value has no fractional part */
+    public isInteger(): boolean {
+        return this.scale === 0;
+    }
+
+    /**
+     * Power of ten of the most significant digit (123.4 → 2, 0.005 → -3)
+     */
+    public exponent(): number {
+        return digitCount(this.coefficient) - 1 - this.scale;
+    }
+
+    public negated(): Decimal {
+        return new Decimal(-this.coefficient, this.scale);
+    }
+
+    public abs(): Decimal {
+        return this.isNegative() ? this.negated() : this;
+    }
+
+    public plus(other: Decimal): Decimal {
+        const scale = Math.max(this.scale, other.scale);
+        return Decimal.of(this.rescale(scale) + other.rescale(scale), scale);
+    }
+
+    public minus(other: Decimal): Decimal {
+        return this.plus(other.negated());
+    }
+
+    public times(other: Decimal): Decimal {
+        return Decimal.of(this.coefficient * other.coefficient, this.scale + other.scale);
+    }
+
+    /**
+     * Divides by another Decimal, rounding half away from zero
+     *
+     * @param divisor - The value to divide by
+     * @param precision - Significant digits to keep
+     * @throws {DivisionByZeroError} When dividing by zero
+     */
+    public dividedBy(divisor: Decimal, precision: number = DEFAULT_PRECISION): Decimal {
+        if (divisor.isZero()) {
+            throw new DivisionByZeroError();
+        }
+        if (this.isZero()) {
+            return Decimal.ZERO;
+        }
+
+        // Shift the dividend far enough left that the integer quotient
+        // carries one guard digit beyond the requested precision
+        const shift = Math.max(0, precision + 1 + digitCount(divisor.coefficient) - digitCount(this.coefficient));
+        const dividend = this.coefficient * pow10(shift);
+        const quotient = dividend / divisor.coefficient;
+
+        return roundCoefficient(quotient, shift + this.scale - divisor.scale, precision);
+    }
+
+    /**
+     * Rounds to a number of significant digits, half away from zero
+     *
+     * @param precision - Significant digits to keep
+     */
+    public toSignificantDigits(precision: number): Decimal {
+        return roundCoefficient(this.coefficient, this.scale, precision);
+    }
+
+    /**
+     * Rounds to a number of digits after the decimal point, half away from zero
+     *
+     * @param places - Fraction digits to keep (0 rounds to an integer)
+     *
+     * @example
+     * ```typescript
+     * Decimal.parse('2.345').toDecimalPlaces(2).toString(); // "2.35"
+     * ```
+     */
+    public toDecimalPlaces(places: number): Decimal {
+        const precision = digitCount(this.coefficient) - this.scale + places;
+        return precision < 0 ? Decimal.ZERO : this.toSignificantDigits(precision);
+    }
+
+    /**
+     * Compares two decimals
+     *
+     * @returns -1, 0 or 1 when this is less than, equal to or greater than other
+     */
+    public compare(other: Decimal): number {
+        const scale = Math.max(this.scale, other.scale);
+        const a = this.rescale(scale);
+        const b = other.rescale(scale);
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+
+    public equals(other: Decimal): boolean {
+        return this.compare(other) === 0;
+    }
+
+    /**
+     * Converts to the nearest JS number (for functions with no exact form)
+     */
+    public toNumber(): number {
+        return Number(this.toString());
+    }
+
+    /**
+     * Formats in plain notation without an exponent ("-0.0001", "12000")
+     */
+    public toString(): string {
+        const digits = (this.isNegative() ? -this.coefficient : this.coefficient).toString();
+        const sign = this.isNegative() ? '-' : '';
+
+        if (this.scale === 0) {
+            return sign + digits;
+        }
+
+        const padded = digits.padStart(this.scale + 1, '0');
+        const point = padded.length - this.scale;
+        return `${sign}${padded.slice(0, point)}.${padded.slice(point)}`;
+    }
+
+    /** Coefficient expressed at a larger scale */
+    private rescale(scale: number): bigint {
+        return this.coefficient * pow10(scale - this.scale);
+    }
+}
+
+/**
+ * Limits a result to the calculator's precision and exponent range
+ *
+ * Results smaller than 10^-MAX_EXPONENT become zero.
+ *
+ * @throws {OverflowError} When the magnitude exceeds MAX_EXPONENT
+ */
+export function checkRange(result: Decimal): Decimal {
+    const rounded = result.toSignificantDigits(DEFAULT_PRECISION);
+
+    if (rounded.isZero() || rounded.exponent() < -MAX_EXPONENT) {
+        return Decimal.ZERO;
+    }
+    if (rounded.exponent() > MAX_EXPONENT) {
+        throw new OverflowError();
+    }
+
+    return rounded;
+}
+
+/** 10^exponent as a BigInt */
+function pow10(exponent: number): bigint {
+    return 10n ** BigInt(exponent);
+}
+
+/** Number of decimal digits in |value| (zero counts as one digit) */
+function digitCount(value: bigint): number {
+    return (value < 0n ? -value : value).toString().length;
+}
+
+/**
+ * Rounds coefficient × 10^-scale to a number of significant digits, half away from zero
+ */
+function roundCoefficient(coefficient: bigint, scale: number, precision: number): Decimal {
+    const excess = digitCount(coefficient) - precision;
+    if (excess <= 0) {
+        return Decimal.of(coefficient, scale);
+    }
+
+    const divisor = pow10(excess);
+    const negative = coefficient < 0n;
+    const magnitude = negative ? -coefficient : coefficient;
+    let rounded = magnitude / divisor;
+
+    if (magnitude % divisor >= divisor / 2n) {
+        rounded += 1n;
+    }
+
+    return Decimal.of(negative ? -rounded : rounded, scale - excess);
+}
@@ -0,0 +1,159 @@
+/**
+ * <macos-calculator>: a self-contained calculator for embedding in other pages
+ *
+ *   <script type="module" src="./dist/ts/element.js"></script>
+ *   <macos-calculator id="budget" mode="scientific" locale="de-DE"></macos-calculator>
+ *   <macos-calculator id="hex" mode="programmer"></macos-calculator>
+ *
+ * Each element renders the calculator markup (markup.ts) into its own shadow
+ * root and runs its own Calculator there, so several can sit side by side:
+ * keys go to the calculator that has focus (click it or Tab into it), and
+ * its state is saved under its id (elements without an id are not saved).
+ *
+ * Attributes:
+ * - mode: basic, scientific or programmer; updated when the user switches
+ * - locale: BCP 47 tag for number formatting, e.g. "de-DE"
+ * - theme: system, light, dark or high-contrast (see theme.ts)
+ * - accent: #rrggbb color of the operator keys
+ * - stylesheet: URL of the calculator CSS (defaults to STYLESHEET_URL), read once
+ * Attributes present when the element is added win over saved settings.
+ *
+ * Calculator events (see events.ts) are dispatched on the element as DOM
+ * events named calculatorvaluechange, calculatorresult, calculatorerror and
+ * calculatormodechange, with the event's details as `detail`.
+ */
+
+import { Calculator } from './calculator.js';
+import { CalculatorMode } from './engine.js';
+import { CalculatorEventType } from './events.js';
+import { CALCULATOR_MARKUP } from './markup.js';
+import { DEFAULT_SETTINGS } from './settings.js';
+import { defaultStorage, STORAGE_KEY } from './storage.js';
+import { isThemeName } from './theme.js';
+
+/** Tag name the element is defined under */
+export const ELEMENT_NAME = 'macos-calculator';
+
+/** Where the calculator stylesheet is served from, relative to the page */
+export const STYLESHEET_URL = './src/css/output.css';
+
+const EVENT_TYPES: readonly CalculatorEventType[] = ['valuechange', 'result', 'error', 'modechange'];
+
+const MODES: readonly CalculatorMode[] = ['basic', 'scientific', 'programmer'];
+
+/**
+ * The <macos-calculator> custom element
+ *
+ * @example
+ * ```typescript
+ * const element = document.createElement('macos-calculator');
+ * element.setAttribute('mode', 'scientific');
+ * document.body.append(element);
+ * element.calculator?.dispatch({ type: 'enterNumber', value: '2' });
+ * element.addEventListener('calculatorresult', (event) => {
+ *   console.log((event as CustomEvent).detail.entry.result.toString());
+ * });
+ * ```
+ */
+export class CalculatorElement extends HTMLElement {
+    private instance: Calculator | null = null;
+
+    static get observedAttributes(): string[] {
+        return ['mode', 'locale', 'theme', 'accent'];
+    }
+
+    /** The element's calculator, once it has been added to the page */
+    public get calculator(): Calculator | null {
+        return this.instance;
+    }
+
+    /**
+     * Renders the calculator the first time the element is added to the page
+     */
+    public connectedCallback(): void {
+        if (this.instance) {
+            return;     // Moved within the page: keep the running calculator
+        }
+
+        const shadow = this.shadowRoot ?? this.attachShadow({ mode: 'open', delegatesFocus: true });
+        const stylesheet = document.createElement('link');
+        stylesheet.rel = 'stylesheet';
+        stylesheet.href = this.getAttribute('stylesheet') ?? STYLESHEET_URL;
+        shadow.innerHTML = CALCULATOR_MARKUP;
+        shadow.prepend(stylesheet);
+
+        const calculator = new Calculator(this.id ? defaultStorage() : null, shadow, `${STORAGE_KEY}:${this.id}`);
+        this.instance = calculator;
+
+        EVENT_TYPES.forEach((type) => {
+            calculator.on(type, (detail) => {
+                this.dispatchEvent(new CustomEvent(`calculator${type}`, { detail, bubbles: true, composed: true }));
+            });
+        });
+        calculator.on('modechange', ({ mode }) => {
+            if (this.getAttribute('mode') !== mode) {
+                this.setAttribute('mode', mode);
+            }
+        });
+
+        CalculatorElement.observedAttributes
+            .filter((name) => this.hasAttribute(name))
+            .forEach((name) => this.applyAttribute(name, this.getAttribute(name)));
+    }
+
+    /**
+     * Applies attribute changes to the running calculator
+     */
+    public attributeChangedCallback(name: string, _previous: string | null, value: string | null): void {
+        this.applyAttribute(name, value);
+    }
+
+    private applyAttribute(name: string, value: string | null): void {
+        const calculator = this.instance;
+        if (!calculator) {
+            return;
+        }
+
+        switch (name) {
+            case 'mode':
+                if (value !== null && (MODES as readonly string[]).includes(value) && value !== calculator.engine.getState().mode) {
+                    calculator.setMode(value as CalculatorMode);
+                }
+                break;
+            case 'locale':
+                if (value) {
+                    calculator.updateSettings({ locale: value });
+                }
+                break;
+            case 'theme': {
+                const theme = value ?? DEFAULT_SETTINGS.theme;
+                if (isThemeName(theme)) {
+                    calculator.updateSettings({ theme });
+                }
+                break;
+            }
+            case 'accent':
+                calculator.updateSettings({ accentColor: value ?? DEFAULT_SETTINGS.accentColor });
+                break;
+        }
+    }
+}
+
+/**
+ * Defines the element unless a page already did
+ *
+ * @param name - Tag name to define it under
+ */
+export function defineCalculatorElement(name: string = ELEMENT_NAME): void {
+    if (!customElements.get(name)) {
+        customElements.define(name, class extends CalculatorElement {});
+    }
+}
+
+declare global {
+    interface HTMLElementTagNameMap {
+        'macos-calculator': CalculatorElement;
+    }
+}
+
+defineCalculatorElement();
@@ -0,0 +1,1235 @@
+/**
+ * ENGINE LOGIC FLOW
+ *
+ * The engine is a DOM-free state machine. Every interaction is expressed as a
+ * typed CalculatorAction and reduced into a new, frozen CalculatorState.
+ *
+ * 1. NUMBER INPUT LOGIC
+ * digit → Check waitingForNewValue flag
+ * ├─ True: Start new number (replace current)
+ * └─ False: Append digit (or replace leading zero)
+ *
+ * clearEntry (C) resets only the display to 0: pending operators, open
+ * parentheses and the repeat-= operation are kept, so 5 + 3 C 2 = is 7.
+ * clear (AC) starts the calculation over. canClearEntry tells a view
+ * which of the two the clear key should offer.
+ *
+ * 2. OPERATOR INPUT LOGIC (shunting-yard)
+ * operator → Take current value as the right-hand operand
+ * ├─ Operator pressed twice: Replace the pending operator instead
+ * ├─ Pending operators binding at least as tightly: Calculate them first
+ * └─ Push (operand, operator) as the new pending operation
+ * → Set waitingForNewValue = true, awaitingOperand = true
+ *
+ * The innermost pending operation is exposed as previousValue/operator;
+ * operations suspended behind it (and open parentheses) live on stack.
+ *
+ * 3. CALCULATION CHAIN LOGIC
+ * For operations like 5 + 3 × 2:
+ * 1. 5 → currentValue = "5"
+ * 2. + → previousValue = 5, operator = "+", waiting = true
+ * 3. 3 → currentValue = "3", waiting = false
+ * 4. × → × binds tighter: stack = [5 +], previousValue = 3, operator = "×"
+ * 5. 2 → currentValue = "2"
+ * 6. = → Calculate 3×2=6, then 5+6=11, reset state
+ *
+ * = remembers the innermost operation as lastOperation (× 2 above), and
+ * pressing = with nothing pending replays it on the display value:
+ * 2 × 3 = = = shows 6, 18, 54; 2 × 3 = 5 = shows 15.
+ * = directly after an operator uses the display as the missing operand
+ * (5 + = → 10), like the native calculator.
+ *
+ * Precedence: OR NOR < XOR < AND NAND < shifts and rotates < + − < × ÷
+ * < xʸ ʸ√x (right-associative) < EE, following C for the bitwise operators.
+ * With immediateExecution enabled in Basic mode every operator has the same
+ * precedence, restoring left-to-right chaining (5 + 3 × 2 = 16).
+ *
+ * ( pushes a parenthesis marker; ) calculates back to the matching marker.
+ * = calculates everything, closing any parentheses left open.
+ *
+ * 4. SCIENTIFIC FUNCTIONS
+ * function / constant → Replace currentValue with the result
+ * → Set waitingForNewValue = true (next digit starts fresh)
+ * → Set awaitingOperand = false (the result is a usable operand)
+ * Binary scientific operators (xʸ, ʸ√x, EE) chain exactly like + - × ÷.
+ *
+ * Whole formulas ("12*(3+4)/7") are evaluated by the expression action
+ * (see expression.ts); the result is recorded on the tape and entered as
+ * the display value, so it can be used by a pending operator. A pasted
+ * number is entered the same way by enterNumber, without a tape entry.
+ * convert works the same way on the display value (see units.ts) and
+ * records "12 in → cm" on the tape; convertCurrency applies the given
+ * exchange rate, rounds to the target's minor unit (see currency.ts) and
+ * records "100 USD → EUR".
+ *
+ * 5. PROGRAMMER MODE
+ * Values are integers wrapped to wordSize bits (signed or unsigned).
+ * currentValue stays a base-10 integer; base only changes how digits are
+ * entered and displayed (see programmer.ts). Digits beyond the base or the
+ * word are ignored, + − × ÷ use integer arithmetic, and every result wraps.
+ * Bitwise operators use the same word rules in every mode.
+ *
+ * 6. MEMORY
+ * MC / M+ / M− / MR act on a single memory value; STO / RCL act on the
+ * named registers A–F. M+, M− and STO finish the current entry
+ * (waitingForNewValue = true); MR and RCL enter a value like a constant.
+ * Memory and registers survive clear.
+ *
+ * 7. PAPER TAPE
+ * Operands and operators are recorded in expression as they are entered;
+ * operandLabel describes a computed operand (e.g. "sin(30)"), and a closed
+ * parenthesis collapses into a single label. When = completes a
+ * calculation, the expression and result are appended to tape.
+ * The tape survives clear and can be recalled entry by entry.
+ *
+ * 8. STATE MANAGEMENT
+ * The engine maintains state through:
+ * - currentValue: What's shown on display
+ * - previousValue: Stored number for calculations (an exact Decimal)
+ * - operator: Current math operation
+ * - stack: Suspended outer operations and open parentheses
+ * - immediateExecution: Left-to-right chaining in Basic mode
+ * - waitingForNewValue: Controls whether next input starts fresh number
+ * - awaitingOperand: An operator was pressed and has no right-hand side yet
+ * - lastOperation: Operator and operand replayed by a repeated =
+ * - expression / operandLabel: Text of the calculation being entered
+ * - tape: Completed calculations, oldest first
+ * - memory / registers: M+/M− accumulator and named registers A–F
+ * - mode / angleMode: Keypad layout and trigonometry unit
+ * - base / wordSize / signed: Programmer number base and word format
+ * (tape, memory, registers, mode and all settings survive clear)
+ * - error: The last failed calculation, as a CalculatorError, if any
+ *
+ * All arithmetic goes through Decimal (see decimal.ts), so 0.1 + 0.2 is
+ * exactly 0.3 and integers beyond 2^53 stay exact. The display entry is
+ * kept as text and parsed into a Decimal only when it is used.
+ *
+ * Calculation failures never throw out of the engine; they are reported
+ * through the error field so hosts can decide how to present them. The
+ * error's code says what went wrong (see errors.ts). Any action after an
+ * error starts from a cleared calculator, so typing a digit begins a new
+ * calculation; tape, memory, mode and settings are kept.
+ *
+ * 9. UNDO / REDO
+ * CalculatorEngine keeps the last HISTORY_LIMIT states before each action
+ * that changed something, so undo can reverse any action (an operator, AC,
+ * +/−, %, M+ …) by restoring the whole snapshot. A new action after undo
+ * discards the redo steps. States showing an error are not undo steps.
+ */
+
+import { convertAmount } from './currency.js';
+import { checkRange, Decimal } from './decimal.js';
+import { CalculatorError, DivisionByZeroError, InvalidInputError, toCalculatorError } from './errors.js';
+import { evaluateExpression, FunctionRegistry } from './expression.js';
+import { joinExpression, TapeEntry } from './history.js';
+import {
+    AngleMode,
+    applyFunction,
+    Constant,
+    constantValue,
+    describeFunction,
+    power,
+    root,
+    UnaryFunction,
+} from './scientific.js';
+import {
+    appendDigit,
+    applyBitwise,
+    BitwiseOperator,
+    bitwiseNot,
+    digitValue,
+    isBitwiseOperator,
+    NumberBase,
+    removeDigit,
+    toggleBit,
+    toWord,
+    twosComplement,
+    WordFormat,
+    WordSize,
+    wrapToWord,
+} from './programmer.js';
+import { convert, findUnit } from './units.js';
+
+/**
+ * Binary operators understood by the engine
+ *
+ * Besides + - * /, Scientific mode adds xʸ (pow), ʸ√x (root) and EE (ee: x × 10ʸ),
+ * and Programmer mode adds the bitwise operators.
+ */
+export type BinaryOperator = '+' | '-' | '*' | '/' | 'pow' | 'root' | 'ee' | BitwiseOperator;
+
+/**
+ * Keypad layout; the engine accepts every action in every mode, but
+ * Programmer mode switches arithmetic to fixed-width integers
+ */
+export type CalculatorMode = 'basic' | 'scientific' | 'programmer';
+
+/**
+ * Entry on the operator stack: a suspended operation or an open parenthesis
+ */
+export type StackFrame =
+    | { readonly kind: 'operation'; readonly operand: Decimal; readonly operator: BinaryOperator }
+    | { readonly kind: 'paren' };
+
+/**
+ * Named memory registers
+ */
+export type RegisterName = 'A' | 'B' | 'C' | 'D' | 'E' | 'F';
+
+/**
+ * Actions accepted by the engine
+ *
+ * @example
+ * ```typescript
+ * engine.dispatch({ type: 'digit', digit: '7' });
+ * engine.dispatch({ type: 'operator', operator: '+' });
+ * ```
+ */
+export type CalculatorAction =
+    | { type: 'digit'; digit: string }
+    | { type: 'operator'; operator: BinaryOperator }
+    | { type: 'equals' }
+    | { type: 'decimal' }
+    | { type: 'clear' }
+    | { type: 'clearEntry' }
+    | { type: 'negate' }
+    | { type: 'percent' }
+    | { type: 'backspace' }
+    | { type: 'expression'; source: string }
+    | { type: 'enterNumber'; value: string }
+    | { type: 'convert'; from: string; to: string }
+    | { type: 'convertCurrency'; from: string; to: string; rate: string }
+    | { type: 'function'; name: UnaryFunction }
+    | { type: 'customFunction'; name: string }
+    | { type: 'constant'; name: Constant }
+    | { type: 'openParen' }
+    | { type: 'closeParen' }
+    | { type: 'setMode'; mode: CalculatorMode }
+    | { type: 'toggleAngleMode' }
+    | { type: 'setImmediateExecution'; enabled: boolean }
+    | { type: 'setBase'; base: NumberBase }
+    | { type: 'setWordSize'; wordSize: WordSize }
+    | { type: 'setSigned'; signed: boolean }
+    | { type: 'toggleBit'; bit: number }
+    | { type: 'bitwiseNot' }
+    | { type: 'memoryClear' }
+    | { type: 'memoryAdd' }
+    | { type: 'memorySubtract' }
+    | { type: 'memoryRecall' }
+    | { type: 'storeRegister'; register: RegisterName }
+    | { type: 'recallRegister'; register: RegisterName }
+    | { type: 'recallTape'; index: number }
+    | { type: 'clearTape' };
+
+/**
+ * Immutable snapshot of the engine state
+ */
+export interface CalculatorState {
+    readonly currentValue: string;
+    readonly previousValue: Decimal | null;
+    readonly operator: BinaryOperator | null;
+    readonly stack: readonly StackFrame[];
+    readonly expression: readonly string[];
+    readonly operandLabel: string | null;
+    readonly tape: readonly TapeEntry[];
+    readonly waitingForNewValue: boolean;
+    readonly awaitingOperand: boolean;
+    readonly lastOperation: { readonly operator: BinaryOperator; readonly operand: Decimal } | null;
+    readonly mode: CalculatorMode;
+    readonly angleMode: AngleMode;
+    readonly immediateExecution: boolean;
+    readonly base: NumberBase;
+    readonly wordSize: WordSize;
+    readonly signed: boolean;
+    readonly memory: Decimal;
+    readonly registers: Readonly<Partial<Record<RegisterName, Decimal>>>;
+    readonly error: CalculatorError | null;
+}
+
+/**
+ * State of a freshly created (or fully cleared) calculator
+ */
+export const INITIAL_STATE: CalculatorState = Object.freeze({
+    currentValue: '0',          // Start with zero displayed
+    previousValue: null,        // No previous calculation
+    operator: null,             // No operator selected
+    stack: [],                  // No suspended operations
+    expression: [],             // Nothing entered yet
+    operandLabel: null,         // Operand is the typed value
+    tape: [],                   // Empty paper tape
+    waitingForNewValue: false,  // Not waiting for new input
+    awaitingOperand: false,     // No operator waiting for its right-hand side
+    lastOperation: null,        // Nothing for = to repeat
+    mode: 'basic',              // Basic keypad
+    angleMode: 'deg',           // Trigonometry in degrees, like macOS
+    immediateExecution: false,  // Respect operator precedence
+    base: 10,                   // Programmer mode shows decimal
+    wordSize: 64,               // 64-bit words
+    signed: true,               // Two's-complement signed words
+    memory: Decimal.ZERO,       // Memory cleared
+    registers: {},              // No named registers stored
+    error: null,                // No error state
+});
+
+const REGISTER_NAMES: readonly string[] = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+const ARITHMETIC_OPERATORS: readonly string[] = ['+', '-', '*', '/', 'pow', 'root', 'ee'];
+
+/** Number of earlier states CalculatorEngine keeps for undo */
+export const HISTORY_LIMIT = 100;
+
+const PRECEDENCE: Readonly<Record<BinaryOperator, number>> = {
+    or: 1,
+    nor: 1,
+    xor: 2,
+    and: 3,
+    nand: 3,
+    shl: 4,
+    shr: 4,
+    rol: 4,
+    ror: 4,
+    '+': 5,
+    '-': 5,
+    '*': 6,
+    '/': 6,
+    pow: 7,
+    root: 7,
+    ee: 8,
+};
+
+const RIGHT_ASSOCIATIVE: readonly BinaryOperator[] = ['pow', 'root'];
+
+/** Operator symbols printed on the paper tape */
+const OPERATOR_SYMBOLS: Readonly<Record<BinaryOperator, string>> = {
+    '+': '+',
+    '-': '−',
+    '*': '×',
+    '/': '÷',
+    pow: '^',
+    root: 'yroot',
+    ee: 'E',
+    and: 'AND',
+    or: 'OR',
+    xor: 'XOR',
+    nand: 'NAND',
+    nor: 'NOR',
+    shl: '<<',
+    shr: '>>',
+    rol: 'RoL',
+    ror: 'RoR',
+};
+
+const CONSTANT_LABELS: Readonly<Partial<Record<Constant, string>>> = {
+    pi: 'π',
+    e: 'e',
+};
+
+/** Maximum number of calculations kept on the paper tape */
+const TAPE_LIMIT = 1000;
+
+const ONE_HUNDRED = Decimal.of(100n);
+const TEN = Decimal.of(10n);
+
+/**
+ * Checks whether a raw string (e.g. a button's data-value) is a supported operator
+ *
+ * @param value - The candidate operator
+ * @returns True when the value is a BinaryOperator
+ */
+export function isBinaryOperator(value: string): value is BinaryOperator {
+    return ARITHMETIC_OPERATORS.includes(value) || isBitwiseOperator(value);
+}
+
+/**
+ * Checks whether a raw string (e.g. a button's data-value) names a memory register
+ *
+ * @param value - The candidate register name
+ * @returns True when the value is a RegisterName
+ */
+export function isRegisterName(value: string): value is RegisterName {
+    return REGISTER_NAMES.includes(value);
+}
+
+/**
+ * Whether the display holds an entry that C would clear
+ *
+ * When it does not, the clear key acts as AC and resets the calculation.
+ *
+ * @param state - The current state
+ *
+ * @example
+ * ```typescript
+ * canClearEntry(INITIAL_STATE);                           // false: shows AC
+ * canClearEntry({ ...INITIAL_STATE, currentValue: '7' }); // true: shows C
+ * ```
+ */
+export function canClearEntry(state: CalculatorState): boolean {
+    return state.error === null && state.currentValue !== '0';
+}
+
+/**
+ * Applies a single action to a state and returns the next state
+ *
+ * Pure function: the input state is never modified and the returned
+ * snapshot is frozen. Calculation errors are captured in the error field,
+ * and the action after an error is applied to a cleared calculator.
+ *
+ * @param state - The current state
+ * @param action - The action to apply
+ * @param functions - Functions that formulas and the customFunction action can call
+ * @returns The next state
+ *
+ * @example
+ * ```typescript
+ * let state = INITIAL_STATE;
+ * state = reduce(state, { type: 'digit', digit: '4' });
+ * state = reduce(state, { type: 'operator', operator: '*' });
+ * state = reduce(state, { type: 'digit', digit: '2' });
+ * state = reduce(state, { type: 'equals' });
+ * state.currentValue; // "8"
+ * ```
+ */
+export function reduce(
+    state: CalculatorState,
+    action: CalculatorAction,
+    functions: FunctionRegistry = new FunctionRegistry(),
+): CalculatorState {
+    const base: CalculatorState = state.error ? clear(state) : state;
+    let next: CalculatorState;
+
+    try {
+        switch (action.type) {
+            case 'digit':
+                next = inputNumber(base, action.digit);
+                break;
+            case 'operator':
+                next = inputOperator(base, action.operator);
+                break;
+            case 'equals':
+                next = calculate(base);
+                break;
+            case 'decimal':
+                next = inputDecimal(base);
+                break;
+            case 'clear':
+                next = clear(base);
+                break;
+            case 'clearEntry':
+                next = clearEntry(base);
+                break;
+            case 'negate':
+                next = negate(base);
+                break;
+            case 'percent':
+                next = percent(base);
+                break;
+            case 'backspace':
+                next = backspace(base);
+                break;
+            case 'expression':
+                next = enterExpression(base, action.source, functions);
+                break;
+            case 'enterNumber':
+                next = enterValue(base, checkRange(Decimal.parse(action.value)));
+                break;
+            case 'convert':
+                next = convertUnits(base, action.from, action.to);
+                break;
+            case 'convertCurrency':
+                next = convertCurrency(base, action.from, action.to, action.rate);
+                break;
+            case 'function':
+                next = applyUnary(base, action.name);
+                break;
+            case 'customFunction':
+                next = applyCustom(base, action.name, functions);
+                break;
+            case 'constant':
+                next = enterValue(base, constantValue(action.name), CONSTANT_LABELS[action.name] ?? null);
+                break;
+            case 'openParen':
+                next = openParen(base);
+                break;
+            case 'closeParen':
+                next = closeParen(base);
+                break;
+            case 'setMode':
+                next = setMode(base, action.mode);
+                break;
+            case 'toggleAngleMode':
+                next = { ...base, angleMode: base.angleMode === 'deg' ? 'rad' : 'deg' };
+                break;
+            case 'setImmediateExecution':
+                next = { ...base, immediateExecution: action.enabled };
+                break;
+            case 'setBase':
+                next = { ...base, base: action.base };
+                break;
+            case 'setWordSize':
+                next = setWordFormat(base, { wordSize: action.wordSize, signed: base.signed });
+                break;
+            case 'setSigned':
+                next = setWordFormat(base, { wordSize: base.wordSize, signed: action.signed });
+                break;
+            case 'toggleBit':
+                next = flipBit(base, action.bit);
+                break;
+            case 'bitwiseNot':
+                next = invertBits(base);
+                break;
+            case 'memoryClear':
+                next = { ...base, memory: Decimal.ZERO };
+                break;
+            case 'memoryAdd':
+                next = addToMemory(base, parseCurrentValue(base));
+                break;
+            case 'memorySubtract':
+                next = addToMemory(base, parseCurrentValue(base).negated());
+                break;
+            case 'memoryRecall':
+                next = enterValue(base, base.memory);
+                break;
+            case 'storeRegister':
+                next = storeRegister(base, action.register);
+                break;
+            case 'recallRegister':
+                next = recallRegister(base, action.register);
+                break;
+            case 'recallTape':
+                next = base.tape[action.index] ? enterValue(base, base.tape[action.index].result) : base;
+                break;
+            case 'clearTape':
+                next = { ...base, tape: [] };
+                break;
+            default:
+                return state;
+        }
+    } catch (error) {
+        next = { ...state, error: toCalculatorError(error) };
+    }
+
+    return Object.freeze(next);
+}
+
+/**
+ * Stateful wrapper around {@link reduce}
+ *
+ * Holds the latest snapshot so hosts (the DOM view, Node scripts, tests)
+ * only need to dispatch actions and read the state back, and keeps the
+ * earlier snapshots for undo and redo. Each engine has its own registry
+ * of custom functions.
+ *
+ * @example
+ * ```typescript
+ * const engine = new CalculatorEngine();
+ * engine.dispatch({ type: 'digit', digit: '9' });
+ * engine.getState().currentValue; // "9"
+ * engine.undo().currentValue;     // "0"
+ * ```
+ */
+export class CalculatorEngine {
+    private state: CalculatorState;
+    private past: CalculatorState[] = [];
+    private future: CalculatorState[] = [];
+
+    /** Functions that formulas and the customFunction action can call */
+    public readonly functions = new FunctionRegistry();
+
+    /**
+     * Creates an engine, optionally starting from an existing snapshot
+     *
+     * @param initialState - State to start from (defaults to INITIAL_STATE)
+     */
+    constructor(initialState: CalculatorState = INITIAL_STATE) {
+        this.state = Object.freeze({ ...initialState });
+    }
+
+    /**
+     * Returns the current immutable state snapshot
+     */
+    public getState(): CalculatorState {
+        return this.state;
+    }
+
+    /**
+     * Applies an action and returns the resulting snapshot
+     *
+     * Actions that change the state can be undone.
+     *
+     * @param action - The action to apply
+     * @returns The new state
+     */
+    public dispatch(action: CalculatorAction): CalculatorState {
+        const next = reduce(this.state, action, this.functions);
+
+        if (next !== this.state && !isSameState(next, this.state)) {
+            if (!this.state.error) {
+                this.past = [...this.past, this.state].slice(-HISTORY_LIMIT);
+            }
+            this.future = [];
+        }
+
+        this.state = next;
+        return this.state;
+    }
+
+    /** True when there is an action to undo */
+    public canUndo(): boolean {
+        return this.past.length > 0;
+    }
+
+    /** True when there is an undone action to redo */
+    public canRedo(): boolean {
+        return this.future.length > 0;
+    }
+
+    /**
+     * Restores the state from before the last action
+     *
+     * @returns The restored state (unchanged when there is nothing to undo)
+     */
+    public undo(): CalculatorState {
+        const previous = this.past.pop();
+        if (previous) {
+            if (!this.state.error) {
+                this.future.push(this.state);
+            }
+            this.state = previous;
+        }
+        return this.state;
+    }
+
+    /**
+     * Reapplies the last undone action
+     *
+     * @returns The restored state (unchanged when there is nothing to redo)
+     */
+    public redo(): CalculatorState {
+        const next = this.future.pop();
+        if (next) {
+            this.past = [...this.past, this.state].slice(-HISTORY_LIMIT);
+            this.state = next;
+        }
+        return this.state;
+    }
+}
+
+/**
+ * True when two states differ in no field (reduce returns a new object for every action)
+ */
+function isSameState(a: CalculatorState, b: CalculatorState): boolean {
+    return (Object.keys(a) as (keyof CalculatorState)[]).every((key) => a[key] === b[key]);
+}
+
+/**
+ * Handles numeric input and builds multi-digit numbers
+ *
+ * Either starts a new number (after operators/equals) or appends to the current number.
+ * Anything other than a single digit is ignored.
+ */
+function inputNumber(state: CalculatorState, num: string): CalculatorState {
+    if (state.mode === 'programmer') {
+        return inputWordDigit(state, num);
+    }
+
+    if (!/^[0-9]$/.test(num)) {
+        return state;
+    }
+
+    if (state.waitingForNewValue) {
+        // Start a new number after operator or equals
+        return { ...state, currentValue: num, operandLabel: null, waitingForNewValue: false, awaitingOperand: false };
+    }
+
+    // Append digit to current number (replace leading zero)
+    const currentValue = state.currentValue === '0' ? num : state.currentValue + num;
+    return { ...state, currentValue, operandLabel: null, awaitingOperand: false };
+}
+
+/**
+ * Appends a digit in the Programmer base, ignoring digits the base or word cannot hold
+ */
+function inputWordDigit(state: CalculatorState, digit: string): CalculatorState {
+    const value = digitValue(digit, state.base);
+    if (value === null) {
+        return state;
+    }
+
+    const current = state.waitingForNewValue ? 0n : currentWord(state);
+    const next = appendDigit(current, value, state.base, state);
+    if (next === null) {
+        return state;
+    }
+
+    return {
+        ...state,
+        currentValue: next.toString(),
+        operandLabel: null,
+        waitingForNewValue: false,
+        awaitingOperand: false,
+    };
+}
+
+/**
+ * Handles mathematical operator input and manages calculation chaining
+ *
+ * Calculates pending operations that bind at least as tightly as the new
+ * operator, then pushes the new operation and waits for its operand.
+ */
+function inputOperator(state: CalculatorState, nextOperator: BinaryOperator): CalculatorState {
+    const frames = pendingFrames(state);
+    let operand = parseCurrentValue(state);
+    let expression = [...state.expression, operandText(state)];
+
+    // Operator pressed twice - replace the pending operator
+    const top = frames[frames.length - 1];
+    if (state.awaitingOperand && top?.kind === 'operation') {
+        frames.pop();
+        operand = top.operand;
+        expression = state.expression.slice(0, -1);
+    }
+
+    const result = reduceFrames(state, frames, operand, (frame) => bindsBefore(state, frame.operator, nextOperator));
+    frames.push({ kind: 'operation', operand: result, operator: nextOperator });
+
+    // Set up for next number input
+    return {
+        ...withFrames(state, frames),
+        currentValue: result.toString(),
+        expression: [...expression, OPERATOR_SYMBOLS[nextOperator]],
+        operandLabel: null,
+        waitingForNewValue: true,
+        awaitingOperand: true,
+    };
+}
+
+/**
+ * Performs final calculation of every pending operation and displays the result
+ *
+ * Open parentheses are closed implicitly. Resets calculation state so the
+ * result becomes the starting point for the next calculation. With nothing
+ * pending, repeats the last operation instead.
+ */
+function calculate(state: CalculatorState): CalculatorState {
+    const frames = pendingFrames(state);
+    if (frames.length === 0) {
+        return state.lastOperation ? repeatOperation(state, state.lastOperation) : state;
+    }
+
+    // Remember the innermost operation for repeated =
+    const operand = parseCurrentValue(state);
+    const innermost = [...frames].reverse().find((frame) => frame.kind === 'operation');
+    const lastOperation = innermost?.kind === 'operation' ? { operator: innermost.operator, operand } : null;
+
+    // Calculate level by level, dropping parentheses left open
+    let result = operand;
+    while (frames.length > 0) {
+        result = reduceFrames(state, frames, result, () => true);
+        frames.pop();
+    }
+
+    // Close any open parentheses on the tape as well
+    const tokens = [...state.expression, operandText(state)];
+    tokens.push(...state.expression.filter((token) => token === '(').map(() => ')'));
+    const entry: TapeEntry = { expression: joinExpression(tokens), result };
+
+    return {
+        ...withFrames(state, []),   // Clear previous value, operator and stack
+        currentValue: result.toString(),
+        expression: [],
+        operandLabel: null,
+        tape: [...state.tape, entry].slice(-TAPE_LIMIT),
+        waitingForNewValue: true,   // Result becomes starting point for next calculation
+        awaitingOperand: false,
+        lastOperation,
+    };
+}
+
+/**
+ * Applies the remembered operation to the display value (repeated =)
+ */
+function repeatOperation(
+    state: CalculatorState,
+    operation: { operator: BinaryOperator; operand: Decimal },
+): CalculatorState {
+    const result = performCalculation(state, parseCurrentValue(state), operation.operator, operation.operand);
+    const tokens = [operandText(state), OPERATOR_SYMBOLS[operation.operator], operation.operand.toString()];
+    const entry: TapeEntry = { expression: joinExpression(tokens), result };
+
+    return {
+        ...state,
+        currentValue: result.toString(),
+        operandLabel: null,
+        tape: [...state.tape, entry].slice(-TAPE_LIMIT),
+        waitingForNewValue: true,
+        awaitingOperand: false,
+    };
+}
+
+/**
+ * Opens a parenthesis: following operations are calculated before the ones outside it
+ */
+function openParen(state: CalculatorState): CalculatorState {
+    const frames = pendingFrames(state);
+    frames.push({ kind: 'paren' });
+    return {
+        ...withFrames(state, frames),
+        expression: [...state.expression, '('],
+        operandLabel: null,
+        waitingForNewValue: true,
+        awaitingOperand: true,
+    };
+}
+
+/**
+ * Closes the innermost parenthesis, showing the value of its contents
+ *
+ * Ignored when no parenthesis is open.
+ */
+function closeParen(state: CalculatorState): CalculatorState {
+    const frames = pendingFrames(state);
+    if (!frames.some((frame) => frame.kind === 'paren')) {
+        return state;
+    }
+
+    const result = reduceFrames(state, frames, parseCurrentValue(state), () => true);
+    frames.pop();   // The matching parenthesis marker
+
+    // Collapse the parenthesised tokens into the operand label
+    const open = state.expression.lastIndexOf('(');
+    const group = [...state.expression.slice(open), operandText(state), ')'];
+
+    return {
+        ...withFrames(state, frames),
+        currentValue: result.toString(),
+        expression: state.expression.slice(0, open),
+        operandLabel: joinExpression(group),
+        waitingForNewValue: true,
+        awaitingOperand: false,
+    };
+}
+
+/**
+ * Text of the current operand for the paper tape
+ */
+function operandText(state: CalculatorState): string {
+    return state.operandLabel ?? parseCurrentValue(state).toString();
+}
+
+/**
+ * All pending frames, innermost last (stack plus the previousValue/operator pair)
+ */
+function pendingFrames(state: CalculatorState): StackFrame[] {
+    const frames = [...state.stack];
+    if (state.operator && state.previousValue !== null) {
+        frames.push({ kind: 'operation', operand: state.previousValue, operator: state.operator });
+    }
+    return frames;
+}
+
+/**
+ * Stores frames back into state, exposing an innermost operation as previousValue/operator
+ */
+function withFrames(state: CalculatorState, frames: StackFrame[]): CalculatorState {
+    const top = frames[frames.length - 1];
+    if (top?.kind === 'operation') {
+        return { ...state, previousValue: top.operand, operator: top.operator, stack: frames.slice(0, -1) };
+    }
+    return { ...state, previousValue: null, operator: null, stack: frames };
+}
+
+/**
+ * Calculates pending operations from the innermost outwards
+ *
+ * Stops at an open parenthesis or at the first operation the predicate rejects.
+ * Calculated frames are removed from the array.
+ *
+ * @param state - State supplying the mode and word format
+ * @param frames - Pending frames, modified in place
+ * @param operand - Right-hand operand of the innermost operation
+ * @param shouldReduce - Whether an operation should be calculated now
+ * @returns The value of the calculated operations
+ */
+function reduceFrames(
+    state: CalculatorState,
+    frames: StackFrame[],
+    operand: Decimal,
+    shouldReduce: (frame: { operand: Decimal; operator: BinaryOperator }) => boolean,
+): Decimal {
+    let result = operand;
+    let top = frames[frames.length - 1];
+
+    while (top?.kind === 'operation' && shouldReduce(top)) {
+        result = performCalculation(state, top.operand, top.operator, result);
+        frames.pop();
+        top = frames[frames.length - 1];
+    }
+
+    return result;
+}
+
+/**
+ * Whether a pending operator must be calculated before a newly pressed one
+ */
+function bindsBefore(state: CalculatorState, pending: BinaryOperator, next: BinaryOperator): boolean {
+    if (state.mode === 'basic' && state.immediateExecution) {
+        return true;    // Left-to-right chaining
+    }
+
+    const difference = PRECEDENCE[pending] - PRECEDENCE[next];
+    return difference > 0 || (difference === 0 && !RIGHT_ASSOCIATIVE.includes(next));
+}
+
+/**
+ * Performs the actual calculation between two numbers
+ *
+ * Programmer mode and the bitwise operators work on fixed-width integers.
+ *
+ * @throws {DivisionByZeroError} On division by zero
+ * @throws {OverflowError} On out-of-range results
+ */
+function performCalculation(state: CalculatorState, prev: Decimal, operator: BinaryOperator, current: Decimal): Decimal {
+    if (state.mode === 'programmer' || isBitwiseOperator(operator)) {
+        return Decimal.of(wordCalculation(state, toWord(prev, state), operator, toWord(current, state)));
+    }
+    return decimalCalculation(prev, operator, current);
+}
+
+/**
+ * Calculates with exact decimals
+ */
+function decimalCalculation(prev: Decimal, operator: Exclude<BinaryOperator, BitwiseOperator>, current: Decimal): Decimal {
+    let result: Decimal;
+
+    switch (operator) {
+        case '+':
+            result = prev.plus(current);
+            break;
+        case '-':
+            result = prev.minus(current);
+            break;
+        case '*':
+            result = prev.times(current);
+            break;
+        case '/':
+            // dividedBy throws on a zero divisor
+            result = prev.dividedBy(current);
+            break;
+        case 'pow':
+            result = power(prev, current);
+            break;
+        case 'root':
+            result = root(prev, current);
+            break;
+        case 'ee':
+            result = prev.times(power(TEN, current));
+            break;
+    }
+
+    return checkRange(result);
+}
+
+/**
+ * Calculates with words, wrapping the result like fixed-width hardware integers
+ *
+ * Division truncates toward zero; xʸ, ʸ√x and EE are calculated exactly and then truncated.
+ *
+ * @throws {DivisionByZeroError} On division by zero
+ */
+function wordCalculation(format: WordFormat, prev: bigint, operator: BinaryOperator, current: bigint): bigint {
+    if (isBitwiseOperator(operator)) {
+        return applyBitwise(operator, prev, current, format);
+    }
+
+    switch (operator) {
+        case '+':
+            return wrapToWord(prev + current, format);
+        case '-':
+            return wrapToWord(prev - current, format);
+        case '*':
+            return wrapToWord(prev * current, format);
+        case '/':
+            if (current === 0n) {
+                throw new DivisionByZeroError();
+            }
+            return wrapToWord(prev / current, format);
+        default:
+            return toWord(decimalCalculation(Decimal.of(prev), operator, Decimal.of(current)), format);
+    }
+}
+
+/**
+ * The display entry as a Programmer word
+ */
+function currentWord(state: CalculatorState): bigint {
+    return toWord(parseCurrentValue(state), state);
+}
+
+/**
+ * Parses the display entry into a Decimal
+ *
+ * @throws {InvalidInputError} When the entry is not a number
+ */
+function parseCurrentValue(state: CalculatorState): Decimal {
+    if (!Decimal.isDecimal(state.currentValue)) {
+        throw new InvalidInputError('Invalid number in calculation');
+    }
+    return Decimal.parse(state.currentValue);
+}
+
+/**
+ * Handles decimal point input, preventing multiple decimal points
+ */
+function inputDecimal(state: CalculatorState): CalculatorState {
+    if (state.mode === 'programmer') {
+        return state;   // Words have no fractional part
+    }
+
+    if (state.waitingForNewValue) {
+        // Start new decimal number
+        return { ...state, currentValue: '0.', operandLabel: null, waitingForNewValue: false, awaitingOperand: false };
+    }
+
+    if (state.currentValue.indexOf('.') === -1) {
+        // Add decimal point if none exists
+        return { ...state, currentValue: state.currentValue + '.', operandLabel: null, awaitingOperand: false };
+    }
+
+    return state;
+}
+
+/**
+ * Resets the calculation while keeping memory, the selected mode and settings (AC)
+ */
+function clear(state: CalculatorState): CalculatorState {
+    return {
+        ...INITIAL_STATE,
+        mode: state.mode,
+        angleMode: state.angleMode,
+        immediateExecution: state.immediateExecution,
+        base: state.base,
+        wordSize: state.wordSize,
+        signed: state.signed,
+        tape: state.tape,
+        memory: state.memory,
+        registers: state.registers,
+    };
+}
+
+/**
+ * Resets the display to 0 and keeps the pending operations (C)
+ */
+function clearEntry(state: CalculatorState): CalculatorState {
+    return { ...state, currentValue: '0', operandLabel: null, waitingForNewValue: false, error: null };
+}
+
+/**
+ * Switches the keypad layout, truncating the display to a word when entering Programmer mode
+ */
+function setMode(state: CalculatorState, mode: CalculatorMode): CalculatorState {
+    if (mode !== 'programmer' || state.mode === 'programmer') {
+        return { ...state, mode };
+    }
+    return { ...state, mode, currentValue: currentWord(state).toString() };
+}
+
+/**
+ * Changes the word size or signedness, reinterpreting the displayed bit pattern
+ */
+function setWordFormat(state: CalculatorState, format: WordFormat): CalculatorState {
+    const value = wrapToWord(currentWord(state), format);
+    return { ...state, ...format, currentValue: value.toString() };
+}
+
+/**
+ * Flips one bit of the displayed word; bits outside the word are ignored
+ *
+ * The result is an entry, so following digits extend it.
+ */
+function flipBit(state: CalculatorState, bit: number): CalculatorState {
+    if (!Number.isInteger(bit) || bit < 0 || bit >= state.wordSize) {
+        return state;
+    }
+
+    const value = toggleBit(currentWord(state), bit, state);
+    return {
+        ...state,
+        currentValue: value.toString(),
+        operandLabel: null,
+        waitingForNewValue: false,
+        awaitingOperand: false,
+    };
+}
+
+/**
+ * Replaces the displayed word with its bitwise NOT
+ */
+function invertBits(state: CalculatorState): CalculatorState {
+    const value = bitwiseNot(currentWord(state), state);
+    return enterValue(state, Decimal.of(value), `NOT(${operandText(state)})`);
+}
+
+/**
+ * Adds a value to memory (M+, or M− with a negated value)
+ */
+function addToMemory(state: CalculatorState, value: Decimal): CalculatorState {
+    return { ...state, memory: checkRange(state.memory.plus(value)), waitingForNewValue: true };
+}
+
+/**
+ * Stores the displayed value in a named register (STO)
+ */
+function storeRegister(state: CalculatorState, register: RegisterName): CalculatorState {
+    const registers = { ...state.registers, [register]: parseCurrentValue(state) };
+    return { ...state, registers, waitingForNewValue: true };
+}
+
+/**
+ * Enters the value of a named register (RCL); ignored for empty registers
+ */
+function recallRegister(state: CalculatorState, register: RegisterName): CalculatorState {
+    const value = state.registers[register];
+    return value ? enterValue(state, value) : state;
+}
+
+/**
+ * Applies a scientific function to the displayed value
+ *
+ * The result counts as a complete operand: it can be used by a pending
+ * operator, but the next digit starts a new number.
+ */
+function applyUnary(state: CalculatorState, name: UnaryFunction): CalculatorState {
+    const result = checkRange(applyFunction(name, parseCurrentValue(state), state.angleMode));
+    return enterValue(state, result, describeFunction(name, operandText(state)));
+}
+
+/**
+ * Applies a function from the registry (see expression.ts) to the displayed value
+ *
+ * @throws {InvalidInputError} When no function has the name
+ */
+function applyCustom(state: CalculatorState, name: string, functions: FunctionRegistry): CalculatorState {
+    const result = checkRange(functions.apply(name, parseCurrentValue(state)));
+    const label = functions.find(name)?.label ?? name;
+    return enterValue(state, result, `${label}(${operandText(state)})`);
+}
+
+/**
+ * Evaluates a typed or pasted formula, records it on the tape and enters the result
+ *
+ * @throws {ExpressionError} When the formula is malformed or cannot be calculated
+ */
+function enterExpression(state: CalculatorState, source: string, functions: FunctionRegistry): CalculatorState {
+    const result = checkRange(evaluateExpression(source, state.angleMode, functions));
+    const entered = enterValue(state, result);
+    const entry: TapeEntry = { expression: source.trim().replace(/\s+/g, ' '), result: parseCurrentValue(entered) };
+
+    return { ...entered, tape: [...state.tape, entry].slice(-TAPE_LIMIT) };
+}
+
+/**
+ * Converts the display value between units, records it on the tape and enters the result
+ *
+ * @throws {ConversionError} When the units are unknown or measure different things
+ */
+function convertUnits(state: CalculatorState, fromId: string, toId: string): CalculatorState {
+    const result = checkRange(convert(parseCurrentValue(state), fromId, toId));
+    const entered = enterValue(state, result);
+    const expression = `${operandText(state)} ${findUnit(fromId).symbol} → ${findUnit(toId).symbol}`;
+    const entry: TapeEntry = { expression, result: parseCurrentValue(entered) };
+
+    return { ...entered, tape: [...state.tape, entry].slice(-TAPE_LIMIT) };
+}
+
+/**
+ * Converts the display value between currencies, records it on the tape and enters the result
+ *
+ * @param rate - Units of `to` per unit of `from`, as decimal text
+ */
+function convertCurrency(state: CalculatorState, from: string, to: string, rate: string): CalculatorState {
+    const result = checkRange(convertAmount(parseCurrentValue(state), Decimal.parse(rate), to));
+    const entered = enterValue(state, result);
+    const entry: TapeEntry = { expression: `${operandText(state)} ${from} → ${to}`, result: parseCurrentValue(entered) };
+
+    return { ...entered, tape: [...state.tape, entry].slice(-TAPE_LIMIT) };
+}
+
+/**
+ * Replaces the display with a computed value (function result, constant or recalled value)
+ *
+ * In Programmer mode the value is truncated to a word.
+ *
+ * @param label - How the value appears on the paper tape (defaults to the value itself)
+ */
+function enterValue(state: CalculatorState, value: Decimal, label: string | null = null): CalculatorState {
+    const entered = state.mode === 'programmer' ? Decimal.of(toWord(value, state)) : value;
+    return {
+        ...state,
+        currentValue: entered.toString(),
+        operandLabel: label,
+        waitingForNewValue: true,
+        awaitingOperand: false,
+    };
+}
+
+/**
+ * Toggles the sign of the current number. Zero is left untouched.
+ *
+ * In Programmer mode this is the two's complement of the word.
+ */
+function negate(state: CalculatorState): CalculatorState {
+    if (state.mode === 'programmer') {
+        const currentValue = twosComplement(currentWord(state), state).toString();
+        const operandLabel = state.operandLabel === null ? null : `-(${state.operandLabel})`;
+        return { ...state, currentValue, operandLabel };
+    }
+
+    if (state.currentValue === '0') {
+        return state;
+    }
+
+    const currentValue = state.currentValue.startsWith('-')
+        ? state.currentValue.slice(1)      // Remove minus sign
+        : '-' + state.currentValue;        // Add minus sign
+    const operandLabel = state.operandLabel === null ? null : `-(${state.operandLabel})`;
+    return { ...state, currentValue, operandLabel };
+}
+
+/**
+ * Converts current number to a percentage, taking the pending operation into account
+ *
+ * After + or − the percentage is of the left-hand operand, so 200 + 10 % adds 20
+ * (a markup) and 200 − 10 % subtracts 20 (a discount). Otherwise the number is
+ * divided by 100, so 200 × 10 % multiplies by 0.1.
+ */
+function percent(state: CalculatorState): CalculatorState {
+    if (state.mode === 'programmer') {
+        return state;
+    }
+
+    let result = parseCurrentValue(state).dividedBy(ONE_HUNDRED);
+    if ((state.operator === '+' || state.operator === '-') && state.previousValue !== null) {
+        result = checkRange(state.previousValue.times(result));
+    }
+
+    return enterValue(state, result, `${operandText(state)}%`);
+}
+
+/**
+ * Removes the last digit from the current entry, resetting to "0" when empty
+ */
+function backspace(state: CalculatorState): CalculatorState {
+    if (state.waitingForNewValue || state.currentValue === '0') {
+        return state;
+    }
+
+    if (state.mode === 'programmer') {
+        const currentValue = removeDigit(currentWord(state), state.base, state).toString();
+        return { ...state, currentValue, operandLabel: null };
+    }
+
+    // Removing the last digit of "-5" leaves zero, not a lone minus sign
+    const remaining = state.currentValue.slice(0, -1);
+    const currentValue = remaining === '' || remaining === '-' ? '0' : remaining;
+    return { ...state, currentValue, operandLabel: null };
+}
@@ -0,0 +1,130 @@
+/**
+ * Errors raised by calculations, with codes a view can present
+ *
+ * Every failure the engine can report is a CalculatorError. The code says
+ * what kind of failure it was and picks the short text shown on the
+ * display ("Not a number", "Overflow"); the message gives the details
+ * that are logged and announced to screen readers ("Division by zero").
+ *
+ * Modules throw the subclass for their failure; reduce() turns anything
+ * else into an 'internal' error, so engine hosts only handle one type.
+ */
+
+/**
+ * Kinds of failure
+ */
+export type ErrorCode =
+    | 'divisionByZero'  // x ÷ 0
+    | 'notANumber'      // √−1, ln 0, 0 ÷ 0 in a function
+    | 'overflow'        // Beyond the calculator's exponent range
+    | 'invalidInput'    // Text that is not a number
+    | 'syntax'          // A malformed formula
+    | 'conversion'      // Incompatible or impossible unit conversion
+    | 'setup'           // The page is missing calculator markup
+    | 'internal';       // Anything unexpected
+
+/**
+ * Text shown on the display for each code
+ */
+export const ERROR_DISPLAY_TEXT: Readonly<Record<ErrorCode, string>> = {
+    divisionByZero: 'Cannot divide by 0',
+    notANumber: 'Not a number',
+    overflow: 'Overflow',
+    invalidInput: 'Invalid input',
+    syntax: 'Syntax error',
+    conversion: 'Cannot convert',
+    setup: 'Error',
+    internal: 'Error',
+};
+
+/**
+ * A calculation failure with a code
+ *
+ * @example
+ * ```typescript
+ * const error = new CalculatorError('overflow', 'Result is too large');
+ * error.displayText; // "Overflow"
+ * ```
+ */
+export class CalculatorError extends Error {
+    /**
+     * @param code - Kind of failure
+     * @param message - Details (defaults to the display text)
+     */
+    constructor(public readonly code: ErrorCode, message: string = ERROR_DISPLAY_TEXT[code]) {
+        super(message);
+        this.name = 'CalculatorError';
+    }
+
+    /** Short text for the display */
+    public get displayText(): string {
+        return ERROR_DISPLAY_TEXT[this.code];
+    }
+}
+
+/**
+ * Dividing by zero
+ */
+export class DivisionByZeroError extends CalculatorError {
+    constructor() {
+        super('divisionByZero', 'Division by zero');
+        this.name = 'DivisionByZeroError';
+    }
+}
+
+/**
+ * A result that is not a real number
+ */
+export class NotANumberError extends CalculatorError {
+    constructor(message = 'Result is not a number') {
+        super('notANumber', message);
+        this.name = 'NotANumberError';
+    }
+}
+
+/**
+ * A result too large for the calculator
+ */
+export class OverflowError extends CalculatorError {
+    constructor(message = 'Result is too large') {
+        super('overflow', message);
+        this.name = 'OverflowError';
+    }
+}
+
+/**
+ * Input that cannot be read as a number
+ */
+export class InvalidInputError extends CalculatorError {
+    constructor(message: string) {
+        super('invalidInput', message);
+        this.name = 'InvalidInputError';
+    }
+}
+
+/**
+ * A unit or currency conversion that cannot be made
+ */
+export class ConversionError extends CalculatorError {
+    constructor(message: string) {
+        super('conversion', message);
+        this.name = 'ConversionError';
+    }
+}
+
+/**
+ * Returns a CalculatorError as is and wraps anything else as an 'internal' error
+ *
+ * @param error - A caught value
+ *
+ * @example
+ * ```typescript
+ * toCalculatorError(new TypeError('x is undefined')).code; // "internal"
+ * ```
+ */
+export function toCalculatorError(error: unknown): CalculatorError {
+    if (error instanceof CalculatorError) {
+        return error;
+    }
+    return new CalculatorError('internal', error instanceof Error ? error.message : String(error));
+}
@@ -0,0 +1,122 @@
+/**
+ * Events a calculator reports to the code embedding it
+ *
+ * The view compares each new engine snapshot with the one before and emits:
+ *
+ * - valuechange: The displayed value changed (typing, results, undo …)
+ * - result: A calculation was completed and recorded on the paper tape
+ * - error: A calculation failed
+ * - modechange: The keypad switched between Basic, Scientific and Programmer
+ *
+ * Listeners run synchronously, after the display has been updated. An
+ * exception in one listener is logged and does not stop the others.
+ */
+
+import { CalculatorMode, CalculatorState } from './engine.js';
+import { CalculatorError } from './errors.js';
+import { TapeEntry } from './history.js';
+
+/**
+ * Payload of each event
+ */
+export interface CalculatorEventMap {
+    valuechange: { readonly value: string; readonly state: CalculatorState };
+    result: { readonly entry: TapeEntry; readonly state: CalculatorState };
+    error: { readonly error: CalculatorError; readonly state: CalculatorState };
+    modechange: { readonly mode: CalculatorMode; readonly previousMode: CalculatorMode; readonly state: CalculatorState };
+}
+
+export type CalculatorEventType = keyof CalculatorEventMap;
+
+export type CalculatorListener<K extends CalculatorEventType> = (event: CalculatorEventMap[K]) => void;
+
+/**
+ * An event ready to be emitted
+ */
+export type CalculatorEvent = {
+    [K in CalculatorEventType]: { readonly type: K; readonly detail: CalculatorEventMap[K] };
+}[CalculatorEventType];
+
+/**
+ * Lists the events for a change from one snapshot to the next, in the order they are emitted
+ *
+ * @param previous - State before the change
+ * @param next - State after the change
+ *
+ * @example
+ * ```typescript
+ * const next = reduce(INITIAL_STATE, { type: 'digit', digit: '7' });
+ * stateEvents(INITIAL_STATE, next).map((event) => event.type); // ["valuechange"]
+ * ```
+ */
+export function stateEvents(previous: CalculatorState, next: CalculatorState): CalculatorEvent[] {
+    const events: CalculatorEvent[] = [];
+
+    if (next.error) {
+        if (next.error !== previous.error) {
+            events.push({ type: 'error', detail: { error: next.error, state: next } });
+        }
+        return events;
+    }
+
+    if (next.mode !== previous.mode) {
+        events.push({ type: 'modechange', detail: { mode: next.mode, previousMode: previous.mode, state: next } });
+    }
+    if (next.currentValue !== previous.currentValue || previous.error) {
+        events.push({ type: 'valuechange', detail: { value: next.currentValue, state: next } });
+    }
+
+    // Entries already on the earlier tape are restored by undo, not new results
+    const entry = next.tape[next.tape.length - 1];
+    if (entry && !previous.tape.includes(entry)) {
+        events.push({ type: 'result', detail: { entry, state: next } });
+    }
+
+    return events;
+}
+
+/**
+ * Keeps listeners per event type and calls them
+ *
+ * @example
+ * ```typescript
+ * const emitter = new CalculatorEmitter();
+ * const stop = emitter.on('result', ({ entry }) => console.log(entry.expression));
+ * stop(); // Removes the listener again
+ * ```
+ */
+export class CalculatorEmitter {
+    private listeners = new Map<CalculatorEventType, Set<(detail: never) => void>>();
+
+    /**
+     * Adds a listener
+     *
+     * @returns A function that removes the listener
+     */
+    public on<K extends CalculatorEventType>(type: K, listener: CalculatorListener<K>): () => void {
+        const listeners = this.listeners.get(type) ?? new Set();
+        listeners.add(listener);
+        this.listeners.set(type, listeners);
+        return () => this.off(type, listener);
+    }
+
+    /**
+     * Removes a listener added with on()
+     */
+    public off<K extends CalculatorEventType>(type: K, listener: CalculatorListener<K>): void {
+        this.listeners.get(type)?.delete(listener);
+    }
+
+    /**
+     * Calls the listeners of an event
+     */
+    public emit(event: CalculatorEvent): void {
+        this.listeners.get(event.type)?.forEach((listener) => {
+            try {
+                (listener as (detail: CalculatorEvent['detail']) => void)(event.detail);
+            } catch (error) {
+                console.error(`Calculator ${event.type} listener error:`, error);
+            }
+        });
+    }
+}
@@ -0,0 +1,560 @@
+/**
+ * Expression entry: parsing and evaluating a whole typed or pasted formula
+ *
+ * A recursive-descent parser over the grammar below; precedence matches the
+ * keypad, so "12*(3+4)/7" is 12 and "5+3×2" is 11.
+ *
+ *   additive       := multiplicative (("+" | "-") multiplicative)*
+ *   multiplicative := unary (("*" | "/") unary | power)*      (2π, 2(3+4); not 2 3)
+ *   unary          := ("-" | "+") unary | power
+ *   power          := postfix ("^" unary)?                    (right-associative)
+ *   postfix        := primary ("!" | "%")*
+ *   primary        := number | constant | function primary | "(" additive ")"
+ *
+ * Keypad symbols (× ÷ − π √ ∛) are accepted alongside their ASCII forms.
+ * Parentheses, function calls, signs and powers nest at most MAX_NESTING
+ * levels deep.
+ * Functions in a FunctionRegistry (added by plugins) are called like the
+ * built-in ones: "vat(100)". Each calculator has its own registry, passed
+ * to parseExpression and evaluateExpression.
+ * Syntax and evaluation errors are reported as an ExpressionError carrying
+ * the position of the offending character; evaluation errors keep the code
+ * of the failure (division by zero, not a number…). Every intermediate
+ * result is held to the calculator's range, so "(10^300)^1000" overflows
+ * at its second "^" rather than being multiplied out.
+ */
+
+import { checkRange, Decimal } from './decimal.js';
+import { CalculatorError, ErrorCode, InvalidInputError, toCalculatorError } from './errors.js';
+import { AngleMode, applyFunction, Constant, constantValue, power, UnaryFunction } from './scientific.js';
+
+/**
+ * Error in a formula, pointing at the character where it was detected
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   parseExpression('12*(3+');
+ * } catch (error) {
+ *   (error as ExpressionError).position; // 6
+ *   (error as ExpressionError).message;  // 'Unexpected end of expression at position 7'
+ *   (error as ExpressionError).code;     // 'syntax'
+ * }
+ * ```
+ */
+export class ExpressionError extends CalculatorError {
+    /**
+     * @param reason - What went wrong, without position information
+     * @param position - Zero-based index into the source text
+     * @param code - Kind of failure; 'syntax' unless evaluation failed
+     */
+    constructor(public readonly reason: string, public readonly position: number, code: ErrorCode = 'syntax') {
+        super(code, `${reason} at position ${position + 1}`);
+        this.name = 'ExpressionError';
+    }
+}
+
+/**
+ * Binary operators that can appear in a formula
+ */
+export type ExpressionOperator = '+' | '-' | '*' | '/' | '^';
+
+/**
+ * Parsed formula; every node records where it starts in the source
+ */
+export type ExpressionNode =
+    | { readonly kind: 'number'; readonly value: Decimal; readonly position: number }
+    | { readonly kind: 'constant'; readonly name: Constant; readonly position: number }
+    | { readonly kind: 'negate'; readonly operand: ExpressionNode; readonly position: number }
+    | { readonly kind: 'percent'; readonly operand: ExpressionNode; readonly position: number }
+    | { readonly kind: 'function'; readonly name: UnaryFunction; readonly argument: ExpressionNode; readonly position: number }
+    | { readonly kind: 'custom'; readonly name: string; readonly argument: ExpressionNode; readonly position: number }
+    | {
+        readonly kind: 'binary';
+        readonly operator: ExpressionOperator;
+        readonly left: ExpressionNode;
+        readonly right: ExpressionNode;
+        readonly position: number;
+    };
+
+interface Token {
+    readonly kind: 'number' | 'identifier' | 'symbol' | 'end';
+    readonly text: string;
+    readonly position: number;
+}
+
+const NUMBER_PATTERN = /(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const IDENTIFIER_PATTERN = /log(?:10|2)(?=\s*\()|[a-zA-Z]+[₁₀₂]*|[π√∛]/y;
+
+/** Keypad and Unicode spellings of the operators */
+const SYMBOL_ALIASES: Readonly<Record<string, string>> = {
+    '×': '*',
+    '·': '*',
+    '÷': '/',
+    '−': '-',
+    '–': '-',
+};
+
+const SYMBOLS = '+-*/^()!%';
+
+const FUNCTION_NAMES: Readonly<Record<string, UnaryFunction>> = {
+    sin: 'sin',
+    cos: 'cos',
+    tan: 'tan',
+    asin: 'asin',
+    acos: 'acos',
+    atan: 'atan',
+    sinh: 'sinh',
+    cosh: 'cosh',
+    tanh: 'tanh',
+    asinh: 'asinh',
+    acosh: 'acosh',
+    atanh: 'atanh',
+    ln: 'ln',
+    log: 'log10',
+    log10: 'log10',
+    'log₁₀': 'log10',
+    log2: 'log2',
+    'log₂': 'log2',
+    sqrt: 'sqrt',
+    '√': 'sqrt',
+    cbrt: 'cbrt',
+    '∛': 'cbrt',
+    exp: 'exp',
+};
+
+const CONSTANT_NAMES: Readonly<Record<string, Constant>> = {
+    pi: 'pi',
+    'π': 'pi',
+    e: 'e',
+    rand: 'rand',
+};
+
+const ONE_HUNDRED = Decimal.of(100n);
+
+/** Deepest nesting of parentheses, function calls, signs and powers the parser accepts */
+export const MAX_NESTING = 100;
+
+/**
+ * A function added to the calculator, usable in formulas and on keys
+ *
+ * @example
+ * ```typescript
+ * const vat: CustomFunction = {
+ *     name: 'vat',
+ *     label: 'VAT',
+ *     apply: (x) => x.times(Decimal.parse('1.2')),
+ * };
+ * ```
+ */
+export interface CustomFunction {
+    /** Name used in formulas: lowercase letters that are not a built-in name */
+    readonly name: string;
+    /** Text for keys and the display label (defaults to the name) */
+    readonly label?: string;
+    /** Calculates the result; throw a CalculatorError to report a failure */
+    readonly apply: (x: Decimal) => Decimal;
+}
+
+const CUSTOM_FUNCTION_NAME = /^[a-z]+$/;
+
+/**
+ * The functions added to one calculator, by name
+ *
+ * Each CalculatorEngine has its own registry; formulas and the
+ * customFunction action can only call the functions in it.
+ *
+ * @example
+ * ```typescript
+ * const functions = new FunctionRegistry();
+ * functions.register({ name: 'double', apply: (x) => x.times(Decimal.of(2n)) });
+ * evaluateExpression('double(21)', 'deg', functions).toString(); // "42"
+ * ```
+ */
+export class FunctionRegistry {
+    private readonly functions = new Map<string, CustomFunction>();
+
+    /**
+     * Makes a function available to formulas and the customFunction engine action
+     *
+     * @param definition - The function to add
+     * @throws {Error} When the name is not lowercase letters or is already taken
+     */
+    public register(definition: CustomFunction): void {
+        const { name } = definition;
+
+        if (!CUSTOM_FUNCTION_NAME.test(name)) {
+            throw new Error(`Invalid function name: "${name}"`);
+        }
+        if (FUNCTION_NAMES[name] || CONSTANT_NAMES[name] || this.functions.has(name)) {
+            throw new Error(`Function name is already taken: "${name}"`);
+        }
+        this.functions.set(name, definition);
+    }
+
+    /**
+     * Removes a function added with register
+     */
+    public unregister(name: string): void {
+        this.functions.delete(name);
+    }
+
+    /**
+     * Looks up a function added with register
+     */
+    public find(name: string): CustomFunction | undefined {
+        return this.functions.get(name);
+    }
+
+    /**
+     * Applies a function added with register
+     *
+     * @throws {InvalidInputError} When no function has the name
+     * @throws {CalculatorError} When the function fails or returns something other than a Decimal
+     */
+    public apply(name: string, x: Decimal): Decimal {
+        const definition = this.functions.get(name);
+        if (!definition) {
+            throw new InvalidInputError(`Unknown function: ${name}`);
+        }
+
+        const result = definition.apply(x);
+        if (!(result instanceof Decimal)) {
+            throw new CalculatorError('internal', `${name} did not return a Decimal`);
+        }
+        return result;
+    }
+}
+
+/**
+ * Parses a formula into an expression tree
+ *
+ * @param source - Formula such as "12*(3+4)/7" or "2 × sin(30)"
+ * @param functions - Functions the formula may call besides the built-in ones
+ * @throws {ExpressionError} When the formula is empty or malformed
+ */
+export function parseExpression(source: string, functions: FunctionRegistry = new FunctionRegistry()): ExpressionNode {
+    return new Parser(tokenize(source), functions).parse();
+}
+
+/**
+ * Parses and evaluates a formula with exact Decimal arithmetic
+ *
+ * @param source - Formula such as "12*(3+4)/7"
+ * @param angleMode - Unit for trigonometric functions
+ * @param functions - Functions the formula may call besides the built-in ones
+ * @throws {ExpressionError} When the formula is malformed or cannot be calculated
+ *
+ * @example
+ * ```typescript
+ * evaluateExpression('12*(3+4)/7').toString(); // "12"
+ * evaluateExpression('0.1 + 0.2').toString();  // "0.3"
+ * ```
+ */
+export function evaluateExpression(
+    source: string | ExpressionNode,
+    angleMode: AngleMode = 'deg',
+    functions: FunctionRegistry = new FunctionRegistry(),
+): Decimal {
+    const node = typeof source === 'string' ? parseExpression(source, functions) : source;
+
+    const evaluate = (operand: ExpressionNode): Decimal => evaluateExpression(operand, angleMode, functions);
+
+    switch (node.kind) {
+        case 'number':
+            return node.value;
+        case 'constant':
+            return constantValue(node.name);
+        case 'negate':
+            return evaluate(node.operand).negated();
+        case 'binary':
+            return evaluateChain(node, evaluate);
+        case 'percent': {
+            const operand = evaluate(node.operand);
+            return atPosition(node.position, () => operand.dividedBy(ONE_HUNDRED));
+        }
+        case 'function': {
+            const argument = evaluate(node.argument);
+            return atPosition(node.position, () => applyFunction(node.name, argument, angleMode));
+        }
+        case 'custom': {
+            const argument = evaluate(node.argument);
+            return atPosition(node.position, () => functions.apply(node.name, argument));
+        }
+    }
+}
+
+type BinaryNode = Extract<ExpressionNode, { kind: 'binary' }>;
+
+/**
+ * Evaluates a binary node and the binary nodes down its left side
+ *
+ * "1+2+3" parses as ((1+2)+3); walking the left side in a loop rather than
+ * recursing keeps formulas with thousands of terms from overflowing the
+ * call stack. Right operands are nested at most MAX_NESTING levels deep.
+ */
+function evaluateChain(node: BinaryNode, evaluate: (operand: ExpressionNode) => Decimal): Decimal {
+    const chain: BinaryNode[] = [];
+    let first: ExpressionNode = node;
+    while (first.kind === 'binary') {
+        chain.push(first);
+        first = first.left;
+    }
+
+    return chain.reduceRight((left, link) => {
+        const right = evaluate(link.right);
+        return atPosition(link.position, () => applyOperator(link.operator, left, right));
+    }, evaluate(first));
+}
+
+/**
+ * Runs one operation, holding its result to the calculator's range and
+ * reporting a failure at the operation's position
+ */
+function atPosition(position: number, calculate: () => Decimal): Decimal {
+    try {
+        return checkRange(calculate());
+    } catch (error) {
+        const cause = toCalculatorError(error);
+        throw new ExpressionError(cause.message, position, cause.code);
+    }
+}
+
+function applyOperator(operator: ExpressionOperator, left: Decimal, right: Decimal): Decimal {
+    switch (operator) {
+        case '+':
+            return left.plus(right);
+        case '-':
+            return left.minus(right);
+        case '*':
+            return left.times(right);
+        case '/':
+            return left.dividedBy(right);
+        case '^':
+            return power(left, right);
+    }
+}
+
+/**
+ * Splits a formula into numbers, names and operator symbols
+ *
+ * @throws {ExpressionError} On a character that cannot start a token
+ */
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let index = 0;
+
+    while (index < source.length) {
+        const char = source[index];
+
+        if (/\s/.test(char)) {
+            index++;
+            continue;
+        }
+
+        NUMBER_PATTERN.lastIndex = index;
+        IDENTIFIER_PATTERN.lastIndex = index;
+        const number = NUMBER_PATTERN.exec(source);
+        const identifier = number ? null : IDENTIFIER_PATTERN.exec(source);
+
+        if (number) {
+            tokens.push({ kind: 'number', text: number[0], position: index });
+            index += number[0].length;
+        } else if (identifier) {
+            tokens.push({ kind: 'identifier', text: identifier[0], position: index });
+            index += identifier[0].length;
+        } else if (source.startsWith('**', index)) {
+            tokens.push({ kind: 'symbol', text: '^', position: index });
+            index += 2;
+        } else if (SYMBOLS.includes(SYMBOL_ALIASES[char] ?? char)) {
+            tokens.push({ kind: 'symbol', text: SYMBOL_ALIASES[char] ?? char, position: index });
+            index++;
+        } else {
+            throw new ExpressionError(`Unexpected character "${char}"`, index);
+        }
+    }
+
+    tokens.push({ kind: 'end', text: '', position: source.length });
+    return tokens;
+}
+
+/**
+ * Recursive-descent parser over a token list (see the grammar at the top of this file)
+ */
+class Parser {
+    private index = 0;
+    private depth = 0;
+
+    constructor(private readonly tokens: readonly Token[], private readonly functions: FunctionRegistry) {}
+
+    public parse(): ExpressionNode {
+        if (this.peek().kind === 'end') {
+            throw new ExpressionError('Empty expression', 0);
+        }
+
+        const node = this.parseAdditive();
+        if (this.peek().kind !== 'end') {
+            throw this.unexpected(this.peek());
+        }
+        return node;
+    }
+
+    private parseAdditive(): ExpressionNode {
+        let left = this.parseMultiplicative();
+
+        while (this.isSymbol('+') || this.isSymbol('-')) {
+            const token = this.next();
+            const right = this.parseMultiplicative();
+            left = { kind: 'binary', operator: token.text as ExpressionOperator, left, right, position: token.position };
+        }
+
+        return left;
+    }
+
+    private parseMultiplicative(): ExpressionNode {
+        let left = this.parseUnary();
+
+        for (;;) {
+            if (this.isSymbol('*') || this.isSymbol('/')) {
+                const token = this.next();
+                const right = this.parseUnary();
+                left = { kind: 'binary', operator: token.text as ExpressionOperator, left, right, position: token.position };
+            } else if (this.startsOperand()) {
+                // Implicit multiplication: 2π, 2(3+4), (1+2)(3+4), 2 sin(30)
+                const position = this.peek().position;
+                left = { kind: 'binary', operator: '*', left, right: this.parsePower(), position };
+            } else if (this.peek().kind === 'number') {
+                // Two numbers in a row ("2 3", "12 34") are a typo, not a product
+                throw new ExpressionError('Missing operator', this.peek().position);
+            } else {
+                return left;
+            }
+        }
+    }
+
+    private parseUnary(): ExpressionNode {
+        if (this.isSymbol('-')) {
+            const token = this.next();
+            return { kind: 'negate', operand: this.nested(token, () => this.parseUnary()), position: token.position };
+        }
+        if (this.isSymbol('+')) {
+            return this.nested(this.next(), () => this.parseUnary());
+        }
+        return this.parsePower();
+    }
+
+    private parsePower(): ExpressionNode {
+        const base = this.parsePostfix();
+
+        if (this.isSymbol('^')) {
+            const token = this.next();
+            const exponent = this.nested(token, () => this.parseUnary());
+            return { kind: 'binary', operator: '^', left: base, right: exponent, position: token.position };
+        }
+
+        return base;
+    }
+
+    private parsePostfix(): ExpressionNode {
+        let node = this.parsePrimary();
+
+        while (this.isSymbol('!') || this.isSymbol('%')) {
+            const token = this.next();
+            node = token.text === '!'
+                ? { kind: 'function', name: 'factorial', argument: node, position: token.position }
+                : { kind: 'percent', operand: node, position: token.position };
+        }
+
+        return node;
+    }
+
+    private parsePrimary(): ExpressionNode {
+        const token = this.next();
+
+        if (token.kind === 'number') {
+            try {
+                return { kind: 'number', value: Decimal.parse(token.text), position: token.position };
+            } catch (error) {
+                const cause = toCalculatorError(error);
+                throw new ExpressionError(cause.message, token.position, cause.code);
+            }
+        }
+
+        if (token.kind === 'identifier') {
+            const name = token.text === 'π' ? token.text : token.text.toLowerCase();
+            if (CONSTANT_NAMES[name]) {
+                return { kind: 'constant', name: CONSTANT_NAMES[name], position: token.position };
+            }
+            if (FUNCTION_NAMES[name]) {
+                const argument = this.nested(token, () => this.parsePrimary());
+                return { kind: 'function', name: FUNCTION_NAMES[name], argument, position: token.position };
+            }
+            if (this.functions.find(name)) {
+                const argument = this.nested(token, () => this.parsePrimary());
+                return { kind: 'custom', name, argument, position: token.position };
+            }
+            throw new ExpressionError(`Unknown name "${token.text}"`, token.position);
+        }
+
+        if (token.text === '(') {
+            const inner = this.nested(token, () => this.parseAdditive());
+            if (!this.isSymbol(')')) {
+                throw this.peek().kind === 'end'
+                    ? new ExpressionError('Missing ")"', this.peek().position)
+                    : this.unexpected(this.peek());
+            }
+            this.next();
+            return inner;
+        }
+
+        throw this.unexpected(token);
+    }
+
+    /**
+     * Parses one level deeper, so that deeply nested input is reported
+     * rather than overflowing the call stack
+     *
+     * @param token - Token that opens the level, for the error position
+     */
+    private nested(token: Token, parse: () => ExpressionNode): ExpressionNode {
+        if (this.depth >= MAX_NESTING) {
+            throw new ExpressionError('Too deeply nested', token.position);
+        }
+
+        this.depth++;
+        try {
+            return parse();
+        } finally {
+            this.depth--;
+        }
+    }
+
+    /** True when the next token can begin an implicitly multiplied operand: a name or "(" */
+    private startsOperand(): boolean {
+        const token = this.peek();
+        return token.kind === 'identifier' || token.text === '(';
+    }
+
+    private isSymbol(text: string): boolean {
+        const token = this.peek();
+        return token.kind === 'symbol' && token.text === text;
+    }
+
+    private peek(): Token {
+        return this.tokens[this.index];
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.index];
+        if (token.kind !== 'end') {
+            this.index++;
+        }
+        return token;
+    }
+
+    private unexpected(token: Token): ExpressionError {
+        return token.kind === 'end'
+            ? new ExpressionError('Unexpected end of expression', token.position)
+            : new ExpressionError(`Unexpected "${token.text}"`, token.position);
+    }
+}
@@ -0,0 +1,250 @@
+/**
+ * Presentation of numbers on the display
+ *
+ * Two steps, both working on text so no precision is lost to floats:
+ *
+ *   1. formatDisplayNumber() fits the value into the display's digit budget,
+ *      rounding to as many significant digits as fit and switching to
+ *      exponent notation ("1.234568e9") only when plain notation cannot
+ *      show the number.
+ *   2. localizeNumber() applies the locale's separators, so de-DE shows
+ *      "1.234.567,89" and fr-FR "1 234 567,89". Digits are always Latin.
+ *
+ * Digits being typed are kept as they are (trailing "0" or "." included).
+ */
+
+import { Decimal } from './decimal.js';
+import { OverflowError } from './errors.js';
+import { CalculatorSettings } from './settings.js';
+
+/**
+ * Symbols a locale uses when writing numbers
+ */
+export interface NumberSymbols {
+    readonly decimal: string;
+    readonly group: string;
+    readonly minusSign: string;
+}
+
+/** Plain number text as produced by the engine or by the display formatter */
+const NUMBER_TEXT = /^(-?)(\d+)(?:\.(\d*))?(e[+-]?\d+)?$/;
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+/**
+ * Fits a number into a display that shows at most maxDigits characters
+ *
+ * Digits, the "e" and the exponent's sign count towards the budget; the
+ * minus sign, the decimal point and group separators do not, as they are
+ * narrow. Text that already fits is returned unchanged. Otherwise the value
+ * is rounded half away from zero to the most significant digits that fit,
+ * in plain notation when that shows at least as many digits as exponent
+ * notation would, and trailing fraction zeros are dropped.
+ *
+ * @param text - Plain number text such as "-1234567890" or "0.0000001"
+ * @param maxDigits - Characters the display has room for
+ *
+ * @example
+ * ```typescript
+ * formatDisplayNumber('1234567890', 9);  // "1.234568e9"
+ * formatDisplayNumber('999999999.5', 9); // "1e9"
+ * formatDisplayNumber('0.0000001', 9);   // "0.0000001"
+ * formatDisplayNumber('0.6666666666666666666666666666666667', 9); // "0.66666667"
+ * ```
+ */
+export function formatDisplayNumber(text: string, maxDigits: number): string {
+    const match = NUMBER_TEXT.exec(text);
+    if (!match || match[4] === undefined && countDigits(text) <= maxDigits) {
+        return text;
+    }
+
+    const value = Decimal.parse(text);
+    if (value.isZero()) {
+        return '0';
+    }
+
+    // Plain notation: leading zeros of small numbers use up the budget
+    const exponent = value.exponent();
+    const plainDigits = exponent >= 0 ? maxDigits : maxDigits + exponent;
+    const significantDigits = value.coefficient.toString().replace('-', '').length;
+
+    if (plainDigits >= 1 && (plainDigits >= significantDigits || plainDigits >= exponentDigits(exponent, maxDigits))) {
+        const rounded = value.toSignificantDigits(plainDigits);
+        if (rounded.exponent() < maxDigits) {
+            return rounded.toString();
+        }
+    }
+
+    return toExponentNotation(value, maxDigits);
+}
+
+/**
+ * Looks up the decimal mark, group separator and minus sign of a locale
+ *
+ * @param locale - BCP 47 locale tag; an empty string uses the browser default
+ *
+ * @example
+ * ```typescript
+ * getNumberSymbols('de-DE'); // { decimal: ',', group: '.', minusSign: '-' }
+ * ```
+ */
+export function getNumberSymbols(locale: string): NumberSymbols {
+    const parts = numberFormat(locale, true).formatToParts(-12345.6);
+    const symbol = (type: string, fallback: string): string =>
+        parts.find((part) => part.type === type)?.value ?? fallback;
+
+    return {
+        decimal: symbol('decimal', '.'),
+        group: symbol('group', ','),
+        minusSign: symbol('minusSign', '-'),
+    };
+}
+
+/**
+ * Rewrites plain number text with the locale's separators
+ *
+ * Text that is not a plain number (such as "Error") is returned unchanged.
+ * Exponents are kept in "e9" form.
+ *
+ * @param text - Number such as "-1234567.5", "12." or "1.234568e9"
+ * @param settings - Locale and grouping preference
+ *
+ * @example
+ * ```typescript
+ * localizeNumber('1234567.5', { locale: 'de-DE', useGrouping: true }); // "1.234.567,5"
+ * localizeNumber('12.', { locale: 'de-DE', useGrouping: true });       // "12,"
+ * ```
+ */
+export function localizeNumber(text: string, settings: Pick<CalculatorSettings, 'locale' | 'useGrouping'>): string {
+    const match = NUMBER_TEXT.exec(text);
+    if (!match) {
+        return text;
+    }
+
+    const [, sign, integer, fraction, exponent] = match;
+    const symbols = getNumberSymbols(settings.locale);
+    const grouped = numberFormat(settings.locale, settings.useGrouping).format(BigInt(integer));
+
+    return (sign ? symbols.minusSign : '')
+        + grouped
+        + (fraction !== undefined ? symbols.decimal + fraction : '')
+        + (exponent ?? '');
+}
+
+/** Characters of plain number text that count towards the display budget */
+function countDigits(text: string): number {
+    return text.replace(/[-.]/g, '').length;
+}
+
+/** Mantissa digits left over once exponent notation's "e-12" has been written */
+function exponentDigits(exponent: number, maxDigits: number): number {
+    return Math.max(1, maxDigits - 1 - String(exponent).length);
+}
+
+/**
+ * Writes a value as mantissa and exponent ("-1.5e-12"), rounded to fit the budget
+ */
+function toExponentNotation(value: Decimal, maxDigits: number): string {
+    let rounded = value.toSignificantDigits(exponentDigits(value.exponent(), maxDigits));
+
+    // Rounding up can add an exponent digit (9.99e99 → 1e100), leaving less room
+    const exponent = rounded.exponent();
+    rounded = rounded.toSignificantDigits(exponentDigits(exponent, maxDigits));
+
+    const mantissa = Decimal.of(rounded.coefficient, rounded.scale + exponent);
+    return `${mantissa.toString()}e${exponent}`;
+}
+
+/**
+ * Reads a pasted number written with grouping, currency or locale symbols
+ *
+ * Currency symbols and codes, spaces and apostrophes are removed and
+ * accounting parentheses mean a negative amount. When both "," and "."
+ * appear the last one is the decimal mark; a lone mark is the locale's
+ * decimal mark unless it is a different symbol followed by exactly three
+ * digits, which makes it a group separator ("1,234" is 1234 in en-US,
+ * "1.234" is 1234 in de-DE).
+ *
+ * @param text - Clipboard text such as "$1,234.50" or "-1.234,5 €"
+ * @param locale - BCP 47 locale tag; an empty string uses the browser default
+ * @returns Plain number text ("1234.5"), or null when the text is not a number
+ *          or is too large for the calculator
+ *
+ * @example
+ * ```typescript
+ * parseNumberText('$1,234.50', 'en-US'); // "1234.5"
+ * parseNumberText('1.234,5 €', 'de-DE'); // "1234.5"
+ * parseNumberText('(12.00)', 'en-US');   // "-12"
+ * parseNumberText('12 apples', 'en-US'); // null
+ * ```
+ */
+export function parseNumberText(text: string, locale: string): string | null {
+    let cleaned = text
+        .trim()
+        .replace(/^[A-Z]{3}(?=[\s\d(+\-−.,])|(?<=[\d\s)])[A-Z]{3}$/g, '')   // ISO currency codes
+        .replace(/[\p{Sc}\s'’_]/gu, '')
+        .replace(/[−–]/g, '-');
+
+    const accounting = /^\((.*)\)$/.exec(cleaned);
+    if (accounting) {
+        cleaned = `-${accounting[1]}`;
+    }
+
+    const marks = cleaned.match(/[.,]/g) ?? [];
+    const lastMark = cleaned.search(/[.,][^.,]*$/);
+    let decimalIndex = -1;
+
+    if (new Set(marks).size > 1) {
+        decimalIndex = lastMark;
+    } else if (marks.length === 1) {
+        const isGroup = marks[0] !== getNumberSymbols(locale).decimal && /^\d{3}(?:\D|$)/.test(cleaned.slice(lastMark + 1));
+        decimalIndex = isGroup ? -1 : lastMark;
+    }
+
+    // Group separators must each be followed by a group of 3 digits (or 2, in locales that group lakhs like en-IN)
+    const groupIndexes = [...cleaned].flatMap((char, index) => ((char === '.' || char === ',') && index !== decimalIndex ? [index] : []));
+    const group = groupsInTwos(locale) ? /^\d{2,3}(?:[.,]|$)/ : /^\d{3}(?:[.,]|$)/;
+    if (groupIndexes.some((index) => !group.test(cleaned.slice(index + 1)))) {
+        return null;
+    }
+
+    const plain = [...cleaned]
+        .map((char, index) => (index === decimalIndex ? '.' : groupIndexes.includes(index) ? '' : char))
+        .join('');
+
+    if (!/^[+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?$/i.test(plain)) {
+        return null;
+    }
+
+    try {
+        return Decimal.parse(plain).toString();
+    } catch (error) {
+        if (error instanceof OverflowError) {
+            return null;    // Too large to be a calculator value, e.g. "1e999999999"
+        }
+        throw error;
+    }
+}
+
+/**
+ * True for locales that group digits in twos above the thousands, e.g. en-IN ("12,34,567")
+ */
+function groupsInTwos(locale: string): boolean {
+    const groups = numberFormat(locale, true).formatToParts(1234567).filter((part) => part.type === 'integer');
+    return groups.length > 2 && groups[1].value.length === 2;
+}
+
+/**
+ * Integer formatter for a locale, cached because display updates happen on every key
+ */
+function numberFormat(locale: string, useGrouping: boolean): Intl.NumberFormat {
+    const key = `${locale}|${useGrouping}`;
+    let formatter = formatters.get(key);
+
+    if (!formatter) {
+        formatter = new Intl.NumberFormat(locale || undefined, { useGrouping, numberingSystem: 'latn' });
+        formatters.set(key, formatter);
+    }
+
+    return formatter;
+}
@@ -0,0 +1,81 @@
+/**
+ * Paper tape: completed calculations and their plain-text/CSV export
+ */
+
+import { Decimal } from './decimal.js';
+
+/**
+ * One completed calculation on the paper tape
+ */
+export interface TapeEntry {
+    readonly expression: string;
+    readonly result: Decimal;
+}
+
+/**
+ * Formats a tape entry the way it is printed on the tape ("2 × 3 = 6")
+ *
+ * @param entry - The entry to format
+ */
+export function formatTapeEntry(entry: TapeEntry): string {
+    return `${entry.expression} = ${entry.result.toString()}`;
+}
+
+/**
+ * Exports the tape as plain text, one calculation per line
+ *
+ * @param entries - Tape entries, oldest first
+ *
+ * @example
+ * ```typescript
+ * formatTapeAsText(state.tape); // "2 × 3 = 6\n6 + 1 = 7\n"
+ * ```
+ */
+export function formatTapeAsText(entries: readonly TapeEntry[]): string {
+    return entries.map((entry) => formatTapeEntry(entry) + '\n').join('');
+}
+
+/**
+ * Exports the tape as CSV with an expression and a result column
+ *
+ * Fields are quoted per RFC 4180 when they contain commas, quotes or line breaks.
+ * Typed or pasted expressions that start with =, +, -, @, a tab or a
+ * carriage return are prefixed with ' so spreadsheets show them as text
+ * instead of running them as formulas.
+ *
+ * @param entries - Tape entries, oldest first
+ */
+export function formatTapeAsCsv(entries: readonly TapeEntry[]): string {
+    const rows = [
+        ['expression', 'result'],
+        ...entries.map((entry) => [escapeFormula(entry.expression), entry.result.toString()]),
+    ];
+    return rows.map((row) => row.map(quoteCsvField).join(',') + '\r\n').join('');
+}
+
+/**
+ * Joins expression tokens, keeping parentheses tight against their contents
+ *
+ * @param tokens - Operands, operator symbols and parentheses
+ *
+ * @example
+ * ```typescript
+ * joinExpression(['2', '×', '(', '3', '+', '4', ')']); // "2 × (3 + 4)"
+ * ```
+ */
+export function joinExpression(tokens: readonly string[]): string {
+    return tokens.reduce((text, token, index) => {
+        const previous = tokens[index - 1];
+        const tight = index === 0 || previous === '(' || token === ')';
+        return text + (tight ? '' : ' ') + token;
+    }, '');
+}
+
+/** Keeps a spreadsheet from reading text such as "=HYPERLINK(…)" as a formula */
+function escapeFormula(field: string): string {
+    return /^[=+\-@\t\r]/.test(field) ? `'${field}` : field;
+}
+
+function quoteCsvField(field: string): string {
+    return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
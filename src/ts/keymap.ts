@@ -0,0 +1,397 @@
+/**
+ * Keyboard shortcuts: a declarative, remappable keymap
+ *
+ * A keymap is an ordered list of bindings from a shortcut to a command.
+ * The first binding that matches a key press and applies in the current
+ * mode wins, so user bindings are placed before DEFAULT_KEYMAP and
+ * Programmer-only bindings before the general ones ('c' is the hex digit C
+ * in HEX and Clear everywhere else).
+ *
+ * Shortcuts are written as modifiers and a key joined by '+':
+ *
+ *   "Escape"        The key as reported by KeyboardEvent.key
+ *   "Mod+Z"         Mod is ⌘ on a Mac keyboard and Ctrl elsewhere (either is accepted)
+ *   "Mod+Shift+Z"   Shift must match when another modifier is held
+ *   "Ctrl+L"        Ctrl only, never ⌘
+ *   "Alt+-"         Alt (⌥) shortcuts match the physical key, since ⌥ changes the character
+ *   "+"             Typed characters ignore Shift, which the layout may need to type them
+ */
+
+import { CalculatorAction, CalculatorMode } from './engine.js';
+import { NumberBase } from './programmer.js';
+
+/**
+ * Digits that can be typed, including the hex digits of Programmer mode
+ */
+type DigitKey = '0' | '1' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | 'A' | 'B' | 'C' | 'D' | 'E' | 'F';
+
+/**
+ * Something a shortcut can do; 'none' disables a default shortcut
+ */
+export type KeyCommand =
+    | `digit${DigitKey}`
+    | 'decimal' | 'equals' | 'clear' | 'allClear' | 'backspace' | 'negate' | 'percent'
+    | 'add' | 'subtract' | 'multiply' | 'divide'
+    | 'openParen' | 'closeParen' | 'power' | 'factorial'
+    | 'sin' | 'cos' | 'tan' | 'ln' | 'log10' | 'sqrt' | 'reciprocal' | 'pi'
+    | 'and' | 'or' | 'xor' | 'not' | 'shiftLeft' | 'shiftRight'
+    | 'memoryClear' | 'memoryAdd' | 'memorySubtract' | 'memoryRecall'
+    | 'basicMode' | 'scientificMode' | 'programmerMode'
+    | 'undo' | 'redo' | 'editExpression' | 'showShortcuts'
+    | 'none';
+
+/**
+ * Where a binding applies: a mode, or 'hex' for Programmer mode showing base 16
+ */
+export type KeyContext = CalculatorMode | 'hex';
+
+/**
+ * A shortcut and the command it runs
+ */
+export interface KeyBinding {
+    /** Shortcut such as "Mod+Shift+Z" */
+    readonly keys: string;
+    readonly command: KeyCommand;
+    /** Restricts the binding to one mode; bindings without a context apply everywhere */
+    readonly context?: KeyContext;
+}
+
+/**
+ * A parsed shortcut
+ */
+export interface Shortcut {
+    readonly key: string;
+    readonly mod: boolean;
+    readonly ctrl: boolean;
+    readonly meta: boolean;
+    readonly alt: boolean;
+    readonly shift: boolean;
+}
+
+/**
+ * The parts of a key press a shortcut is matched against
+ */
+export type KeyPress = Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>;
+
+/** Command groups in the order the shortcut help lists them */
+export const KEY_COMMAND_GROUPS = ['Entry', 'Operators', 'Functions', 'Programmer', 'Memory', 'Calculator'] as const;
+
+/**
+ * Help text and group of every command
+ */
+export const KEY_COMMANDS: Readonly<Record<KeyCommand, { label: string; group: typeof KEY_COMMAND_GROUPS[number] }>> = {
+    digit0: { label: 'Digit 0', group: 'Entry' },
+    digit1: { label: 'Digit 1', group: 'Entry' },
+    digit2: { label: 'Digit 2', group: 'Entry' },
+    digit3: { label: 'Digit 3', group: 'Entry' },
+    digit4: { label: 'Digit 4', group: 'Entry' },
+    digit5: { label: 'Digit 5', group: 'Entry' },
+    digit6: { label: 'Digit 6', group: 'Entry' },
+    digit7: { label: 'Digit 7', group: 'Entry' },
+    digit8: { label: 'Digit 8', group: 'Entry' },
+    digit9: { label: 'Digit 9', group: 'Entry' },
+    digitA: { label: 'Hex digit A', group: 'Programmer' },
+    digitB: { label: 'Hex digit B', group: 'Programmer' },
+    digitC: { label: 'Hex digit C', group: 'Programmer' },
+    digitD: { label: 'Hex digit D', group: 'Programmer' },
+    digitE: { label: 'Hex digit E', group: 'Programmer' },
+    digitF: { label: 'Hex digit F', group: 'Programmer' },
+    decimal: { label: 'Decimal point', group: 'Entry' },
+    equals: { label: 'Calculate the result', group: 'Entry' },
+    clear: { label: 'Clear the entry (C), then all (AC)', group: 'Entry' },
+    allClear: { label: 'All clear (AC)', group: 'Entry' },
+    backspace: { label: 'Delete the last digit', group: 'Entry' },
+    negate: { label: 'Change sign (+/−)', group: 'Entry' },
+    percent: { label: 'Percentage', group: 'Operators' },
+    add: { label: 'Add', group: 'Operators' },
+    subtract: { label: 'Subtract', group: 'Operators' },
+    multiply: { label: 'Multiply', group: 'Operators' },
+    divide: { label: 'Divide', group: 'Operators' },
+    openParen: { label: 'Open parenthesis', group: 'Operators' },
+    closeParen: { label: 'Close parenthesis', group: 'Operators' },
+    power: { label: 'Power (xʸ)', group: 'Operators' },
+    factorial: { label: 'Factorial (x!)', group: 'Functions' },
+    sin: { label: 'Sine', group: 'Functions' },
+    cos: { label: 'Cosine', group: 'Functions' },
+    tan: { label: 'Tangent', group: 'Functions' },
+    ln: { label: 'Natural logarithm', group: 'Functions' },
+    log10: { label: 'Common logarithm', group: 'Functions' },
+    sqrt: { label: 'Square root', group: 'Functions' },
+    reciprocal: { label: 'Reciprocal (1/x)', group: 'Functions' },
+    pi: { label: 'π', group: 'Functions' },
+    and: { label: 'AND', group: 'Programmer' },
+    or: { label: 'OR', group: 'Programmer' },
+    xor: { label: 'XOR', group: 'Programmer' },
+    not: { label: 'NOT', group: 'Programmer' },
+    shiftLeft: { label: 'Shift left', group: 'Programmer' },
+    shiftRight: { label: 'Shift right', group: 'Programmer' },
+    memoryClear: { label: 'Memory clear (MC)', group: 'Memory' },
+    memoryAdd: { label: 'Memory add (M+)', group: 'Memory' },
+    memorySubtract: { label: 'Memory subtract (M−)', group: 'Memory' },
+    memoryRecall: { label: 'Memory recall (MR)', group: 'Memory' },
+    basicMode: { label: 'Basic mode', group: 'Calculator' },
+    scientificMode: { label: 'Scientific mode', group: 'Calculator' },
+    programmerMode: { label: 'Programmer mode', group: 'Calculator' },
+    undo: { label: 'Undo', group: 'Calculator' },
+    redo: { label: 'Redo', group: 'Calculator' },
+    editExpression: { label: 'Type an expression', group: 'Calculator' },
+    showShortcuts: { label: 'Show keyboard shortcuts', group: 'Calculator' },
+    none: { label: 'Nothing', group: 'Calculator' },
+};
+
+/**
+ * Engine actions run by commands; the other commands are handled by the view
+ */
+const COMMAND_ACTIONS: Partial<Readonly<Record<KeyCommand, CalculatorAction>>> = {
+    ...Object.fromEntries('0123456789ABCDEF'.split('').map((digit) => [`digit${digit}`, { type: 'digit', digit }])),
+    decimal: { type: 'decimal' },
+    equals: { type: 'equals' },
+    allClear: { type: 'clear' },
+    backspace: { type: 'backspace' },
+    negate: { type: 'negate' },
+    percent: { type: 'percent' },
+    add: { type: 'operator', operator: '+' },
+    subtract: { type: 'operator', operator: '-' },
+    multiply: { type: 'operator', operator: '*' },
+    divide: { type: 'operator', operator: '/' },
+    openParen: { type: 'openParen' },
+    closeParen: { type: 'closeParen' },
+    power: { type: 'operator', operator: 'pow' },
+    factorial: { type: 'function', name: 'factorial' },
+    sin: { type: 'function', name: 'sin' },
+    cos: { type: 'function', name: 'cos' },
+    tan: { type: 'function', name: 'tan' },
+    ln: { type: 'function', name: 'ln' },
+    log10: { type: 'function', name: 'log10' },
+    sqrt: { type: 'function', name: 'sqrt' },
+    reciprocal: { type: 'function', name: 'reciprocal' },
+    pi: { type: 'constant', name: 'pi' },
+    and: { type: 'operator', operator: 'and' },
+    or: { type: 'operator', operator: 'or' },
+    xor: { type: 'operator', operator: 'xor' },
+    not: { type: 'bitwiseNot' },
+    shiftLeft: { type: 'operator', operator: 'shl' },
+    shiftRight: { type: 'operator', operator: 'shr' },
+    memoryClear: { type: 'memoryClear' },
+    memoryAdd: { type: 'memoryAdd' },
+    memorySubtract: { type: 'memorySubtract' },
+    memoryRecall: { type: 'memoryRecall' },
+};
+
+/**
+ * Built-in shortcuts, following macOS Calculator where it has one
+ */
+export const DEFAULT_KEYMAP: readonly KeyBinding[] = [
+    // Programmer mode first, so its keys win over the general ones
+    ...'ABCDEF'.split('').map((digit): KeyBinding => ({ keys: digit, command: `digit${digit as DigitKey}`, context: 'hex' })),
+    { keys: '&', command: 'and', context: 'programmer' },
+    { keys: '|', command: 'or', context: 'programmer' },
+    { keys: '^', command: 'xor', context: 'programmer' },
+    { keys: '~', command: 'not', context: 'programmer' },
+    { keys: '<', command: 'shiftLeft', context: 'programmer' },
+    { keys: '>', command: 'shiftRight', context: 'programmer' },
+
+    // Scientific functions
+    { keys: 's', command: 'sin', context: 'scientific' },
+    { keys: 'o', command: 'cos', context: 'scientific' },
+    { keys: 't', command: 'tan', context: 'scientific' },
+    { keys: 'l', command: 'ln', context: 'scientific' },
+    { keys: 'g', command: 'log10', context: 'scientific' },
+    { keys: 'q', command: 'sqrt', context: 'scientific' },
+    { keys: 'r', command: 'reciprocal', context: 'scientific' },
+    { keys: 'p', command: 'pi', context: 'scientific' },
+
+    ...'0123456789'.split('').map((digit): KeyBinding => ({ keys: digit, command: `digit${digit as DigitKey}` })),
+    { keys: '.', command: 'decimal' },
+    { keys: 'Enter', command: 'equals' },
+    { keys: '=', command: 'equals' },
+    { keys: 'Escape', command: 'clear' },
+    { keys: 'c', command: 'clear' },
+    { keys: 'Alt+Escape', command: 'allClear' },
+    { keys: 'Backspace', command: 'backspace' },
+    { keys: 'Delete', command: 'backspace' },
+    { keys: 'Alt+-', command: 'negate' },
+    { keys: '%', command: 'percent' },
+    { keys: '+', command: 'add' },
+    { keys: '-', command: 'subtract' },
+    { keys: '*', command: 'multiply' },
+    { keys: '/', command: 'divide' },
+    { keys: '(', command: 'openParen' },
+    { keys: ')', command: 'closeParen' },
+    { keys: '^', command: 'power' },
+    { keys: '!', command: 'factorial' },
+
+    // Alt rather than Ctrl: Ctrl+L/P/Q/R are the browser's address bar, print, quit and reload outside macOS
+    { keys: 'Alt+L', command: 'memoryClear' },
+    { keys: 'Alt+P', command: 'memoryAdd' },
+    { keys: 'Alt+Q', command: 'memorySubtract' },
+    { keys: 'Alt+R', command: 'memoryRecall' },
+
+    { keys: 'Mod+1', command: 'basicMode' },
+    { keys: 'Mod+2', command: 'scientificMode' },
+    { keys: 'Mod+3', command: 'programmerMode' },
+    { keys: 'Mod+Z', command: 'undo' },
+    { keys: 'Mod+Shift+Z', command: 'redo' },
+    { keys: 'Mod+E', command: 'editExpression' },
+    { keys: '?', command: 'showShortcuts' },
+];
+
+/**
+ * Physical keys whose Alt shortcuts are matched by KeyboardEvent.code
+ */
+const ALT_KEY_CODES: Readonly<Record<string, string>> = {
+    Minus: '-',
+    Equal: '=',
+    Period: '.',
+    Slash: '/',
+};
+
+/**
+ * Checks that a value names a command
+ */
+export function isKeyCommand(value: unknown): value is KeyCommand {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(KEY_COMMANDS, value);
+}
+
+/**
+ * The engine action a command runs, or null for commands handled by the view
+ *
+ * @example
+ * ```typescript
+ * commandAction('add');  // { type: 'operator', operator: '+' }
+ * commandAction('undo'); // null
+ * ```
+ */
+export function commandAction(command: KeyCommand): CalculatorAction | null {
+    return COMMAND_ACTIONS[command] ?? null;
+}
+
+/**
+ * Splits a shortcut into its modifiers and key
+ *
+ * @throws {Error} When there is no key or a modifier is unknown
+ *
+ * @example
+ * ```typescript
+ * parseShortcut('Mod+Shift+Z'); // { key: 'z', mod: true, shift: true, … }
+ * parseShortcut('+');           // { key: '+', … }
+ * ```
+ */
+export function parseShortcut(keys: string): Shortcut {
+    const match = /^((?:[A-Za-z]+\+)*)(.+)$/.exec(keys);
+    if (!match) {
+        throw new Error(`Invalid shortcut: "${keys}"`);
+    }
+
+    const modifiers = match[1].split('+').filter(Boolean).map((modifier) => modifier.toLowerCase());
+    const unknown = modifiers.find((modifier) => !['mod', 'ctrl', 'cmd', 'meta', 'alt', 'option', 'shift'].includes(modifier));
+    if (unknown) {
+        throw new Error(`Unknown modifier "${unknown}" in shortcut "${keys}"`);
+    }
+
+    return {
+        key: normalizeKey(match[2]),
+        mod: modifiers.includes('mod'),
+        ctrl: modifiers.includes('ctrl'),
+        meta: modifiers.includes('cmd') || modifiers.includes('meta'),
+        alt: modifiers.includes('alt') || modifiers.includes('option'),
+        shift: modifiers.includes('shift'),
+    };
+}
+
+/**
+ * Whether a key press matches a shortcut
+ *
+ * @example
+ * ```typescript
+ * matchesShortcut(parseShortcut('Mod+Z'), { key: 'z', metaKey: true, … }); // true
+ * ```
+ */
+export function matchesShortcut(shortcut: Shortcut, press: KeyPress): boolean {
+    const alt = press.altKey && ALT_KEY_CODES[press.code] !== undefined ? ALT_KEY_CODES[press.code] : null;
+    const letter = press.altKey ? /^Key([A-Z])$/.exec(press.code)?.[1] : undefined;
+    const key = normalizeKey(alt ?? letter ?? press.key);
+
+    if (key !== shortcut.key || press.altKey !== shortcut.alt) {
+        return false;
+    }
+
+    // Mod accepts either Ctrl or ⌘, but not both
+    const modifierMatches = shortcut.mod
+        ? press.ctrlKey !== press.metaKey
+        : press.ctrlKey === shortcut.ctrl && press.metaKey === shortcut.meta;
+    if (!modifierMatches) {
+        return false;
+    }
+
+    // Shift is part of a shortcut only with other modifiers or on named keys (Shift+Enter)
+    const shiftMatters = shortcut.mod || shortcut.ctrl || shortcut.meta || shortcut.alt || key.length > 1;
+    return !shiftMatters || press.shiftKey === shortcut.shift;
+}
+
+/**
+ * Finds the command a key press runs in the current mode
+ *
+ * @param keymap - Bindings in priority order
+ * @param press - The key press
+ * @param context - Mode and base the calculator is in
+ * @returns The first matching command, or null when the key is not bound
+ */
+export function findCommand(
+    keymap: readonly KeyBinding[],
+    press: KeyPress,
+    context: { mode: CalculatorMode; base: NumberBase },
+): KeyCommand | null {
+    const binding = keymap.find((candidate) =>
+        appliesIn(candidate.context, context) && matchesShortcut(parseShortcut(candidate.keys), press));
+
+    return binding?.command ?? null;
+}
+
+/**
+ * Puts user bindings ahead of the defaults
+ *
+ * @param custom - Bindings the user added; bind a key to 'none' to disable it
+ */
+export function buildKeymap(custom: readonly KeyBinding[]): KeyBinding[] {
+    return [...custom, ...DEFAULT_KEYMAP];
+}
+
+/**
+ * Writes a shortcut the way the platform shows it
+ *
+ * @param keys - Shortcut such as "Mod+Shift+Z"
+ * @param apple - Whether to use Mac symbols
+ *
+ * @example
+ * ```typescript
+ * formatShortcut('Mod+Shift+Z', true);  // "⇧⌘Z"
+ * formatShortcut('Mod+Shift+Z', false); // "Ctrl+Shift+Z"
+ * ```
+ */
+export function formatShortcut(keys: string, apple: boolean): string {
+    const shortcut = parseShortcut(keys);
+    const key = shortcut.key.length === 1 ? shortcut.key.toUpperCase() : shortcut.key;
+    const named: Readonly<Record<string, string>> = apple
+        ? { Escape: 'esc', Enter: '↩', Backspace: '⌫', Delete: '⌦' }
+        : { Escape: 'Esc' };
+    const modifiers = apple
+        ? [shortcut.ctrl && '⌃', shortcut.alt && '⌥', shortcut.shift && '⇧', (shortcut.mod || shortcut.meta) && '⌘']
+        : [(shortcut.mod || shortcut.ctrl) && 'Ctrl', shortcut.meta && 'Win', shortcut.alt && 'Alt', shortcut.shift && 'Shift'];
+
+    const parts = [...modifiers.filter((modifier): modifier is string => Boolean(modifier)), named[key] ?? key];
+    return parts.join(apple ? '' : '+');
+}
+
+/** Whether a binding's context includes the calculator's current mode */
+function appliesIn(context: KeyContext | undefined, { mode, base }: { mode: CalculatorMode; base: NumberBase }): boolean {
+    if (context === 'hex') {
+        return mode === 'programmer' && base === 16;
+    }
+    return context === undefined || context === mode;
+}
+
+/** Single letters compare case-insensitively; named keys as written */
+function normalizeKey(key: string): string {
+    return key.length === 1 ? key.toLowerCase() : key;
+}
@@ -0,0 +1,856 @@
+/**
+ * Markup of one calculator: the window and its keyboard shortcut overlay
+ *
+ * Rendered into the page by the bootstrap in calculator.ts and into the
+ * shadow root of each <macos-calculator> element (see element.ts), so
+ * every instance is built from the same buttons and panels. The ids in
+ * it are unique within one instance; a shadow root keeps the ids of
+ * side-by-side instances apart.
+ */
+
+export const CALCULATOR_MARKUP = `
+<!-- Window with macOS traffic lights -->
+<div class="calculator-window" role="application" aria-label="Calculator">
+    <div class="window-toolbar">
+        <!-- Traffic lights -->
+        <div class="traffic-lights" role="presentation" aria-hidden="true">
+            <div class="traffic-light red" aria-label="Close button"></div>
+            <div class="traffic-light yellow" aria-label="Minimize button"></div>
+            <div class="traffic-light green" aria-label="Maximize button"></div>
+        </div>
+
+        <div class="toolbar-actions">
+            <!-- Mode switch -->
+            <div class="mode-switch" role="radiogroup" aria-label="Calculator mode">
+                <button class="mode-btn" 
+                        data-mode="basic" 
+                        role="radio" 
+                        aria-checked="true" 
+                        title="Basic (Ctrl/⌘ 1)">Basic</button>
+                <button class="mode-btn" 
+                        data-mode="scientific" 
+                        role="radio" 
+                        aria-checked="false" 
+                        title="Scientific (Ctrl/⌘ 2)">Scientific</button>
+                <button class="mode-btn" 
+                        data-mode="programmer" 
+                        role="radio" 
+                        aria-checked="false" 
+                        title="Programmer (Ctrl/⌘ 3)">Programmer</button>
+            </div>
+
+            <!-- Paper tape toggle -->
+            <button class="tape-toggle" 
+                    aria-pressed="false" 
+                    aria-controls="paper-tape" 
+                    title="Show paper tape">Tape</button>
+
+            <!-- Unit converter toggle -->
+            <button class="convert-toggle" 
+                    aria-pressed="false" 
+                    aria-controls="convert-panel" 
+                    title="Show unit converter">Convert</button>
+
+            <!-- Settings toggle -->
+            <button class="settings-toggle" 
+                    aria-pressed="false" 
+                    aria-controls="settings-panel" 
+                    aria-label="Settings" 
+                    title="Show settings">⚙︎</button>
+        </div>
+    </div>
+    
+    <!-- Display -->
+    <div class="display-container">
+        <span class="angle-indicator" aria-hidden="true">Rad</span>
+        <div id="display" 
+             class="display" 
+             role="textbox" 
+             aria-readonly="true" 
+             aria-label="Calculator display showing: 0"
+             tabindex="0"
+             title="Double-click to type an expression (Ctrl/⌘ E); right-click to copy or paste">0</div>
+        <input class="expression-input" 
+               type="text" 
+               aria-label="Expression" 
+               placeholder="12*(3+4)/7" 
+               autocomplete="off" 
+               spellcheck="false" 
+               hidden>
+        <p class="expression-error" role="alert" hidden></p>
+        <p class="announcer sr-only" role="status" aria-atomic="true"></p>
+
+        <!-- Display context menu -->
+        <div class="display-menu" role="menu" aria-label="Display" hidden>
+            <button class="display-menu-item" 
+                    role="menuitem" 
+                    data-command="copy" 
+                    title="Copy (Ctrl/⌘ C)">Copy</button>
+            <button class="display-menu-item" 
+                    role="menuitem" 
+                    data-command="paste" 
+                    title="Paste (Ctrl/⌘ V)">Paste</button>
+        </div>
+    </div>
+
+    <!-- Programmer settings and bit field -->
+    <div class="programmer-panel">
+        <div class="programmer-settings">
+            <div class="base-switch" role="radiogroup" aria-label="Number base">
+                <button class="base-btn" 
+                        data-base="16" 
+                        role="radio" 
+                        aria-checked="false" 
+                        title="Hexadecimal">HEX</button>
+                <button class="base-btn" 
+                        data-base="10" 
+                        role="radio" 
+                        aria-checked="true" 
+                        title="Decimal">DEC</button>
+                <button class="base-btn" 
+                        data-base="8" 
+                        role="radio" 
+                        aria-checked="false" 
+                        title="Octal">OCT</button>
+                <button class="base-btn" 
+                        data-base="2" 
+                        role="radio" 
+                        aria-checked="false" 
+                        title="Binary">BIN</button>
+            </div>
+
+            <select class="word-size-select" aria-label="Word size">
+                <option value="8">8-bit</option>
+                <option value="16">16-bit</option>
+                <option value="32">32-bit</option>
+                <option value="64" selected>64-bit</option>
+            </select>
+
+            <label class="signed-toggle">
+                <input type="checkbox" class="signed-checkbox" checked>
+                Signed
+            </label>
+        </div>
+
+        <div class="bit-field" role="group" aria-label="Bits of the displayed value"></div>
+    </div>
+    
+    <div class="keypad">
+        <!-- Programmer Panel -->
+        <div class="button-grid programmer-grid" role="grid" aria-label="Programmer functions">
+            <!-- Row 1 -->
+            <div class="grid-row" role="row">
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="operator" 
+                            data-value="and" 
+                            aria-label="Bitwise AND" 
+                            title="Bitwise AND (&amp;)">AND</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="operator" 
+                            data-value="or" 
+                            aria-label="Bitwise OR" 
+                            title="Bitwise OR (|)">OR</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="operator" 
+                            data-value="xor" 
+                            aria-label="Bitwise exclusive OR" 
+                            title="Bitwise XOR (^)">XOR</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="operator" 
+                            data-value="nand" 
+                            aria-label="Bitwise NAND" 
+                            title="Bitwise NAND">NAND</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="operator" 
+                            data-value="nor" 
+                            aria-label="Bitwise NOR" 
+                            title="Bitwise NOR">NOR</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="not" 
+                            aria-label="Bitwise NOT" 
+                            title="Invert all bits (~)">NOT</button>
+                </div>
+            </div>
+
+            <!-- Row 2 -->
+            <div class="grid-row" role="row">
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="operator" 
+                            data-value="shl" 
+                            aria-label="Shift left by y bits" 
+                            title="Shift left (&lt;)">X&lt;&lt;Y</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="operator" 
+                            data-value="shr" 
+                            aria-label="Shift right by y bits" 
+                            title="Shift right (&gt;)">X&gt;&gt;Y</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="operator" 
+                            data-value="rol" 
+                            aria-label="Rotate left by y bits" 
+                            title="Rotate left">RoL</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="operator" 
+                            data-value="ror" 
+                            aria-label="Rotate right by y bits" 
+                            title="Rotate right">RoR</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="paren" 
+                            data-value="(" 
+                            aria-label="Open parenthesis" 
+                            title="Open parenthesis (()">(</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="paren" 
+                            data-value=")" 
+                            aria-label="Close parenthesis" 
+                            title="Close parenthesis ())">)</button>
+                </div>
+            </div>
+
+            <!-- Row 3 -->
+            <div class="grid-row" role="row">
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-number" 
+                            data-type="number" 
+                            data-value="A" 
+                            aria-label="Hex digit A" 
+                            title="Hex digit A (a)">A</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-number" 
+                            data-type="number" 
+                            data-value="B" 
+                            aria-label="Hex digit B" 
+                            title="Hex digit B (b)">B</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-number" 
+                            data-type="number" 
+                            data-value="C" 
+                            aria-label="Hex digit C" 
+                            title="Hex digit C (c)">C</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-number" 
+                            data-type="number" 
+                            data-value="D" 
+                            aria-label="Hex digit D" 
+                            title="Hex digit D (d)">D</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-number" 
+                            data-type="number" 
+                            data-value="E" 
+                            aria-label="Hex digit E" 
+                            title="Hex digit E (e)">E</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-number" 
+                            data-type="number" 
+                            data-value="F" 
+                            aria-label="Hex digit F" 
+                            title="Hex digit F (f)">F</button>
+                </div>
+            </div>
+        </div>
+
+        <!-- Scientific Panel -->
+        <div class="button-grid scientific-grid" role="grid" aria-label="Scientific functions">
+            <!-- Row 1 -->
+            <div class="grid-row" role="row">
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="paren" 
+                            data-value="(" 
+                            aria-label="Open parenthesis" 
+                            title="Open parenthesis (()">(</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="paren" 
+                            data-value=")" 
+                            aria-label="Close parenthesis" 
+                            title="Close parenthesis ())">)</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="memory" 
+                            data-value="clear" 
+                            aria-label="Memory clear" 
+                            title="Clear memory (Alt+L)">mc</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="memory" 
+                            data-value="add" 
+                            aria-label="Memory add" 
+                            title="Add to memory (Alt+P)">m+</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="memory" 
+                            data-value="subtract" 
+                            aria-label="Memory subtract" 
+                            title="Subtract from memory (Alt+Q)">m−</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="memory" 
+                            data-value="recall" 
+                            aria-label="Memory recall" 
+                            title="Recall memory (Alt+R)">mr</button>
+                </div>
+            </div>
+
+            <!-- Row 2 -->
+            <div class="grid-row" role="row">
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="second" 
+                            aria-label="Second functions" 
+                            title="Show inverse functions">2nd</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="function" 
+                            data-value="square" 
+                            aria-label="Square" 
+                            title="Square (x²)">x²</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="function" 
+                            data-value="cube" 
+                            aria-label="Cube" 
+                            title="Cube (x³)">x³</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="operator" 
+                            data-value="pow" 
+                            aria-label="x to the power of y" 
+                            title="Power (^)">xʸ</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="function" 
+                            data-value="exp" 
+                            aria-label="e to the power of x" 
+                            title="Exponential (eˣ)">eˣ</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="function" 
+                            data-value="pow10" 
+                            data-alt-value="pow2" 
+                            data-alt-label="2ˣ" 
+                            data-alt-aria-label="2 to the power of x" 
+                            aria-label="10 to the power of x" 
+                            title="Power of ten (10ˣ)">10ˣ</button>
+                </div>
+            </div>
+
+            <!-- Row 3 -->
+            <div class="grid-row" role="row">
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="function" 
+                            data-value="reciprocal" 
+                            aria-label="Reciprocal" 
+                            title="Reciprocal (1/x)">¹/x</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="function" 
+                            data-value="sqrt" 
+                            aria-label="Square root" 
+                            title="Square root (√x)">²√x</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="function" 
+                            data-value="cbrt" 
+                            aria-label="Cube root" 
+                            title="Cube root (∛x)">³√x</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="operator" 
+                            data-value="root" 
+                            aria-label="y-th root of x" 
+                            title="Root (ʸ√x)">ʸ√x</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="function" 
+                            data-value="ln" 
+                            aria-label="Natural logarithm" 
+                            title="Natural logarithm (ln)">ln</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="function" 
+                            data-value="log10" 
+                            data-alt-value="log2" 
+                            data-alt-label="log₂" 
+                            data-alt-aria-label="Logarithm base 2" 
+                            aria-label="Logarithm base 10" 
+                            title="Logarithm base 10">log₁₀</button>
+                </div>
+            </div>
+
+            <!-- Row 4 -->
+            <div class="grid-row" role="row">
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="function" 
+                            data-value="factorial" 
+                            aria-label="Factorial" 
+                            title="Factorial (!)">x!</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="function" 
+                            data-value="sin" 
+                            data-alt-value="asin" 
+                            data-alt-label="sin⁻¹" 
+                            data-alt-aria-label="Inverse sine" 
+                            aria-label="Sine" 
+                            title="Sine">sin</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="function" 
+                            data-value="cos" 
+                            data-alt-value="acos" 
+                            data-alt-label="cos⁻¹" 
+                            data-alt-aria-label="Inverse cosine" 
+                            aria-label="Cosine" 
+                            title="Cosine">cos</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="function" 
+                            data-value="tan" 
+                            data-alt-value="atan" 
+                            data-alt-label="tan⁻¹" 
+                            data-alt-aria-label="Inverse tangent" 
+                            aria-label="Tangent" 
+                            title="Tangent">tan</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="constant" 
+                            data-value="e" 
+                            aria-label="Euler's number" 
+                            title="Euler's number (e)">e</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="operator" 
+                            data-value="ee" 
+                            aria-label="Times ten to the power of" 
+                            title="Scientific notation entry (EE)">EE</button>
+                </div>
+            </div>
+
+            <!-- Row 5 -->
+            <div class="grid-row" role="row">
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="angle" 
+                            aria-label="Switch to radians" 
+                            title="Toggle radians and degrees">Rad</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="function" 
+                            data-value="sinh" 
+                            data-alt-value="asinh" 
+                            data-alt-label="sinh⁻¹" 
+                            data-alt-aria-label="Inverse hyperbolic sine" 
+                            aria-label="Hyperbolic sine" 
+                            title="Hyperbolic sine">sinh</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="function" 
+                            data-value="cosh" 
+                            data-alt-value="acosh" 
+                            data-alt-label="cosh⁻¹" 
+                            data-alt-aria-label="Inverse hyperbolic cosine" 
+                            aria-label="Hyperbolic cosine" 
+                            title="Hyperbolic cosine">cosh</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="function" 
+                            data-value="tanh" 
+                            data-alt-value="atanh" 
+                            data-alt-label="tanh⁻¹" 
+                            data-alt-aria-label="Inverse hyperbolic tangent" 
+                            aria-label="Hyperbolic tangent" 
+                            title="Hyperbolic tangent">tanh</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="constant" 
+                            data-value="pi" 
+                            aria-label="Pi" 
+                            title="Pi (π)">π</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-scientific" 
+                            data-type="constant" 
+                            data-value="rand" 
+                            aria-label="Random number" 
+                            title="Random number between 0 and 1">Rand</button>
+                </div>
+            </div>
+        </div>
+
+        <!-- Button Grid -->
+        <div class="button-grid" role="grid" aria-label="Calculator buttons">
+            <!-- Row 1 -->
+            <div class="grid-row" role="row">
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-function" 
+                            data-type="clear" 
+                            aria-label="All Clear" 
+                            title="Clear all calculations (Escape)">AC</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-function" 
+                            data-type="negate" 
+                            aria-label="Plus or minus, toggle sign" 
+                            title="Change sign of current number">+/-</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-function" 
+                            data-type="percent" 
+                            aria-label="Percent" 
+                            title="Convert to percentage (%)">%</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-operator" 
+                            data-type="operator" 
+                            data-value="/" 
+                            aria-label="Divide" 
+                            title="Division (/)">÷</button>
+                </div>
+            </div>
+
+            <!-- Row 2 -->
+            <div class="grid-row" role="row">
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-number" 
+                            data-type="number" 
+                            data-value="7" 
+                            aria-label="7" 
+                            title="Number 7">7</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-number" 
+                            data-type="number" 
+                            data-value="8" 
+                            aria-label="8" 
+                            title="Number 8">8</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-number" 
+                            data-type="number" 
+                            data-value="9" 
+                            aria-label="9" 
+                            title="Number 9">9</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-operator" 
+                            data-type="operator" 
+                            data-value="*" 
+                            aria-label="Multiply" 
+                            title="Multiplication (*)">×</button>
+                </div>
+            </div>
+
+            <!-- Row 3 -->
+            <div class="grid-row" role="row">
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-number" 
+                            data-type="number" 
+                            data-value="4" 
+                            aria-label="4" 
+                            title="Number 4">4</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-number" 
+                            data-type="number" 
+                            data-value="5" 
+                            aria-label="5" 
+                            title="Number 5">5</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-number" 
+                            data-type="number" 
+                            data-value="6" 
+                            aria-label="6" 
+                            title="Number 6">6</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-operator" 
+                            data-type="operator" 
+                            data-value="-" 
+                            aria-label="Subtract" 
+                            title="Subtraction (-)">-</button>
+                </div>
+            </div>
+
+            <!-- Row 4 -->
+            <div class="grid-row" role="row">
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-number" 
+                            data-type="number" 
+                            data-value="1" 
+                            aria-label="1" 
+                            title="Number 1">1</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-number" 
+                            data-type="number" 
+                            data-value="2" 
+                            aria-label="2" 
+                            title="Number 2">2</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-number" 
+                            data-type="number" 
+                            data-value="3" 
+                            aria-label="3" 
+                            title="Number 3">3</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-operator" 
+                            data-type="operator" 
+                            data-value="+" 
+                            aria-label="Add" 
+                            title="Addition (+)">+</button>
+                </div>
+            </div>
+
+            <!-- Row 5 -->
+            <div class="grid-row" role="row">
+                <div class="grid-cell" role="gridcell" aria-colspan="2">
+                    <button class="btn btn-number btn-zero" 
+                            data-type="number" 
+                            data-value="0" 
+                            aria-label="0" 
+                            title="Number 0">0</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-number" 
+                            data-type="decimal" 
+                            aria-label="Decimal point" 
+                            title="Decimal point (.)">.</button>
+                </div>
+                <div class="grid-cell" role="gridcell">
+                    <button class="btn btn-operator" 
+                            data-type="equals" 
+                            aria-label="Equals" 
+                            title="Calculate result (Enter)">=</button>
+                </div>
+            </div>
+        </div>
+    </div>
+
+    <!-- Named registers -->
+    <div class="button-grid register-strip" role="grid" aria-label="Memory registers">
+        <div class="grid-row" role="row">
+            <div class="grid-cell" role="gridcell">
+                <button class="btn btn-scientific btn-register" 
+                        data-type="register-command" 
+                        data-value="store" 
+                        aria-label="Store in register" 
+                        title="Store the displayed value in a register">STO</button>
+            </div>
+            <div class="grid-cell" role="gridcell">
+                <button class="btn btn-scientific btn-register" 
+                        data-type="register-command" 
+                        data-value="recall" 
+                        aria-label="Recall register" 
+                        title="Recall a register">RCL</button>
+            </div>
+            <div class="grid-cell" role="gridcell">
+                <button class="btn btn-scientific btn-register" 
+                        data-type="register" 
+                        data-value="A" 
+                        aria-label="Register A" 
+                        title="Register A">A</button>
+            </div>
+            <div class="grid-cell" role="gridcell">
+                <button class="btn btn-scientific btn-register" 
+                        data-type="register" 
+                        data-value="B" 
+                        aria-label="Register B" 
+                        title="Register B">B</button>
+            </div>
+            <div class="grid-cell" role="gridcell">
+                <button class="btn btn-scientific btn-register" 
+                        data-type="register" 
+                        data-value="C" 
+                        aria-label="Register C" 
+                        title="Register C">C</button>
+            </div>
+            <div class="grid-cell" role="gridcell">
+                <button class="btn btn-scientific btn-register" 
+                        data-type="register" 
+                        data-value="D" 
+                        aria-label="Register D" 
+                        title="Register D">D</button>
+            </div>
+            <div class="grid-cell" role="gridcell">
+                <button class="btn btn-scientific btn-register" 
+                        data-type="register" 
+                        data-value="E" 
+                        aria-label="Register E" 
+                        title="Register E">E</button>
+            </div>
+            <div class="grid-cell" role="gridcell">
+                <button class="btn btn-scientific btn-register" 
+                        data-type="register" 
+                        data-value="F" 
+                        aria-label="Register F" 
+                        title="Register F">F</button>
+            </div>
+        </div>
+    </div>
+
+    <!-- Keys added by plugins (see src/ts/plugins.ts) -->
+    <div class="button-grid plugin-keys" role="grid" aria-label="Plugin functions" hidden></div>
+
+    <!-- Settings -->
+    <section id="settings-panel" class="settings-panel" aria-label="Settings" hidden>
+        <label class="settings-row">
+            Number format
+            <select class="locale-select">
+                <option value="">Browser default</option>
+                <option value="en-US">English (US) — 1,234.5</option>
+                <option value="en-GB">English (UK) — 1,234.5</option>
+                <option value="en-IN">English (India) — 12,34,567.5</option>
+                <option value="de-DE">Deutsch — 1.234,5</option>
+                <option value="de-CH">Deutsch (Schweiz) — 1’234.5</option>
+                <option value="fr-FR">Français — 1 234,5</option>
+                <option value="es-ES">Español — 12.345,5</option>
+                <option value="it-IT">Italiano — 1.234,5</option>
+                <option value="nl-NL">Nederlands — 1.234,5</option>
+                <option value="pt-BR">Português (Brasil) — 1.234,5</option>
+                <option value="sv-SE">Svenska — 1 234,5</option>
+                <option value="ja-JP">日本語 — 1,234.5</option>
+            </select>
+        </label>
+        <label class="settings-row">
+            Show thousands separators
+            <input type="checkbox" class="grouping-checkbox" checked>
+        </label>
+        <label class="settings-row">
+            Theme
+            <select class="theme-select">
+                <option value="system">System</option>
+                <option value="light">Light</option>
+                <option value="dark">Dark</option>
+                <option value="high-contrast">High contrast</option>
+            </select>
+        </label>
+        <label class="settings-row">
+            Operator color
+            <input type="color" class="accent-input" value="#ff9500">
+        </label>
+        <button class="accent-reset" 
+                title="Use the theme's operator color" 
+                hidden>Reset color</button>
+    </section>
+
+    <!-- Unit converter -->
+    <section id="convert-panel" class="convert-panel" aria-label="Unit converter" hidden>
+        <label class="settings-row">
+            Category
+            <select class="unit-category"></select>
+        </label>
+        <div class="convert-units">
+            <select class="unit-from" aria-label="Convert from"></select>
+            <button class="unit-swap" 
+                    aria-label="Swap units" 
+                    title="Swap units">⇄</button>
+            <select class="unit-to" aria-label="Convert to"></select>
+        </div>
+        <div class="currency-rate" hidden>
+            <label class="settings-row">
+                <span>1 <span class="rate-from"></span> =</span>
+                <input type="text" 
+                       class="rate-input" 
+                       inputmode="decimal" 
+                       aria-label="Exchange rate" 
+                       spellcheck="false">
+                <span class="rate-to"></span>
+            </label>
+            <p class="rate-date"></p>
+            <button class="rate-reset" 
+                    title="Use the rate from the rate table" 
+                    hidden>Reset rate</button>
+        </div>
+        <button class="convert-action" 
+                title="Convert the displayed value">Convert</button>
+    </section>
+
+    <!-- Paper tape -->
+    <section id="paper-tape" class="paper-tape" aria-label="Paper tape" hidden>
+        <ol class="tape-entries"></ol>
+        <div class="tape-actions">
+            <button class="tape-action" 
+                    data-tape-action="export-text" 
+                    title="Download the tape as plain text">Export Text</button>
+            <button class="tape-action" 
+                    data-tape-action="export-csv" 
+                    title="Download the tape as CSV">Export CSV</button>
+            <button class="tape-action" 
+                    data-tape-action="clear" 
+                    title="Remove all entries from the tape">Clear Tape</button>
+        </div>
+    </section>
+</div>
+
+<!-- Keyboard shortcut help (opens on ?) -->
+<div class="shortcut-help" 
+     role="dialog" 
+     aria-modal="true" 
+     aria-labelledby="shortcut-help-title" 
+     hidden>
+    <div class="shortcut-help-header">
+        <h2 id="shortcut-help-title">Keyboard Shortcuts</h2>
+        <button class="shortcut-help-close" 
+                aria-label="Close keyboard shortcuts" 
+                title="Close (Esc)">✕</button>
+    </div>
+    <div class="shortcut-help-groups"></div>
+</div>
+`;
@@ -0,0 +1,54 @@
+/**
+ * Plugins: functions and keys added to a calculator by the page embedding it
+ *
+ * A plugin is a plain object passed to Calculator.use():
+ *
+ * - functions: Added to the calculator's FunctionRegistry (see
+ *   expression.ts), so they work in its typed formulas and through the
+ *   customFunction action. Other calculators on the page do not see them,
+ *   so the same plugin can be added to several calculators.
+ * - buttons: Keys shown in the plugin row below the keypad; each one
+ *   dispatches an engine action
+ * - setup: Called with the calculator once everything is added, e.g. to
+ *   subscribe to events; may return a cleanup function
+ *
+ * use() returns a function that removes the plugin again: its functions
+ * are unregistered, its keys removed and its cleanup function called.
+ *
+ * @example
+ * ```typescript
+ * calculator.use({
+ *     name: 'tax',
+ *     functions: [{ name: 'vat', label: 'VAT', apply: (x) => x.times(Decimal.parse('1.2')) }],
+ *     buttons: [{ label: '+VAT', title: 'Add 20% VAT', action: { type: 'customFunction', name: 'vat' } }],
+ * });
+ * ```
+ */
+
+import type { Calculator } from './calculator.js';
+import { CalculatorAction } from './engine.js';
+import { CustomFunction } from './expression.js';
+
+/**
+ * A key added by a plugin
+ */
+export interface PluginButton {
+    /** Text on the key */
+    readonly label: string;
+    /** Tooltip and accessible name (defaults to the label) */
+    readonly title?: string;
+    /** Action dispatched when the key is pressed */
+    readonly action: CalculatorAction;
+}
+
+/**
+ * Functions, keys and setup code added to a calculator as one unit
+ */
+export interface CalculatorPlugin {
+    /** Unique name; a plugin can be added to a calculator once */
+    readonly name: string;
+    readonly functions?: readonly CustomFunction[];
+    readonly buttons?: readonly PluginButton[];
+    /** Called after the functions and keys are added; may return a cleanup function */
+    readonly setup?: (calculator: Calculator) => void | (() => void);
+}
@@ -0,0 +1,228 @@
+/**
+ * Programmer mode: fixed-width integers, number bases and bitwise operators
+ *
+ * Values are BigInt words of 8, 16, 32 or 64 bits, either signed (two's
+ * complement) or unsigned. The engine keeps the value as a base-10 integer
+ * string; this module converts it to the bit pattern shown in HEX, OCT and
+ * BIN and wraps every result back into the selected word.
+ */
+
+import { Decimal } from './decimal.js';
+
+/**
+ * Radix used for display and digit entry
+ */
+export type NumberBase = 2 | 8 | 10 | 16;
+
+/**
+ * Word width in bits
+ */
+export type WordSize = 8 | 16 | 32 | 64;
+
+/**
+ * Binary operators available only in Programmer mode
+ */
+export type BitwiseOperator = 'and' | 'or' | 'xor' | 'nand' | 'nor' | 'shl' | 'shr' | 'rol' | 'ror';
+
+/**
+ * Word configuration shared by all Programmer operations
+ */
+export interface WordFormat {
+    readonly wordSize: WordSize;
+    readonly signed: boolean;
+}
+
+export const NUMBER_BASES: readonly NumberBase[] = [2, 8, 10, 16];
+export const WORD_SIZES: readonly WordSize[] = [8, 16, 32, 64];
+
+const BITWISE_OPERATORS: readonly string[] = ['and', 'or', 'xor', 'nand', 'nor', 'shl', 'shr', 'rol', 'ror'];
+
+/**
+ * Checks whether a raw string (e.g. a button's data-value) is a BitwiseOperator
+ */
+export function isBitwiseOperator(value: string): value is BitwiseOperator {
+    return BITWISE_OPERATORS.includes(value);
+}
+
+/**
+ * Wraps an integer into the word, as the hardware would on overflow
+ *
+ * @param value - Any integer
+ * @param format - Word size and signedness
+ *
+ * @example
+ * ```typescript
+ * wrapToWord(256n, { wordSize: 8, signed: false }); // 0n
+ * wrapToWord(255n, { wordSize: 8, signed: true });  // -1n
+ * ```
+ */
+export function wrapToWord(value: bigint, format: WordFormat): bigint {
+    return format.signed ? BigInt.asIntN(format.wordSize, value) : BigInt.asUintN(format.wordSize, value);
+}
+
+/**
+ * Converts a Decimal into a word, truncating any fractional part toward zero
+ */
+export function toWord(value: Decimal, format: WordFormat): bigint {
+    return wrapToWord(value.coefficient / 10n ** BigInt(value.scale), format);
+}
+
+/**
+ * Raw bit pattern of a word (two's complement for negative values)
+ */
+export function toBitPattern(value: bigint, format: WordFormat): bigint {
+    return BigInt.asUintN(format.wordSize, value);
+}
+
+/**
+ * Formats a word in a number base
+ *
+ * Base 10 shows the signed or unsigned value; other bases show the
+ * two's-complement bit pattern, so -1 in 8-bit HEX is "FF".
+ *
+ * @param value - The word's value
+ * @param base - Radix to format in
+ * @param format - Word size and signedness
+ */
+export function formatInBase(value: bigint, base: NumberBase, format: WordFormat): string {
+    if (base === 10) {
+        return wrapToWord(value, format).toString();
+    }
+    return toBitPattern(value, format).toString(base).toUpperCase();
+}
+
+/**
+ * Value of a single digit key in a base, or null when the key is not a digit of that base
+ *
+ * @param digit - Key such as "7" or "C"
+ * @param base - Current number base
+ */
+export function digitValue(digit: string, base: NumberBase): number | null {
+    if (!/^[0-9A-F]$/.test(digit)) {
+        return null;
+    }
+    const value = parseInt(digit, 16);
+    return value < base ? value : null;
+}
+
+/**
+ * Reads pasted digits in a base, or null when the text is not a number in that base
+ *
+ * Spaces and underscores between digit groups are ignored, and a matching
+ * 0x / 0o / 0b prefix is accepted. HEX/OCT/BIN text is read as a bit
+ * pattern, so it is wrapped into the word like typed digits.
+ *
+ * @example
+ * ```typescript
+ * parseInBase('0xFF', 16);      // 255n
+ * parseInBase('1010 0101', 2);  // 165n
+ * parseInBase('12', 2);         // null
+ * ```
+ */
+export function parseInBase(text: string, base: NumberBase): bigint | null {
+    const prefixes: Readonly<Record<NumberBase, string>> = { 2: '0b', 8: '0o', 10: '', 16: '0x' };
+    let digits = text.replace(/[\s_]/g, '').toUpperCase();
+    const negative = base === 10 && digits.startsWith('-');
+
+    if (negative) {
+        digits = digits.slice(1);
+    }
+    if (prefixes[base] && digits.startsWith(prefixes[base].toUpperCase())) {
+        digits = digits.slice(2);
+    }
+    if (digits === '' || [...digits].some((digit) => digitValue(digit, base) === null)) {
+        return null;
+    }
+
+    const value = [...digits].reduce((total, digit) => total * BigInt(base) + BigInt(parseInt(digit, 16)), 0n);
+    return negative ? -value : value;
+}
+
+/**
+ * Appends a digit to a word entry
+ *
+ * Decimal entry extends the value itself; HEX/OCT/BIN entry extends the bit
+ * pattern. Digits that would overflow the word are rejected.
+ *
+ * @returns The new value, or null when the digit does not fit
+ */
+export function appendDigit(value: bigint, digit: number, base: NumberBase, format: WordFormat): bigint | null {
+    if (base === 10) {
+        const next = value < 0n ? value * 10n - BigInt(digit) : value * 10n + BigInt(digit);
+        return wrapToWord(next, format) === next ? next : null;
+    }
+
+    const pattern = toBitPattern(value, format) * BigInt(base) + BigInt(digit);
+    return pattern < 1n << BigInt(format.wordSize) ? wrapToWord(pattern, format) : null;
+}
+
+/**
+ * Removes the last digit of a word entry in the current base
+ */
+export function removeDigit(value: bigint, base: NumberBase, format: WordFormat): bigint {
+    if (base === 10) {
+        return value / 10n;
+    }
+    return wrapToWord(toBitPattern(value, format) / BigInt(base), format);
+}
+
+/**
+ * Flips one bit of a word
+ *
+ * @param bit - Bit index, 0 being the least significant
+ */
+export function toggleBit(value: bigint, bit: number, format: WordFormat): bigint {
+    return wrapToWord(toBitPattern(value, format) ^ (1n << BigInt(bit)), format);
+}
+
+/**
+ * Inverts every bit of a word (NOT)
+ */
+export function bitwiseNot(value: bigint, format: WordFormat): bigint {
+    return wrapToWord(~value, format);
+}
+
+/**
+ * Two's-complement negation of a word; the most negative signed value negates to itself
+ */
+export function twosComplement(value: bigint, format: WordFormat): bigint {
+    return wrapToWord(-value, format);
+}
+
+/**
+ * Applies a bitwise operator to two words
+ *
+ * Shift and rotate amounts are taken modulo the word size; right shifts
+ * are arithmetic for signed words and logical for unsigned ones.
+ *
+ * @example
+ * ```typescript
+ * applyBitwise('rol', 0x81n, 1n, { wordSize: 8, signed: false }); // 0x03n
+ * ```
+ */
+export function applyBitwise(operator: BitwiseOperator, a: bigint, b: bigint, format: WordFormat): bigint {
+    const size = BigInt(format.wordSize);
+    const pattern = toBitPattern(a, format);
+    const amount = ((b % size) + size) % size;
+
+    switch (operator) {
+        case 'and':
+            return wrapToWord(a & b, format);
+        case 'or':
+            return wrapToWord(a | b, format);
+        case 'xor':
+            return wrapToWord(a ^ b, format);
+        case 'nand':
+            return wrapToWord(~(a & b), format);
+        case 'nor':
+            return wrapToWord(~(a | b), format);
+        case 'shl':
+            return wrapToWord(pattern << amount, format);
+        case 'shr':
+            return wrapToWord((format.signed ? a : pattern) >> amount, format);
+        case 'rol':
+            return wrapToWord((pattern << amount) | (pattern >> ((size - amount) % size)), format);
+        case 'ror':
+            return wrapToWord((pattern >> amount) | (pattern << ((size - amount) % size)), format);
+    }
+}
@@ -0,0 +1,409 @@
+/**
+ * Scientific functions and constants
+ *
+ * Exact Decimal arithmetic is used wherever the result has an exact
+ * decimal form (x², x³, 1/x, 10ˣ for integer x, x! for integer x,
+ * integer powers). Everything else goes through JS doubles and keeps the
+ * double's shortest round-trip digits; float noise such as
+ * 0.49999999999999994 sits beyond the 16 digits the display shows.
+ */
+
+import { DEFAULT_PRECISION, Decimal, MAX_EXPONENT } from './decimal.js';
+import { NotANumberError, OverflowError } from './errors.js';
+
+/**
+ * Angle unit used by trigonometric functions
+ */
+export type AngleMode = 'deg' | 'rad';
+
+/**
+ * Single-operand functions applied to the displayed value
+ */
+export type UnaryFunction =
+    | 'sin' | 'cos' | 'tan'
+    | 'asin' | 'acos' | 'atan'
+    | 'sinh' | 'cosh' | 'tanh'
+    | 'asinh' | 'acosh' | 'atanh'
+    | 'ln' | 'log10' | 'log2'
+    | 'square' | 'cube' | 'sqrt' | 'cbrt'
+    | 'exp' | 'pow10' | 'pow2'
+    | 'reciprocal' | 'factorial';
+
+/**
+ * Values that replace the display when pressed
+ */
+export type Constant = 'pi' | 'e' | 'rand';
+
+/** Largest n for which n! stays within the calculator's range */
+const MAX_FACTORIAL = 170;
+
+/** Exponent bound for exact integer powers before falling back to doubles */
+const MAX_EXACT_POWER = 1000;
+
+const PI = Decimal.parse('3.141592653589793238462643383279503');
+const E = Decimal.parse('2.718281828459045235360287471352662');
+const TWO = Decimal.of(2n);
+const TEN = Decimal.of(10n);
+const RIGHT_ANGLE = Decimal.of(90n);
+const FULL_TURN = Decimal.of(360n);
+
+const UNARY_FUNCTIONS: readonly string[] = [
+    'sin', 'cos', 'tan', 'asin', 'acos', 'atan',
+    'sinh', 'cosh', 'tanh', 'asinh', 'acosh', 'atanh',
+    'ln', 'log10', 'log2', 'square', 'cube', 'sqrt', 'cbrt',
+    'exp', 'pow10', 'pow2', 'reciprocal', 'factorial',
+];
+
+const CONSTANTS: readonly string[] = ['pi', 'e', 'rand'];
+
+/**
+ * Checks whether a raw string (e.g. a button's data-value) names a UnaryFunction
+ */
+export function isUnaryFunction(value: string): value is UnaryFunction {
+    return UNARY_FUNCTIONS.includes(value);
+}
+
+/**
+ * Checks whether a raw string (e.g. a button's data-value) names a Constant
+ */
+export function isConstant(value: string): value is Constant {
+    return CONSTANTS.includes(value);
+}
+
+/**
+ * Returns the value of a constant (Rand draws a new number each time)
+ *
+ * @param name - The constant to read
+ */
+export function constantValue(name: Constant): Decimal {
+    switch (name) {
+        case 'pi':
+            return PI;
+        case 'e':
+            return E;
+        case 'rand':
+            return fromDouble(Math.random());
+    }
+}
+
+/**
+ * Describes a function application for the paper tape
+ *
+ * @param name - The function applied
+ * @param operand - Text of the operand, e.g. "30" or "(1 + 2)"
+ *
+ * @example
+ * ```typescript
+ * describeFunction('sin', '30');   // "sin(30)"
+ * describeFunction('square', '4'); // "4²"
+ * ```
+ */
+export function describeFunction(name: UnaryFunction, operand: string): string {
+    switch (name) {
+        case 'square':
+            return `${operand}²`;
+        case 'cube':
+            return `${operand}³`;
+        case 'factorial':
+            return `${operand}!`;
+        case 'sqrt':
+            return `√(${operand})`;
+        case 'cbrt':
+            return `∛(${operand})`;
+        case 'exp':
+            return `e^${operand}`;
+        case 'pow10':
+            return `10^${operand}`;
+        case 'pow2':
+            return `2^${operand}`;
+        case 'reciprocal':
+            return `1/(${operand})`;
+        case 'asin':
+        case 'acos':
+        case 'atan':
+        case 'asinh':
+        case 'acosh':
+        case 'atanh':
+            return `${name.slice(1)}⁻¹(${operand})`;
+        case 'log10':
+            return `log₁₀(${operand})`;
+        case 'log2':
+            return `log₂(${operand})`;
+        default:
+            return `${name}(${operand})`;
+    }
+}
+
+/**
+ * Applies a unary function to a value
+ *
+ * @param name - The function to apply
+ * @param x - The operand
+ * @param angleMode - Unit for trigonometric input and inverse-trigonometric output
+ * @throws {NotANumberError} When the result is undefined
+ * @throws {OverflowError} When the result is out of range
+ *
+ * @example
+ * ```typescript
+ * applyFunction('sin', Decimal.parse('30'), 'deg').toString(); // "0.5"
+ * applyFunction('factorial', Decimal.parse('5'), 'deg').toString(); // "120"
+ * ```
+ */
+export function applyFunction(name: UnaryFunction, x: Decimal, angleMode: AngleMode): Decimal {
+    switch (name) {
+        case 'sin':
+        case 'cos':
+        case 'tan':
+            return trigonometric(name, x, angleMode);
+        case 'asin':
+            return fromRadians(Math.asin(x.toNumber()), angleMode);
+        case 'acos':
+            return fromRadians(Math.acos(x.toNumber()), angleMode);
+        case 'atan':
+            return fromRadians(Math.atan(x.toNumber()), angleMode);
+        case 'sinh':
+            return fromDouble(Math.sinh(x.toNumber()));
+        case 'cosh':
+            return fromDouble(Math.cosh(x.toNumber()));
+        case 'tanh':
+            return fromDouble(Math.tanh(x.toNumber()));
+        case 'asinh':
+            return fromDouble(Math.asinh(x.toNumber()));
+        case 'acosh':
+            return fromDouble(Math.acosh(x.toNumber()));
+        case 'atanh':
+            return fromDouble(Math.atanh(x.toNumber()));
+        case 'ln':
+            return fromDouble(Math.log(positive(x)));
+        case 'log10':
+            return fromDouble(Math.log10(positive(x)));
+        case 'log2':
+            return fromDouble(Math.log2(positive(x)));
+        case 'square':
+            return x.times(x);
+        case 'cube':
+            return x.times(x).times(x);
+        case 'sqrt':
+            return root(x, TWO);
+        case 'cbrt':
+            return fromDouble(Math.cbrt(x.toNumber()));
+        case 'exp':
+            return power(E, x);
+        case 'pow10':
+            return power(TEN, x);
+        case 'pow2':
+            return power(TWO, x);
+        case 'reciprocal':
+            return Decimal.ONE.dividedBy(x);
+        case 'factorial':
+            return factorial(x);
+    }
+}
+
+/**
+ * Raises base to an exponent (xʸ)
+ *
+ * Integer exponents are computed exactly; anything else uses doubles.
+ * Results too small to show are zero.
+ *
+ * @throws {DivisionByZeroError} For 0 to a negative power
+ * @throws {NotANumberError} For a negative base with a fractional exponent
+ * @throws {OverflowError} When the result would be beyond MAX_EXPONENT
+ */
+export function power(base: Decimal, exponent: Decimal): Decimal {
+    // Check the size of the result first: (10^300)^1000 would take minutes to multiply out
+    if (!base.isZero() && !(base.isNegative() && !exponent.isInteger())) {
+        const magnitude = exponent.toNumber() * log10Magnitude(base);
+        if (magnitude > MAX_EXPONENT + 1) {
+            throw new OverflowError();
+        }
+        if (magnitude < -(MAX_EXPONENT + DEFAULT_PRECISION)) {
+            return Decimal.ZERO;
+        }
+    }
+
+    if (exponent.isInteger() && exponent.abs().compare(Decimal.of(BigInt(MAX_EXACT_POWER))) <= 0) {
+        let remaining = Number(exponent.abs().coefficient);
+        let factor = base;
+        let result = Decimal.ONE;
+
+        // Square-and-multiply, keeping intermediate results at calculator precision
+        while (remaining > 0) {
+            if (remaining % 2 === 1) {
+                result = result.times(factor).toSignificantDigits(DEFAULT_PRECISION);
+            }
+            factor = factor.times(factor).toSignificantDigits(DEFAULT_PRECISION);
+            remaining = Math.floor(remaining / 2);
+        }
+
+        return exponent.isNegative() ? Decimal.ONE.dividedBy(result) : result;
+    }
+
+    return fromDouble(Math.pow(base.toNumber(), exponent.toNumber()));
+}
+
+/**
+ * log10 |x| for a nonzero value, also for values beyond the range of a double
+ */
+function log10Magnitude(x: Decimal): number {
+    const digits = x.abs().coefficient.toString();
+    return x.exponent() + Math.log10(Number(`${digits[0]}.${digits.slice(1, 17)}`));
+}
+
+/**
+ * Takes the y-th root of x (ʸ√x)
+ *
+ * Odd integer roots of negative numbers are real and supported.
+ *
+ * @throws {NotANumberError} For even roots of negative numbers or the zeroth root
+ */
+export function root(x: Decimal, degree: Decimal): Decimal {
+    if (degree.isZero()) {
+        throw new NotANumberError();
+    }
+
+    const value = x.toNumber();
+    const n = degree.toNumber();
+    const oddInteger = degree.isInteger() && Number(degree.coefficient % 2n) !== 0;
+
+    if (value < 0 && oddInteger) {
+        return fromDouble(-Math.pow(-value, 1 / n));
+    }
+
+    const result = n === 2 ? Math.sqrt(value) : Math.pow(value, 1 / n);
+    return fromDouble(result);
+}
+
+/**
+ * Converts a double result into a Decimal
+ *
+ * @throws {NotANumberError} When the double is NaN
+ * @throws {OverflowError} When the double is infinite
+ */
+function fromDouble(value: number): Decimal {
+    if (Number.isNaN(value)) {
+        throw new NotANumberError();
+    }
+    return Decimal.fromNumber(value);
+}
+
+/**
+ * Returns x as a double, rejecting values outside a logarithm's domain
+ */
+function positive(x: Decimal): number {
+    if (x.isNegative() || x.isZero()) {
+        throw new NotANumberError();
+    }
+    return x.toNumber();
+}
+
+/**
+ * sin, cos and tan with exact results at multiples of 90°
+ */
+function trigonometric(name: 'sin' | 'cos' | 'tan', x: Decimal, angleMode: AngleMode): Decimal {
+    if (angleMode === 'deg') {
+        // Reduce to [0, 360) exactly so sin(180) is 0 rather than 1.2e-16
+        const turns = x.dividedBy(FULL_TURN);
+        const whole = Decimal.of(turns.coefficient / 10n ** BigInt(turns.scale));
+        let degrees = x.minus(whole.times(FULL_TURN));
+        if (degrees.isNegative()) {
+            degrees = degrees.plus(FULL_TURN);
+        }
+
+        const quadrant = degrees.dividedBy(RIGHT_ANGLE);
+        if (quadrant.isInteger()) {
+            return quadrantValue(name, Number(quadrant.coefficient));
+        }
+
+        return trigonometric(name, degrees.times(PI).dividedBy(Decimal.of(180n)), 'rad');
+    }
+
+    const radians = x.toNumber();
+    const result = name === 'sin' ? Math.sin(radians) : name === 'cos' ? Math.cos(radians) : Math.tan(radians);
+
+    // Treat residue from an inexact π as zero (e.g. sin(π) = 1.2e-16)
+    if (Math.abs(result) < 1e-15 && Math.abs(radians) >= 1) {
+        return Decimal.ZERO;
+    }
+
+    return fromDouble(result);
+}
+
+/**
+ * Exact sin/cos/tan for 0°, 90°, 180° and 270°
+ *
+ * @throws {NotANumberError} For tan at 90° and 270°
+ */
+function quadrantValue(name: 'sin' | 'cos' | 'tan', quadrant: number): Decimal {
+    const sines = [0n, 1n, 0n, -1n];
+    const sine = sines[quadrant];
+    const cosine = sines[(quadrant + 1) % 4];
+
+    switch (name) {
+        case 'sin':
+            return Decimal.of(sine);
+        case 'cos':
+            return Decimal.of(cosine);
+        case 'tan':
+            if (cosine === 0n) {
+                throw new NotANumberError();
+            }
+            return Decimal.ZERO;
+    }
+}
+
+/**
+ * Converts an inverse-trigonometric result from radians to the current unit
+ */
+function fromRadians(radians: number, angleMode: AngleMode): Decimal {
+    return fromDouble(angleMode === 'deg' ? radians * 180 / Math.PI : radians);
+}
+
+/**
+ * x! for non-negative integers, Γ(x + 1) for other values
+ *
+ * @throws {NotANumberError} For negative integers
+ * @throws {OverflowError} For results beyond MAX_FACTORIAL
+ */
+function factorial(x: Decimal): Decimal {
+    if (!x.isInteger()) {
+        return fromDouble(gamma(x.toNumber() + 1));
+    }
+    if (x.isNegative()) {
+        throw new NotANumberError();
+    }
+    if (x.compare(Decimal.of(BigInt(MAX_FACTORIAL))) > 0) {
+        throw new OverflowError();
+    }
+
+    let result = 1n;
+    for (let n = 2n; n <= x.coefficient; n++) {
+        result *= n;
+    }
+    return Decimal.of(result);
+}
+
+/**
+ * Lanczos approximation of the gamma function (g = 7, n = 9)
+ */
+function gamma(z: number): number {
+    if (z < 0.5) {
+        // Reflection formula
+        return Math.PI / (Math.sin(Math.PI * z) * gamma(1 - z));
+    }
+
+    const coefficients = [
+        0.99999999999980993, 676.5203681218851, -1259.1392167224028,
+        771.32342877765313, -176.61502916214059, 12.507343278686905,
+        -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+    ];
+
+    const shifted = z - 1;
+    let sum = coefficients[0];
+    for (let i = 1; i < coefficients.length; i++) {
+        sum += coefficients[i] / (shifted + i);
+    }
+
+    const t = shifted + 7.5;
+    return Math.sqrt(2 * Math.PI) * Math.pow(t, shifted + 0.5) * Math.exp(-t) * sum;
+}
@@ -0,0 +1,39 @@
+/**
+ * User preferences for how the calculator looks, presents numbers and reads keys
+ *
+ * Settings belong to the view, not the engine: the engine always works
+ * with plain "1234.5" strings and Decimals, whatever the locale.
+ */
+
+import { KeyBinding } from './keymap.js';
+import { ThemeName } from './theme.js';
+
+/**
+ * Display preferences
+ */
+export interface CalculatorSettings {
+    /** BCP 47 locale tag such as "de-DE"; an empty string follows the browser */
+    readonly locale: string;
+    /** Whether to show thousands separators */
+    readonly useGrouping: boolean;
+    /** Exchange rates entered by the user, per 1 unit of the rate table's base currency */
+    readonly currencyRates: Readonly<Record<string, string>>;
+    /** Keyboard shortcuts added by the user, ahead of the defaults (see keymap.ts) */
+    readonly keyBindings: readonly KeyBinding[];
+    /** Color theme (see theme.ts) */
+    readonly theme: ThemeName;
+    /** #rrggbb color of the operator keys; an empty string keeps the theme's */
+    readonly accentColor: string;
+}
+
+/**
+ * Settings used until the user picks their own
+ */
+export const DEFAULT_SETTINGS: CalculatorSettings = Object.freeze({
+    locale: '',         // Browser language
+    useGrouping: true,  // 1,234,567
+    currencyRates: {},  // Bundled rates only
+    keyBindings: [],    // Default shortcuts only
+    theme: 'system',    // Light or dark, as the operating system
+    accentColor: '',    // Orange
+});
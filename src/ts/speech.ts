@@ -0,0 +1,148 @@
+/**
+ * What the calculator says to screen readers
+ *
+ * Expressions are spoken with their operators as words, so "6 × (2 + 1)"
+ * is read as "6 times open parenthesis 2 plus 1 close parenthesis" and
+ * "√(9)" as "square root of 9". The calculator announces, through its live
+ * region:
+ *
+ * - results: "6 times 7 equals 42"
+ * - the pending calculation after an operator or parenthesis: "6 times"
+ * - computed values such as function results: "square root of 9 equals 3"
+ *
+ * Errors are announced by the view when it shows them; typed digits are
+ * not announced, as screen readers already echo the keys.
+ */
+
+import { CalculatorState } from './engine.js';
+import { joinExpression } from './history.js';
+
+/** Words for operator and function symbols, and for operator names on the paper tape */
+const SPOKEN_SYMBOLS: Readonly<Record<string, string>> = {
+    '+': 'plus',
+    '-': 'minus',
+    '−': 'minus',
+    '*': 'times',
+    '×': 'times',
+    '/': 'divided by',
+    '÷': 'divided by',
+    '^': 'to the power of',
+    '%': 'percent',
+    '!': 'factorial',
+    '²': 'squared',
+    '³': 'cubed',
+    '√': 'square root',
+    '∛': 'cube root',
+    '⁻¹': 'inverse',
+    '₁₀': 'base 10',
+    '₂': 'base 2',
+    'π': 'pi',
+    '=': 'equals',
+    '→': 'to',
+    '<<': 'shifted left by',
+    '>>': 'shifted right by',
+    '(': 'open parenthesis',
+    ')': 'close parenthesis',
+    E: 'times ten to the power of',
+    yroot: 'root',
+    AND: 'and',
+    OR: 'or',
+    XOR: 'exclusive or',
+    NAND: 'nand',
+    NOR: 'nor',
+    NOT: 'not',
+    RoL: 'rotated left by',
+    RoR: 'rotated right by',
+};
+
+/** Numbers (including exponents), words, multi-character symbols, then any other character */
+const SPEECH_TOKEN = /\d[\d.]*(?:e[+-]?\d+)?|[A-Za-z]+|⁻¹|₁₀|<<|>>|\S/g;
+
+/** Tokens that call a function when directly followed by "(" */
+const FUNCTION_TOKEN = /^(?:[A-Za-z]+|√|∛|⁻¹|₁₀|₂)$/;
+
+/**
+ * Turns an expression as shown on the paper tape into words
+ *
+ * @param text - Expression such as "6 × 7", "sin(30)" or "12*(3+4)/7"
+ *
+ * @example
+ * ```typescript
+ * speakExpression('12 ÷ (3 − 1)'); // "12 divided by open parenthesis 3 minus 1 close parenthesis"
+ * speakExpression('sin⁻¹(0.5)');   // "sin inverse of 0.5"
+ * ```
+ */
+export function speakExpression(text: string): string {
+    const words: string[] = [];
+    const spokenParens: boolean[] = [];     // Whether each open parenthesis was read out
+    let previous: { text: string; end: number } | null = null;
+
+    for (const match of text.matchAll(SPEECH_TOKEN)) {
+        const token = match[0];
+        const index = match.index ?? 0;
+
+        if (token === '(') {
+            // "sin(30)" reads "sin of 30", without parentheses; NOT(5) reads "not 5"
+            const call = previous !== null && previous.end === index && FUNCTION_TOKEN.test(previous.text);
+            spokenParens.push(!call);
+            if (!call) {
+                words.push(SPOKEN_SYMBOLS['(']);
+            } else if (previous?.text !== 'NOT') {
+                words.push('of');
+            }
+        } else if (token === ')') {
+            if (spokenParens.pop() ?? true) {
+                words.push(SPOKEN_SYMBOLS[')']);
+            }
+        } else {
+            words.push(SPOKEN_SYMBOLS[token] ?? token);
+        }
+
+        previous = { text: token, end: index + token.length };
+    }
+
+    return words.join(' ');
+}
+
+/**
+ * What to announce after the calculator changed from one state to the next
+ *
+ * @param previous - State before the change
+ * @param next - State after the change
+ * @param value - The value as shown on the display, e.g. "1,234.5"
+ * @returns The announcement, or an empty string when there is nothing to say
+ *
+ * @example
+ * ```typescript
+ * describeChange(pending, reduce(pending, { type: 'equals' }), '42'); // "6 times 7 equals 42"
+ * ```
+ */
+export function describeChange(previous: CalculatorState, next: CalculatorState, value: string): string {
+    if (next.error) {
+        return '';
+    }
+
+    // A completed calculation, unless undo put back an entry that was already on the tape
+    const entry = next.tape[next.tape.length - 1];
+    if (entry && !previous.tape.includes(entry)) {
+        return `${speakExpression(entry.expression)} equals ${value}`;
+    }
+
+    // An operator or parenthesis changed the calculation being entered
+    const expressionChanged = next.expression.length !== previous.expression.length
+        || next.expression.some((token, index) => token !== previous.expression[index]);
+    if (expressionChanged) {
+        const tokens = next.operandLabel === null ? next.expression : [...next.expression, next.operandLabel];
+        if (tokens.length > 0) {
+            return speakExpression(joinExpression(tokens));
+        }
+    }
+
+    // A value that was not typed: a function result, constant, recalled value …
+    const changed = next.currentValue !== previous.currentValue || next.operandLabel !== previous.operandLabel;
+    if (changed && next.waitingForNewValue) {
+        return next.operandLabel === null ? value : `${speakExpression(next.operandLabel)} equals ${value}`;
+    }
+
+    return '';
+}
@@ -0,0 +1,385 @@
+/**
+ * Saving and restoring the calculator across page reloads
+ *
+ * A snapshot holds the engine state (display, pending operations, memory,
+ * registers, tape, mode) and the view settings. It is stored as versioned
+ * JSON in which every Decimal is written as its exact string, so
+ * "0.1" comes back as 0.1 and not 0.1000000000000000055511151231257827.
+ *
+ * Loading never throws: older snapshots are migrated step by step, and
+ * unreadable or invalid data is dropped so the calculator starts fresh.
+ * Errors are not saved.
+ */
+
+import { isValidRate } from './currency.js';
+import { DEFAULT_PRECISION, Decimal, MAX_EXPONENT } from './decimal.js';
+import {
+    BinaryOperator,
+    CalculatorMode,
+    CalculatorState,
+    INITIAL_STATE,
+    isBinaryOperator,
+    isRegisterName,
+    StackFrame,
+} from './engine.js';
+import { getNumberSymbols } from './format.js';
+import { TapeEntry } from './history.js';
+import { isKeyCommand, KeyBinding, KeyContext, parseShortcut } from './keymap.js';
+import { NUMBER_BASES, WORD_SIZES } from './programmer.js';
+import { AngleMode } from './scientific.js';
+import { CalculatorSettings, DEFAULT_SETTINGS } from './settings.js';
+import { isAccentColor, isThemeName } from './theme.js';
+
+/** localStorage key the page's snapshot is saved under */
+export const STORAGE_KEY = 'macos-calculator';
+
+/** Version written by saveSnapshot; bump it and add a migration when the format changes */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Everything needed to bring the calculator back after a reload
+ */
+export interface Snapshot {
+    readonly state: CalculatorState;
+    readonly settings: CalculatorSettings;
+}
+
+/**
+ * Upgrades stored data from one snapshot version to the next
+ */
+export type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * MIGRATIONS[n] upgrades a version n + 1 snapshot to version n + 2
+ */
+const MIGRATIONS: readonly Migration[] = [];
+
+/**
+ * Longest number text a snapshot holds: the smallest value the calculator
+ * shows, with full precision, written out in plain notation
+ */
+const MAX_NUMBER_LENGTH = '-0.'.length + MAX_EXPONENT + DEFAULT_PRECISION;
+
+const EXPONENT_PATTERN = /e([+-]?\d+)$/i;
+
+/**
+ * Reads a property of stored data, or throws when it fails a check
+ */
+type Reader<T> = (value: unknown, path: string) => T;
+
+/**
+ * The browser's localStorage, or null when it is unavailable (e.g. blocked cookies)
+ */
+export function defaultStorage(): Storage | null {
+    try {
+        return window.localStorage;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Writes a snapshot to storage
+ *
+ * Failures (quota exceeded, storage disabled) are logged and otherwise ignored.
+ *
+ * @param snapshot - State and settings to save
+ * @param storage - Where to save (defaults to localStorage)
+ * @param key - Key to save under, one per calculator on the page
+ */
+export function saveSnapshot(snapshot: Snapshot, storage: Storage | null = defaultStorage(), key: string = STORAGE_KEY): void {
+    try {
+        storage?.setItem(key, serializeSnapshot(snapshot));
+    } catch (error) {
+        console.warn('Could not save calculator state:', error);
+    }
+}
+
+/**
+ * Reads the saved snapshot, if there is a usable one
+ *
+ * Data that cannot be read is removed so it is not tried again.
+ *
+ * @param storage - Where to load from (defaults to localStorage)
+ * @param key - Key the snapshot was saved under
+ * @returns The restored snapshot, or null to start fresh
+ */
+export function loadSnapshot(storage: Storage | null = defaultStorage(), key: string = STORAGE_KEY): Snapshot | null {
+    let text: string | null;
+    try {
+        text = storage?.getItem(key) ?? null;
+    } catch (error) {
+        console.warn('Could not read calculator state:', error);
+        return null;
+    }
+
+    if (text === null) {
+        return null;
+    }
+
+    try {
+        return deserializeSnapshot(text);
+    } catch (error) {
+        console.warn('Discarding unreadable calculator state:', error);
+        try {
+            storage?.removeItem(key);
+        } catch {
+            // Nothing more to do; the next save overwrites it
+        }
+        return null;
+    }
+}
+
+/**
+ * Converts a snapshot to versioned JSON
+ *
+ * @example
+ * ```typescript
+ * serializeSnapshot({ state, settings }); // '{"version":1,"state":{"currentValue":"42",…},"settings":{…}}'
+ * ```
+ */
+export function serializeSnapshot(snapshot: Snapshot): string {
+    const { state } = snapshot;
+
+    return JSON.stringify({
+        version: SNAPSHOT_VERSION,
+        state: {
+            currentValue: state.currentValue,
+            previousValue: state.previousValue?.toString() ?? null,
+            operator: state.operator,
+            stack: state.stack.map((frame) =>
+                frame.kind === 'operation' ? { ...frame, operand: frame.operand.toString() } : frame),
+            expression: state.expression,
+            operandLabel: state.operandLabel,
+            tape: state.tape.map((entry) => ({ expression: entry.expression, result: entry.result.toString() })),
+            waitingForNewValue: state.waitingForNewValue,
+            awaitingOperand: state.awaitingOperand,
+            lastOperation: state.lastOperation
+                ? { operator: state.lastOperation.operator, operand: state.lastOperation.operand.toString() }
+                : null,
+            mode: state.mode,
+            angleMode: state.angleMode,
+            immediateExecution: state.immediateExecution,
+            base: state.base,
+            wordSize: state.wordSize,
+            signed: state.signed,
+            memory: state.memory.toString(),
+            registers: Object.fromEntries(Object.entries(state.registers).map(([name, value]) => [name, value.toString()])),
+        },
+        settings: snapshot.settings,
+    });
+}
+
+/**
+ * Restores a snapshot from JSON written by serializeSnapshot, migrating older versions
+ *
+ * A snapshot whose state is invalid keeps its settings, and the other way round.
+ *
+ * @throws {Error} When the text is not a snapshot or comes from a newer version
+ */
+export function deserializeSnapshot(text: string): Snapshot {
+    const data = migrateSnapshot(objectValue(JSON.parse(text), 'snapshot'));
+
+    return {
+        state: recover(() => readState(data.state), INITIAL_STATE, 'state'),
+        settings: recover(() => readSettings(data.settings), DEFAULT_SETTINGS, 'settings'),
+    };
+}
+
+/**
+ * Upgrades stored data to SNAPSHOT_VERSION
+ *
+ * @param data - Parsed snapshot of any version
+ * @param migrations - Upgrade steps, MIGRATIONS[n] taking version n + 1 to n + 2
+ * @throws {Error} When the version is missing, unknown or newer than this build
+ *
+ * @example
+ * ```typescript
+ * migrateSnapshot({ version: 1, state, settings }); // Returned as is
+ * ```
+ */
+export function migrateSnapshot(
+    data: Record<string, unknown>,
+    migrations: readonly Migration[] = MIGRATIONS,
+): Record<string, unknown> {
+    const latest = migrations.length + 1;
+    let version = data.version;
+
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new Error(`Unknown snapshot version: ${String(version)}`);
+    }
+    if (version > latest) {
+        throw new Error(`Snapshot version ${version} is newer than ${latest}`);
+    }
+
+    while (version < latest) {
+        data = { ...migrations[version - 1](data), version: version + 1 };
+        version++;
+    }
+
+    return data;
+}
+
+/**
+ * Falls back to a default when part of a snapshot cannot be read
+ */
+function recover<T>(read: () => T, fallback: T, part: string): T {
+    try {
+        return read();
+    } catch (error) {
+        console.warn(`Discarding saved calculator ${part}:`, error);
+        return fallback;
+    }
+}
+
+function readState(value: unknown): CalculatorState {
+    const data = objectValue(value, 'state');
+    const readOperation: Reader<{ operator: BinaryOperator; operand: Decimal }> = (operation, path) => ({
+        operator: memberValue(objectValue(operation, path).operator, `${path}.operator`, isOperator),
+        operand: decimalValue(objectValue(operation, path).operand, `${path}.operand`),
+    });
+
+    return Object.freeze({
+        currentValue: numberText(data.currentValue, 'currentValue'),
+        previousValue: nullable(decimalValue)(data.previousValue, 'previousValue'),
+        operator: data.operator === null ? null : memberValue(data.operator, 'operator', isOperator),
+        stack: arrayValue(data.stack, 'stack', (frame, path): StackFrame =>
+            objectValue(frame, path).kind === 'paren' ? { kind: 'paren' } : { kind: 'operation', ...readOperation(frame, path) }),
+        expression: arrayValue(data.expression, 'expression', stringValue),
+        operandLabel: nullable(stringValue)(data.operandLabel, 'operandLabel'),
+        tape: arrayValue(data.tape, 'tape', (entry, path): TapeEntry => ({
+            expression: stringValue(objectValue(entry, path).expression, `${path}.expression`),
+            result: decimalValue(objectValue(entry, path).result, `${path}.result`),
+        })),
+        waitingForNewValue: booleanValue(data.waitingForNewValue, 'waitingForNewValue'),
+        awaitingOperand: booleanValue(data.awaitingOperand, 'awaitingOperand'),
+        lastOperation: nullable(readOperation)(data.lastOperation, 'lastOperation'),
+        mode: memberValue(data.mode, 'mode', oneOf<CalculatorMode>(['basic', 'scientific', 'programmer'])),
+        angleMode: memberValue(data.angleMode, 'angleMode', oneOf<AngleMode>(['deg', 'rad'])),
+        immediateExecution: booleanValue(data.immediateExecution, 'immediateExecution'),
+        base: memberValue(data.base, 'base', oneOf(NUMBER_BASES)),
+        wordSize: memberValue(data.wordSize, 'wordSize', oneOf(WORD_SIZES)),
+        signed: booleanValue(data.signed, 'signed'),
+        memory: decimalValue(data.memory, 'memory'),
+        registers: Object.fromEntries(Object.entries(objectValue(data.registers, 'registers')).map(([name, register]) => {
+            if (!isRegisterName(name)) {
+                throw new Error(`registers.${name} is not a register`);
+            }
+            return [name, decimalValue(register, `registers.${name}`)];
+        })),
+        error: null,
+    });
+}
+
+function readSettings(value: unknown): CalculatorSettings {
+    const data = objectValue(value, 'settings');
+    const locale = stringValue(data.locale ?? DEFAULT_SETTINGS.locale, 'locale');
+    getNumberSymbols(locale);   // Throws a RangeError for tags this browser does not know
+
+    return Object.freeze({
+        ...DEFAULT_SETTINGS,
+        locale,
+        useGrouping: booleanValue(data.useGrouping ?? DEFAULT_SETTINGS.useGrouping, 'useGrouping'),
+        currencyRates: Object.fromEntries(Object.entries(objectValue(data.currencyRates ?? {}, 'currencyRates'))
+            .filter((entry): entry is [string, string] => isRateValue(entry[1], `currencyRates.${entry[0]}`))),
+        keyBindings: arrayValue(data.keyBindings ?? [], 'keyBindings', readKeyBinding),
+        theme: memberValue(data.theme ?? DEFAULT_SETTINGS.theme, 'theme', isThemeName),
+        accentColor: accentColorValue(data.accentColor ?? DEFAULT_SETTINGS.accentColor, 'accentColor'),
+    });
+}
+
+/**
+ * Checks a saved exchange rate; rates that are not positive numbers are dropped
+ * (a zero rate would make every conversion through it divide by zero)
+ */
+function isRateValue(value: unknown, path: string): boolean {
+    try {
+        return isValidRate(numberText(value, path));
+    } catch {
+        return false;
+    }
+}
+
+function readKeyBinding(value: unknown, path: string): KeyBinding {
+    const data = objectValue(value, path);
+    const keys = stringValue(data.keys, `${path}.keys`);
+    parseShortcut(keys);   // Throws for shortcuts that cannot match a key
+
+    const binding = { keys, command: memberValue(data.command, `${path}.command`, isKeyCommand) };
+    return data.context === undefined
+        ? binding
+        : { ...binding, context: memberValue(data.context, `${path}.context`, oneOf<KeyContext>(['basic', 'scientific', 'programmer', 'hex'])) };
+}
+
+function objectValue(value: unknown, path: string): Record<string, unknown> {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new Error(`${path} is not an object`);
+    }
+    return value as Record<string, unknown>;
+}
+
+function arrayValue<T>(value: unknown, path: string, readItem: Reader<T>): T[] {
+    if (!Array.isArray(value)) {
+        throw new Error(`${path} is not an array`);
+    }
+    return value.map((item, index) => readItem(item, `${path}[${index}]`));
+}
+
+function stringValue(value: unknown, path: string): string {
+    if (typeof value !== 'string') {
+        throw new Error(`${path} is not a string`);
+    }
+    return value;
+}
+
+function booleanValue(value: unknown, path: string): boolean {
+    if (typeof value !== 'boolean') {
+        throw new Error(`${path} is not a boolean`);
+    }
+    return value;
+}
+
+/** Number text as kept in currentValue, which may be an unfinished entry such as "12." */
+function numberText(value: unknown, path: string): string {
+    if (typeof value !== 'string' || !Decimal.isDecimal(value)) {
+        throw new Error(`${path} is not a number`);
+    }
+
+    // Checked before anything parses it: "1e999999999" would otherwise hang every page load
+    const exponent = EXPONENT_PATTERN.exec(value);
+    if (value.length > MAX_NUMBER_LENGTH || (exponent && Math.abs(parseInt(exponent[1], 10)) > MAX_EXPONENT)) {
+        throw new Error(`${path} is out of range`);
+    }
+    return value;
+}
+
+function accentColorValue(value: unknown, path: string): string {
+    const color = stringValue(value, path);
+    if (color !== '' && !isAccentColor(color)) {
+        throw new Error(`${path} is not a #rrggbb color`);
+    }
+    return color;
+}
+
+function decimalValue(value: unknown, path: string): Decimal {
+    return Decimal.parse(numberText(value, path));
+}
+
+function memberValue<T>(value: unknown, path: string, isMember: (value: unknown) => value is T): T {
+    if (!isMember(value)) {
+        throw new Error(`${path} has an unknown value: ${String(value)}`);
+    }
+    return value;
+}
+
+function oneOf<T>(members: readonly T[]): (value: unknown) => value is T {
+    return (value): value is T => members.includes(value as T);
+}
+
+function isOperator(value: unknown): value is BinaryOperator {
+    return typeof value === 'string' && isBinaryOperator(value);
+}
+
+function nullable<T>(read: Reader<T>): Reader<T | null> {
+    return (value, path) => (value === null ? null : read(value, path));
+}
@@ -0,0 +1,114 @@
+/**
+ * Color themes and the operator accent color
+ *
+ * The palettes live in input.css, picked by a data-theme attribute that the
+ * calculator sets on the page (or on its <macos-calculator> element):
+ *
+ * - system: Light or dark, following the operating system's
+ *   prefers-color-scheme
+ * - light, dark: Always that palette
+ * - high-contrast: Black and white keys with a yellow accent, every text
+ *   and key color at least 7:1 against its background (WCAG AAA)
+ *
+ * The operator keys can use any #rrggbb color instead of the theme's
+ * orange. accentVariables() derives the hover shade and a readable text
+ * color from it; the pressed (.active) operator shows the accent as text.
+ */
+
+/**
+ * Themes the user can choose between
+ */
+export type ThemeName = 'system' | 'light' | 'dark' | 'high-contrast';
+
+/** Themes in the order the settings panel lists them */
+export const THEMES: readonly ThemeName[] = ['system', 'light', 'dark', 'high-contrast'];
+
+/** CSS custom properties an accent color sets */
+export const ACCENT_VARIABLES = ['--accent', '--accent-hover', '--accent-text'] as const;
+
+export type AccentVariable = typeof ACCENT_VARIABLES[number];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const WHITE = '#ffffff';
+const BLACK = '#000000';
+
+/** How far the hover shade moves the accent towards white */
+const HOVER_TINT = 0.3;
+
+/**
+ * Checks whether a value names a theme
+ */
+export function isThemeName(value: unknown): value is ThemeName {
+    return THEMES.includes(value as ThemeName);
+}
+
+/**
+ * Checks whether text is a color the accent can be set to: #rrggbb
+ *
+ * @example
+ * ```typescript
+ * isAccentColor('#0a84ff'); // true
+ * isAccentColor('blue');    // false
+ * ```
+ */
+export function isAccentColor(text: string): boolean {
+    return HEX_COLOR.test(text);
+}
+
+/**
+ * Contrast ratio between two #rrggbb colors as defined by WCAG 2
+ *
+ * Ranges from 1 (same luminance) to 21 (black on white). Text needs 4.5
+ * for level AA and 7 for AAA; large text and controls need 3.
+ *
+ * @example
+ * ```typescript
+ * contrastRatio('#ffffff', '#000000'); // 21
+ * ```
+ */
+export function contrastRatio(foreground: string, background: string): number {
+    const [lighter, darker] = [relativeLuminance(foreground), relativeLuminance(background)].sort((a, b) => b - a);
+    return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Custom property values for an accent color
+ *
+ * The key text is black or white, whichever contrasts more with the accent.
+ *
+ * @param accent - A #rrggbb color
+ *
+ * @example
+ * ```typescript
+ * accentVariables('#0a84ff');
+ * // { "--accent": "#0a84ff", "--accent-hover": "#54a9ff", "--accent-text": "#000000" }
+ * ```
+ */
+export function accentVariables(accent: string): Record<AccentVariable, string> {
+    if (!isAccentColor(accent)) {
+        throw new Error(`Not a #rrggbb color: ${accent}`);
+    }
+
+    return {
+        '--accent': accent.toLowerCase(),
+        '--accent-hover': toHex(channels(accent).map((channel) => channel + (255 - channel) * HOVER_TINT)),
+        '--accent-text': contrastRatio(WHITE, accent) >= contrastRatio(BLACK, accent) ? WHITE : BLACK,
+    };
+}
+
+function relativeLuminance(color: string): number {
+    const [r, g, b] = channels(color).map((channel) => {
+        const value = channel / 255;
+        return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+    });
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+function channels(color: string): number[] {
+    return [1, 3, 5].map((start) => parseInt(color.slice(start, start + 2), 16));
+}
+
+function toHex(channels: number[]): string {
+    return `#${channels.map((channel) => Math.round(channel).toString(16).padStart(2, '0')).join('')}`;
+}
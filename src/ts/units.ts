@@ -0,0 +1,180 @@
+/**
+ * Unit conversion: an offline table of units and exact conversion
+ *
+ * Every unit is defined against its category's base unit (metre, kilogram,
+ * kelvin, litre, byte, second) by an exact rational factor, plus an offset
+ * for temperature scales:
+ *
+ *   base = (value + offset) × factor
+ *
+ * so °F → °C is ((°F + 459.67) × 5/9) − 273.15 with no rounding until the
+ * single division at the end. Factors are the legal definitions (1 in is
+ * exactly 0.0254 m, 1 lb exactly 0.45359237 kg, 1 US gal exactly 3.785411784 L).
+ */
+
+import { Decimal } from './decimal.js';
+import { ConversionError } from './errors.js';
+
+/**
+ * Quantity a unit measures; units convert only within their category
+ */
+export type UnitCategory = 'length' | 'mass' | 'temperature' | 'volume' | 'dataSize' | 'time';
+
+/**
+ * A unit of measure
+ */
+export interface Unit {
+    /** Short identifier used by the convert action, e.g. "ft" */
+    readonly id: string;
+    readonly category: UnitCategory;
+    /** Name shown in the unit pickers */
+    readonly name: string;
+    /** Symbol printed on the paper tape */
+    readonly symbol: string;
+    /** Base units per unit, as an exact fraction */
+    readonly factor: { readonly numerator: Decimal; readonly denominator: Decimal };
+    /** Added before scaling (temperature scales only) */
+    readonly offset: Decimal;
+}
+
+/** Category names in the order they are offered */
+export const UNIT_CATEGORIES: Readonly<Record<UnitCategory, string>> = {
+    length: 'Length',
+    mass: 'Mass',
+    temperature: 'Temperature',
+    volume: 'Volume',
+    dataSize: 'Data Size',
+    time: 'Time',
+};
+
+/**
+ * Builds a unit from its factor to the base unit
+ *
+ * @param factor - Base units per unit, as decimal text or "numerator/denominator"
+ * @param offset - Amount added before scaling, as decimal text
+ */
+function unit(id: string, category: UnitCategory, name: string, symbol: string, factor: string, offset = '0'): Unit {
+    const [numerator, denominator = '1'] = factor.split('/');
+    return {
+        id,
+        category,
+        name,
+        symbol,
+        factor: { numerator: Decimal.parse(numerator), denominator: Decimal.parse(denominator) },
+        offset: Decimal.parse(offset),
+    };
+}
+
+/**
+ * All units, grouped by category in picker order
+ */
+export const UNITS: readonly Unit[] = [
+    unit('mm', 'length', 'Millimetres', 'mm', '0.001'),
+    unit('cm', 'length', 'Centimetres', 'cm', '0.01'),
+    unit('m', 'length', 'Metres', 'm', '1'),
+    unit('km', 'length', 'Kilometres', 'km', '1000'),
+    unit('in', 'length', 'Inches', 'in', '0.0254'),
+    unit('ft', 'length', 'Feet', 'ft', '0.3048'),
+    unit('yd', 'length', 'Yards', 'yd', '0.9144'),
+    unit('mi', 'length', 'Miles', 'mi', '1609.344'),
+    unit('nmi', 'length', 'Nautical miles', 'nmi', '1852'),
+
+    unit('mg', 'mass', 'Milligrams', 'mg', '0.000001'),
+    unit('g', 'mass', 'Grams', 'g', '0.001'),
+    unit('kg', 'mass', 'Kilograms', 'kg', '1'),
+    unit('t', 'mass', 'Tonnes', 't', '1000'),
+    unit('oz', 'mass', 'Ounces', 'oz', '0.028349523125'),
+    unit('lb', 'mass', 'Pounds', 'lb', '0.45359237'),
+    unit('st', 'mass', 'Stones', 'st', '6.35029318'),
+
+    unit('C', 'temperature', 'Celsius', '°C', '1', '273.15'),
+    unit('F', 'temperature', 'Fahrenheit', '°F', '5/9', '459.67'),
+    unit('K', 'temperature', 'Kelvin', 'K', '1'),
+    unit('R', 'temperature', 'Rankine', '°R', '5/9'),
+
+    unit('mL', 'volume', 'Millilitres', 'mL', '0.001'),
+    unit('L', 'volume', 'Litres', 'L', '1'),
+    unit('m3', 'volume', 'Cubic metres', 'm³', '1000'),
+    unit('tsp', 'volume', 'Teaspoons (US)', 'tsp', '0.00492892159375'),
+    unit('tbsp', 'volume', 'Tablespoons (US)', 'tbsp', '0.01478676478125'),
+    unit('floz', 'volume', 'Fluid ounces (US)', 'fl oz', '0.0295735295625'),
+    unit('cup', 'volume', 'Cups (US)', 'cup', '0.2365882365'),
+    unit('pt', 'volume', 'Pints (US)', 'pt', '0.473176473'),
+    unit('qt', 'volume', 'Quarts (US)', 'qt', '0.946352946'),
+    unit('gal', 'volume', 'Gallons (US)', 'gal', '3.785411784'),
+    unit('galUK', 'volume', 'Gallons (UK)', 'gal (UK)', '4.54609'),
+
+    unit('bit', 'dataSize', 'Bits', 'bit', '1/8'),
+    unit('B', 'dataSize', 'Bytes', 'B', '1'),
+    unit('kB', 'dataSize', 'Kilobytes', 'kB', '1000'),
+    unit('MB', 'dataSize', 'Megabytes', 'MB', '1000000'),
+    unit('GB', 'dataSize', 'Gigabytes', 'GB', '1000000000'),
+    unit('TB', 'dataSize', 'Terabytes', 'TB', '1000000000000'),
+    unit('KiB', 'dataSize', 'Kibibytes', 'KiB', '1024'),
+    unit('MiB', 'dataSize', 'Mebibytes', 'MiB', '1048576'),
+    unit('GiB', 'dataSize', 'Gibibytes', 'GiB', '1073741824'),
+    unit('TiB', 'dataSize', 'Tebibytes', 'TiB', '1099511627776'),
+
+    unit('ms', 'time', 'Milliseconds', 'ms', '0.001'),
+    unit('s', 'time', 'Seconds', 's', '1'),
+    unit('min', 'time', 'Minutes', 'min', '60'),
+    unit('h', 'time', 'Hours', 'h', '3600'),
+    unit('d', 'time', 'Days', 'd', '86400'),
+    unit('wk', 'time', 'Weeks', 'wk', '604800'),
+    unit('yr', 'time', 'Years (365.25 days)', 'yr', '31557600'),
+];
+
+/**
+ * Looks up a unit by its id
+ *
+ * @throws {ConversionError} When no unit has the id
+ */
+export function findUnit(id: string): Unit {
+    const found = UNITS.find((candidate) => candidate.id === id);
+    if (!found) {
+        throw new ConversionError(`Unknown unit: ${id}`);
+    }
+    return found;
+}
+
+/**
+ * Units of one category, in picker order
+ */
+export function unitsIn(category: UnitCategory): Unit[] {
+    return UNITS.filter((candidate) => candidate.category === category);
+}
+
+/**
+ * Converts a value between two units of the same category
+ *
+ * @param value - Amount in the from unit
+ * @param fromId - Id of the unit the value is in
+ * @param toId - Id of the unit to convert to
+ * @throws {ConversionError} When a unit is unknown, the units measure different things,
+ *   or a temperature is below absolute zero
+ *
+ * @example
+ * ```typescript
+ * convert(Decimal.parse('12'), 'in', 'cm').toString();  // "30.48"
+ * convert(Decimal.parse('212'), 'F', 'C').toString();   // "100"
+ * ```
+ */
+export function convert(value: Decimal, fromId: string, toId: string): Decimal {
+    const from = findUnit(fromId);
+    const to = findUnit(toId);
+
+    if (from.category !== to.category) {
+        throw new ConversionError(`Cannot convert ${from.name.toLowerCase()} to ${to.name.toLowerCase()}`);
+    }
+
+    const shifted = value.plus(from.offset);
+    if (from.category === 'temperature' && shifted.isNegative()) {
+        throw new ConversionError('Below absolute zero');
+    }
+
+    // One division at the end keeps terminating results exact
+    const numerator = shifted.times(from.factor.numerator).times(to.factor.denominator);
+    const result = numerator.dividedBy(from.factor.denominator.times(to.factor.numerator));
+
+    return result.minus(to.offset);
+}
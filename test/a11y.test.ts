@@ -0,0 +1,66 @@
+import axe from 'axe-core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Calculator } from '../src/ts/calculator';
+import { CalculatorMode } from '../src/ts/engine';
+import '../src/ts/element';
+import { mountCalculator, pressKeys } from './helpers';
+
+/**
+ * Runs the axe-core rules on the calculator markup and lists the violations
+ *
+ * The body is checked rather than the document, as the test page has no
+ * title or language of its own. Color contrast needs a layout engine,
+ * which jsdom does not have; the themes' contrast is checked in
+ * theme.test.ts instead.
+ */
+async function violations(): Promise<string[]> {
+    const results = await axe.run(document.body, { rules: { 'color-contrast': { enabled: false } } });
+    return results.violations.map((violation) =>
+        `${violation.id}: ${violation.nodes.map((node) => node.target.join(' ')).join(', ')}`);
+}
+
+describe('axe checks', () => {
+    let calculator: Calculator;
+
+    beforeEach(() => {
+        localStorage.clear();
+        calculator = mountCalculator();
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.unstubAllGlobals();
+    });
+
+    it.each<CalculatorMode>(['basic', 'scientific', 'programmer'])('finds no violations in %s mode', async (mode) => {
+        calculator.setMode(mode);
+
+        expect(await violations()).toEqual([]);
+    });
+
+    it('finds no violations with every panel open', async () => {
+        calculator.use({ name: 'tax', buttons: [{ label: '+VAT', action: { type: 'percent' } }] });
+        pressKeys(['6', '*', '7', 'Enter']);
+        calculator.toggleTape();
+        calculator.toggleSettings();
+        calculator.toggleConverter();
+        calculator.toggleShortcutHelp();
+
+        expect(await violations()).toEqual([]);
+    });
+
+    it('finds no violations while an error is shown', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        pressKeys(['1', '/', '0', 'Enter']);
+
+        expect(await violations()).toEqual([]);
+    });
+
+    it('finds no violations with calculators embedded as elements', async () => {
+        vi.stubGlobal('fetch', () => Promise.resolve(new Response('', { status: 404 })));
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        document.body.append(document.createElement('macos-calculator'), document.createElement('macos-calculator'));
+
+        expect(await violations()).toEqual([]);
+    });
+});
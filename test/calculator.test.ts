@@ -0,0 +1,998 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Calculator } from '../src/ts/calculator';
+import { Decimal } from '../src/ts/decimal';
+import { BinaryOperator } from '../src/ts/engine';
+import { MAX_NESTING } from '../src/ts/expression';
+import { CalculatorPlugin } from '../src/ts/plugins';
+import { ThemeName } from '../src/ts/theme';
+import { buttonLabelled, clickButtons, displayText, mountCalculator, pasteText, pressKeys } from './helpers';
+
+interface SequenceCase {
+    name: string;
+    keys: string[];
+    display: string;
+    currentValue?: string;
+    operator?: BinaryOperator | null;
+}
+
+describe('Calculator', () => {
+    let calculator: Calculator;
+
+    beforeEach(() => {
+        localStorage.clear();
+        calculator = mountCalculator();
+        calculator.updateSettings({ locale: 'en-US' });
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.useRealTimers();
+    });
+
+    describe('key sequences', () => {
+        const cases: SequenceCase[] = [
+            { name: 'builds multi-digit numbers', keys: ['1', '2', '3'], display: '123', operator: null },
+            { name: 'replaces the leading zero', keys: ['0', '0', '7'], display: '7' },
+            { name: 'adds', keys: ['1', '2', '+', '3', 'Enter'], display: '15', operator: null },
+            { name: 'keeps the pending operator until equals', keys: ['2', '+', '3'], display: '3', operator: '+' },
+            { name: 'chains left to right at equal precedence', keys: ['8', '-', '3', '-', '2', '='], display: '3' },
+            { name: 'shows the running total when chaining', keys: ['8', '-', '3', '-'], display: '5', operator: '-' },
+            { name: 'respects operator precedence', keys: ['5', '+', '3', '*', '2', 'Enter'], display: '11' },
+            { name: 'suspends a lower-precedence operator', keys: ['5', '+', '3', '*'], display: '3', operator: '*' },
+            { name: 'replaces an operator pressed twice', keys: ['5', '+', '*', '2', 'Enter'], display: '10' },
+            { name: 'groups with parentheses', keys: ['2', '*', '(', '3', '+', '4', ')', 'Enter'], display: '14' },
+            { name: 'closes open parentheses on equals', keys: ['2', '*', '(', '3', '+', '4', 'Enter'], display: '14' },
+            { name: 'adds decimals exactly', keys: ['0', '.', '1', '+', '0', '.', '2', 'Enter'], display: '0.3' },
+            { name: 'ignores a second decimal point', keys: ['1', '.', '5', '.', '2'], display: '1.52' },
+            { name: 'repeats the last operation on repeated equals', keys: ['2', '*', '3', '=', '=', '='], display: '54' },
+            { name: 'uses the display when the operand is omitted', keys: ['5', '+', 'Enter'], display: '10' },
+            { name: 'applies the last operation to a new entry', keys: ['2', '*', '3', '=', '5', '='], display: '15' },
+            { name: 'removes the last digit', keys: ['1', '2', '3', 'Backspace'], display: '12' },
+            { name: 'resets to zero when every digit is removed', keys: ['7', 'Backspace'], display: '0' },
+            {
+                name: 'leaves a result untouched on backspace after equals',
+                keys: ['1', '2', '+', '3', 'Enter', 'Backspace'],
+                display: '15',
+                currentValue: '15',
+                operator: null,
+            },
+            { name: 'clears the entry with Escape', keys: ['5', '+', '3', 'Escape'], display: '0', currentValue: '0', operator: '+' },
+            { name: 'clears everything with a second Escape', keys: ['5', '+', '3', 'Escape', 'Escape'], display: '0', operator: null },
+            { name: 'clears with c', keys: ['5', '+', '3', 'c', 'c'], display: '0', operator: null },
+            { name: 'continues the calculation after C', keys: ['5', '+', '3', 'c', '2', 'Enter'], display: '7' },
+        ];
+
+        it.each(cases)('$name', ({ keys, display, currentValue, operator }) => {
+            pressKeys(keys);
+
+            expect(displayText()).toBe(display);
+            expect(calculator.currentValue).toBe(currentValue ?? display);
+            if (operator !== undefined) {
+                expect(calculator.operator).toBe(operator);
+            }
+        });
+
+        it('does not log clicks or display updates', () => {
+            const log = vi.spyOn(console, 'log');
+            clickButtons(['7', 'Multiply', '6', 'Equals']);
+
+            expect(displayText()).toBe('42');
+            expect(log).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('percent', () => {
+        const cases: SequenceCase[] = [
+            { name: 'takes a percentage of the operand for +', keys: ['2', '0', '0', '+', '1', '0', '%'], display: '20', operator: '+' },
+            { name: 'marks up with +', keys: ['2', '0', '0', '+', '1', '0', '%', 'Enter'], display: '220' },
+            { name: 'takes a percentage of the operand for -', keys: ['2', '0', '0', '-', '1', '0', '%'], display: '20', operator: '-' },
+            { name: 'discounts with -', keys: ['2', '0', '0', '-', '1', '0', '%', 'Enter'], display: '180' },
+            { name: 'divides by 100 for ×', keys: ['2', '0', '0', '*', '1', '0', '%'], display: '0.1', operator: '*' },
+            { name: 'multiplies by the fraction with ×', keys: ['2', '0', '0', '*', '1', '0', '%', 'Enter'], display: '20' },
+            { name: 'divides by 100 for ÷', keys: ['2', '0', '0', '/', '1', '0', '%'], display: '0.1', operator: '/' },
+            { name: 'divides by the fraction with ÷', keys: ['2', '0', '0', '/', '1', '0', '%', 'Enter'], display: '2,000' },
+            { name: 'divides by 100 with no pending operator', keys: ['5', '0', '%'], display: '0.5', operator: null },
+        ];
+
+        it.each(cases)('$name', ({ keys, display, operator }) => {
+            pressKeys(keys);
+
+            expect(displayText()).toBe(display);
+            if (operator !== undefined) {
+                expect(calculator.operator).toBe(operator);
+            }
+        });
+
+        it('starts a new number after percent', () => {
+            pressKeys(['5', '0', '%', '3']);
+
+            expect(displayText()).toBe('3');
+        });
+    });
+
+    describe('display formatting', () => {
+        it.each([
+            ['switches to exponent notation past nine digits', ['1', '2', '3', '4', '5', '6', '7', '8', '9', '0'], '1.234568e9'],
+            ['keeps digits being typed', ['0', '.', '5', '0'], '0.50'],
+            ['fills the display with significant digits', ['1', '/', '3', 'Enter'], '0.33333333'],
+            ['rounds the last digit', ['2', '/', '3', 'Enter'], '0.66666667'],
+            ['drops trailing zeros of rounded results', ['9', '9', '9', '9', '9', '*', '9', '9', '9', '9', '9', 'Enter'], '9.9998e9'],
+            ['rounds long fractions instead of using exponents', ['1', '2', '3', '4', '5', '.', '6', '7', '8', '9', '0', '1'], '12,345.6789'],
+            ['shows negative results', ['0', '-', '1', '2', '3', '4', '5', '6', '7', '8', '9', '0', 'Enter'], '-1.234568e9'],
+        ])('%s', (_name, keys, display) => {
+            pressKeys(keys);
+
+            expect(displayText()).toBe(display);
+        });
+
+        it('keeps the full value behind a rounded display', () => {
+            pressKeys(['1', '2', '3', '4', '5', '6', '7', '8', '9', '0']);
+
+            expect(calculator.currentValue).toBe('1234567890');
+        });
+
+        it('shows more digits in Scientific mode', () => {
+            pressKeys(['2'], { ctrlKey: true });
+            pressKeys(['1', '/', '3', 'Enter']);
+
+            expect(displayText()).toBe('0.333333333333333');
+        });
+
+        it('shrinks the font in proportion to the overflow', () => {
+            const display = document.getElementById('display') as HTMLElement;
+            const style = document.createElement('style');
+            style.textContent = '.display { font-size: 48px; }';
+            document.head.append(style);
+            Object.defineProperty(display, 'clientWidth', { configurable: true, value: 240 });
+            Object.defineProperty(display, 'scrollWidth', { configurable: true, get: () => display.textContent!.length * 30 });
+
+            pressKeys(['1', '2', '3', '4', '5', '6', '7', '8']);
+            expect(display.style.fontSize).toBe('38px');
+
+            pressKeys(['Escape']);
+            expect(display.style.fontSize).toBe('');
+            style.remove();
+        });
+    });
+
+    describe('locale', () => {
+        it('shows the locale\'s separators', () => {
+            calculator.updateSettings({ locale: 'de-DE' });
+            pressKeys(['1', '2', '3', '4', ',', '5']);
+
+            expect(displayText()).toBe('1.234,5');
+            expect(calculator.currentValue).toBe('1234.5');
+        });
+
+        it('labels the decimal key with the locale\'s decimal mark', () => {
+            calculator.updateSettings({ locale: 'fr-FR' });
+
+            expect(buttonLabelled('Decimal point').textContent).toBe(',');
+        });
+
+        it('hides thousands separators when grouping is off', () => {
+            (document.querySelector('.grouping-checkbox') as HTMLInputElement).click();
+            pressKeys(['1', '2', '3', '4', '5']);
+
+            expect(displayText()).toBe('12345');
+        });
+
+        it('keeps the current settings for an unknown locale', () => {
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+            calculator.updateSettings({ locale: 'not a locale' });
+
+            expect(calculator.settings.locale).toBe('en-US');
+        });
+    });
+
+    describe('theme', () => {
+        const root = document.documentElement;
+
+        it('follows the system theme until one is chosen', () => {
+            expect(calculator.settings.theme).toBe('system');
+            expect(root.dataset.theme).toBe('system');
+        });
+
+        it('applies the theme chosen in the settings panel', () => {
+            const select = document.querySelector('.theme-select') as HTMLSelectElement;
+            select.value = 'light';
+            select.dispatchEvent(new Event('change'));
+
+            expect(root.dataset.theme).toBe('light');
+            expect(calculator.settings.theme).toBe('light');
+        });
+
+        it('sets the operator colors from the accent color', () => {
+            const input = document.querySelector('.accent-input') as HTMLInputElement;
+            input.value = '#0a84ff';
+            input.dispatchEvent(new Event('input'));
+
+            expect(root.style.getPropertyValue('--accent')).toBe('#0a84ff');
+            expect(root.style.getPropertyValue('--accent-text')).toBe('#000000');
+            expect((document.querySelector('.accent-reset') as HTMLElement).hidden).toBe(false);
+
+            (document.querySelector('.accent-reset') as HTMLElement).click();
+
+            expect(root.style.getPropertyValue('--accent')).toBe('');
+            expect(input.value).toBe('#ff9500');
+        });
+
+        it('keeps its own accent in the high-contrast theme', () => {
+            calculator.updateSettings({ theme: 'high-contrast', accentColor: '#0a84ff' });
+
+            expect(root.style.getPropertyValue('--accent')).toBe('');
+            expect((document.querySelector('.accent-input') as HTMLInputElement).disabled).toBe(true);
+        });
+
+        it('rejects unknown themes and accent colors', () => {
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+            calculator.updateSettings({ theme: 'sepia' as ThemeName });
+            calculator.updateSettings({ accentColor: 'orange' });
+
+            expect(calculator.settings.theme).toBe('system');
+            expect(calculator.settings.accentColor).toBe('');
+        });
+    });
+
+    describe('errors', () => {
+        const announcement = (): string => document.querySelector('.announcer')?.textContent ?? '';
+        const hasErrorStyle = (): boolean => document.getElementById('display')?.classList.contains('error-state') ?? false;
+
+        beforeEach(() => {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+        });
+
+        it('names the error on the display and announces it', () => {
+            pressKeys(['5', '/', '0', 'Enter']);
+
+            expect(displayText()).toBe('Cannot divide by 0');
+            expect(calculator.error?.code).toBe('divisionByZero');
+            expect(hasErrorStyle()).toBe(true);
+            expect(announcement()).toBe('Error: Division by zero');
+            expect(buttonLabelled('All Clear')?.textContent).toBe('AC');
+        });
+
+        it('starts a new calculation with the next digit', () => {
+            pressKeys(['5', '/', '0', 'Enter', '7']);
+
+            expect(calculator.error).toBeNull();
+            expect(hasErrorStyle()).toBe(false);
+            expect(announcement()).toBe('');
+
+            pressKeys(['+', '1', 'Enter']);
+            expect(displayText()).toBe('8');
+        });
+
+        it('stays on the display without a timer', () => {
+            vi.useFakeTimers();
+            pressKeys(['5', '/', '0', 'Enter']);
+            vi.advanceTimersByTime(10000);
+
+            expect(displayText()).toBe('Cannot divide by 0');
+        });
+
+        it('clears with AC', () => {
+            pressKeys(['5', '/', '0', 'Enter', 'Escape']);
+
+            expect(displayText()).toBe('0');
+            expect(calculator.operator).toBeNull();
+            expect(hasErrorStyle()).toBe(false);
+        });
+
+        it('returns to the state before the failed action on undo', () => {
+            pressKeys(['5', '/', '0', 'Enter']);
+            calculator.undo();
+
+            expect(displayText()).toBe('0');
+            expect(calculator.operator).toBe('/');
+            expect(calculator.previousValue?.toString()).toBe('5');
+        });
+    });
+
+    describe('buttons', () => {
+        it('calculates from button clicks', () => {
+            clickButtons(['7', 'Multiply', '6', 'Equals']);
+
+            expect(displayText()).toBe('42');
+        });
+
+        it('highlights the active operator until the next input', () => {
+            clickButtons(['7', 'Multiply']);
+            expect(buttonLabelled('Multiply').classList.contains('active')).toBe(true);
+
+            clickButtons(['6']);
+            expect(buttonLabelled('Multiply').classList.contains('active')).toBe(false);
+        });
+
+        it('toggles the sign', () => {
+            clickButtons(['9', 'Plus or minus, toggle sign']);
+
+            expect(displayText()).toBe('-9');
+        });
+
+        it('applies percent from the percent key', () => {
+            clickButtons(['2', '0', '0', 'Add', '1', '0', 'Percent', 'Equals']);
+
+            expect(displayText()).toBe('220');
+        });
+
+        it('switches the clear key between C and AC', () => {
+            const clearKey = (): HTMLButtonElement => document.querySelector('.btn[data-type="clear"]') as HTMLButtonElement;
+            expect(clearKey().textContent).toBe('AC');
+
+            clickButtons(['8', 'Add', '5']);
+            expect(clearKey().textContent).toBe('C');
+            expect(clearKey().getAttribute('aria-label')).toBe('Clear');
+
+            clickButtons(['Clear']);
+            expect(clearKey().textContent).toBe('AC');
+            expect(calculator.operator).toBe('+');
+
+            clickButtons(['2', 'Equals']);
+            expect(displayText()).toBe('10');
+
+            clickButtons(['Clear', 'All Clear']);
+            expect(calculator.currentValue).toBe('0');
+            expect(calculator.previousValue).toBeNull();
+        });
+
+        it('clears everything at once with Option+Escape', () => {
+            pressKeys(['5', '+', '3']);
+            pressKeys(['Escape'], { altKey: true, code: 'Escape' });
+
+            expect(calculator.operator).toBeNull();
+            expect(displayText()).toBe('0');
+        });
+    });
+
+    describe('expression entry', () => {
+        const editor = (): HTMLInputElement => document.querySelector('.expression-input') as HTMLInputElement;
+
+        it('evaluates a pasted formula', () => {
+            pasteText('12*(3+4)/7');
+
+            expect(displayText()).toBe('12');
+            expect(calculator.engine.getState().tape.at(-1)?.expression).toBe('12*(3+4)/7');
+        });
+
+        it('uses a pasted result as the operand of a pending operator', () => {
+            pressKeys(['5', '+']);
+            pasteText('2*3');
+            pressKeys(['Enter']);
+
+            expect(displayText()).toBe('11');
+        });
+
+        it('opens the editor at the error position for a malformed paste', () => {
+            pasteText('12*)3');
+
+            expect(editor().hidden).toBe(false);
+            expect(editor().value).toBe('12*)3');
+            expect(editor().selectionStart).toBe(3);
+            expect(document.querySelector('.expression-error')?.textContent).toBe('Unexpected ")" at position 4');
+        });
+
+        it('reports deeply nested pastes as a formula error', () => {
+            pasteText('('.repeat(10000) + '1');
+
+            expect(editor().hidden).toBe(false);
+            expect(editor().selectionStart).toBe(MAX_NESTING);
+            expect(document.querySelector('.expression-error')?.textContent).toBe(`Too deeply nested at position ${MAX_NESTING + 1}`);
+        });
+
+        it('reports a pasted number too large for the calculator', () => {
+            pasteText('1e999999999');
+
+            expect(editor().hidden).toBe(false);
+            expect(document.querySelector('.expression-error')?.textContent).toBe('Result is too large at position 1');
+        });
+
+        it('shows an overflow for pasted powers that grow too large', () => {
+            pasteText('((10^300)^1000)^100');
+
+            expect(displayText()).toBe('Overflow');
+        });
+
+        it('opens the editor on double-click and evaluates on Enter', () => {
+            document.getElementById('display')?.dispatchEvent(new MouseEvent('dblclick', { bubbles: true }));
+            editor().value = '2^10';
+            editor().dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }));
+
+            expect(editor().hidden).toBe(true);
+            expect(displayText()).toBe('1,024');
+        });
+
+        it('does not treat keys typed in the editor as calculator input', () => {
+            pressKeys(['e'], { ctrlKey: true });
+            editor().dispatchEvent(new KeyboardEvent('keydown', { key: '7', bubbles: true }));
+
+            expect(calculator.currentValue).toBe('0');
+        });
+
+        it('cancels the editor with Escape', () => {
+            pressKeys(['4', '2']);
+            pressKeys(['e'], { ctrlKey: true });
+            editor().value = '1+1';
+            editor().dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+
+            expect(editor().hidden).toBe(true);
+            expect(displayText()).toBe('42');
+        });
+    });
+
+    describe('clipboard', () => {
+        const copyText = (): string => {
+            let copied = '';
+            const event = new Event('copy', { bubbles: true, cancelable: true });
+            Object.defineProperty(event, 'clipboardData', { value: { setData: (_type: string, text: string) => { copied = text; } } });
+            document.body.dispatchEvent(event);
+            return copied;
+        };
+
+        it('copies the full-precision result', () => {
+            pressKeys(['2', '/', '3', 'Enter']);
+
+            expect(displayText()).toBe('0.66666667');
+            expect(copyText()).toBe('0.6666666666666666666666666666666667');
+        });
+
+        it('copies the word in the selected base in Programmer mode', () => {
+            pressKeys(['3'], { ctrlKey: true });
+            (document.querySelector('.base-btn[data-base="16"]') as HTMLElement).click();
+            pressKeys(['f', 'f']);
+
+            expect(copyText()).toBe('FF');
+        });
+
+        it('does not clear on Ctrl+C', () => {
+            pressKeys(['4', '2']);
+            pressKeys(['c'], { ctrlKey: true });
+            pressKeys(['c'], { metaKey: true });
+
+            expect(displayText()).toBe('42');
+        });
+
+        it('pastes numbers with grouping separators and currency symbols', () => {
+            pasteText('$1,234.50');
+
+            expect(displayText()).toBe('1,234.5');
+            expect(calculator.currentValue).toBe('1234.5');
+            expect(calculator.engine.getState().tape).toHaveLength(0);
+        });
+
+        it('reads pasted numbers with the locale\'s separators', () => {
+            calculator.updateSettings({ locale: 'de-DE' });
+            pasteText('1.234,5 €');
+
+            expect(calculator.currentValue).toBe('1234.5');
+        });
+
+        it('uses a pasted number as the operand of a pending operator', () => {
+            pressKeys(['2', '*']);
+            pasteText('1,000');
+            pressKeys(['Enter']);
+
+            expect(displayText()).toBe('2,000');
+        });
+
+        it('reads pasted digits in the selected base in Programmer mode', () => {
+            pressKeys(['3'], { ctrlKey: true });
+            (document.querySelector('.base-btn[data-base="2"]') as HTMLElement).click();
+            pasteText('1010 0101');
+
+            expect(calculator.currentValue).toBe('165');
+        });
+
+        it('shows an error for text that is not a number', () => {
+            pasteText('12 apples');
+
+            expect(calculator.currentValue).toBe('0');
+            expect((document.querySelector('.expression-input') as HTMLInputElement).hidden).toBe(false);
+            expect(document.querySelector('.expression-error')?.textContent).toBe('Unknown name "apples" at position 4');
+        });
+
+        it('offers Copy and Paste on right-click', async () => {
+            const writeText = vi.fn().mockResolvedValue(undefined);
+            const readText = vi.fn().mockResolvedValue('99');
+            Object.defineProperty(navigator, 'clipboard', { configurable: true, value: { writeText, readText } });
+            const menu = document.querySelector('.display-menu') as HTMLElement;
+            const openMenu = (): void => {
+                document.getElementById('display')?.dispatchEvent(new MouseEvent('contextmenu', { bubbles: true, cancelable: true }));
+            };
+
+            pressKeys(['1', '/', '8', 'Enter']);
+            openMenu();
+            expect(menu.hidden).toBe(false);
+            (menu.querySelector('[data-command="copy"]') as HTMLElement).click();
+            expect(menu.hidden).toBe(true);
+            expect(writeText).toHaveBeenCalledWith('0.125');
+
+            openMenu();
+            (menu.querySelector('[data-command="paste"]') as HTMLElement).click();
+            await vi.waitFor(() => expect(calculator.currentValue).toBe('99'));
+
+            Reflect.deleteProperty(navigator, 'clipboard');
+        });
+
+        it('closes the context menu with Escape without clearing', () => {
+            const menu = document.querySelector('.display-menu') as HTMLElement;
+            pressKeys(['7']);
+            document.getElementById('display')?.dispatchEvent(new MouseEvent('contextmenu', { bubbles: true, cancelable: true }));
+            menu.querySelector('.display-menu-item')?.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+
+            expect(menu.hidden).toBe(true);
+            expect(displayText()).toBe('7');
+        });
+    });
+
+    describe('unit converter', () => {
+        const select = (selector: string, value: string): void => {
+            const picker = document.querySelector(selector) as HTMLSelectElement;
+            picker.value = value;
+            picker.dispatchEvent(new Event('change', { bubbles: true }));
+        };
+        const convertButton = (): HTMLElement => document.querySelector('.convert-action') as HTMLElement;
+
+        it('converts the display and keeps calculating with the result', () => {
+            (document.querySelector('.convert-toggle') as HTMLElement).click();
+            expect((document.querySelector('.convert-panel') as HTMLElement).hidden).toBe(false);
+
+            pressKeys(['1', '2']);
+            select('.unit-from', 'in');
+            select('.unit-to', 'cm');
+            convertButton().click();
+            expect(displayText()).toBe('30.48');
+
+            pressKeys(['*', '2', 'Enter']);
+            expect(displayText()).toBe('60.96');
+        });
+
+        it('offers the units of the chosen category and swaps them', () => {
+            select('.unit-category', 'temperature');
+            select('.unit-from', 'C');
+            select('.unit-to', 'F');
+            (document.querySelector('.unit-swap') as HTMLElement).click();
+            pressKeys(['2', '1', '2']);
+            convertButton().click();
+
+            expect(displayText()).toBe('100');
+        });
+
+        it('shows an error below absolute zero', () => {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+            pasteText('-500');
+            select('.unit-category', 'temperature');
+            convertButton().click();
+
+            expect(displayText()).toBe('Cannot convert');
+        });
+
+        it('converts currencies at the bundled rates and shows their date', async () => {
+            await calculator.loadCurrencyRates();
+            select('.unit-category', 'currency');
+            select('.unit-from', 'EUR');
+            select('.unit-to', 'JPY');
+            pressKeys(['1', '0', '.', '5']);
+            convertButton().click();
+
+            expect(displayText()).toBe('1,810');
+            expect((document.querySelector('.rate-input') as HTMLInputElement).value).toBe('172.35');
+            expect(document.querySelector('.rate-date')?.textContent).toBe('Rates of Oct 1, 2026');
+        });
+
+        it('keeps a rate entered by the user in the settings', async () => {
+            await calculator.loadCurrencyRates();
+            select('.unit-category', 'currency');
+            select('.unit-from', 'USD');
+            select('.unit-to', 'EUR');
+            const rateInput = document.querySelector('.rate-input') as HTMLInputElement;
+            rateInput.value = '0.9';
+            rateInput.dispatchEvent(new Event('change'));
+            pressKeys(['2', '0']);
+            convertButton().click();
+
+            expect(displayText()).toBe('18');
+            expect(calculator.settings.currencyRates).toEqual({ USD: '1.111111111111111111111111111111111' });
+            expect(document.querySelector('.rate-date')?.textContent).toBe('Your rate');
+
+            (document.querySelector('.rate-reset') as HTMLElement).click();
+            expect(calculator.settings.currencyRates).toEqual({});
+            expect(rateInput.value).toBe('0.852224');
+        });
+
+        it('resets only the rate of the pair shown', async () => {
+            await calculator.loadCurrencyRates();
+            calculator.setCurrencyRate('EUR', 'USD', '1.2');
+            calculator.setCurrencyRate('USD', 'JPY', '150');
+            select('.unit-category', 'currency');
+            select('.unit-from', 'USD');
+            select('.unit-to', 'JPY');
+
+            (document.querySelector('.rate-reset') as HTMLElement).click();
+            expect(calculator.settings.currencyRates).toEqual({ USD: '1.2' });
+            expect(document.querySelector('.rate-date')?.textContent).toBe('Your rate');
+            expect((document.querySelector('.rate-reset') as HTMLElement).hidden).toBe(true);
+        });
+
+        it('marks a typed rate too large to use as invalid', async () => {
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+            await calculator.loadCurrencyRates();
+            select('.unit-category', 'currency');
+            const rateInput = document.querySelector('.rate-input') as HTMLInputElement;
+            rateInput.value = '1e999999999';
+            rateInput.dispatchEvent(new Event('change'));
+
+            expect(rateInput.getAttribute('aria-invalid')).toBe('true');
+            expect(calculator.settings.currencyRates).toEqual({});
+        });
+
+        it('rejects a rate that is not a positive number', async () => {
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+            await calculator.loadCurrencyRates();
+
+            expect(calculator.setCurrencyRate('EUR', 'USD', '0')).toBe(false);
+            expect(calculator.setCurrencyRate('EUR', 'USD', 'cheap')).toBe(false);
+            expect(calculator.setCurrencyRate('EUR', 'USD', '1e999999999')).toBe(false);
+            expect(calculator.settings.currencyRates).toEqual({});
+        });
+
+        it('leaves Currency unavailable when the rates cannot be loaded', async () => {
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+            calculator = mountCalculator(async () => new Response('Not Found', { status: 404 }));
+
+            expect(await calculator.loadCurrencyRates()).toBe(false);
+            expect((document.querySelector('.unit-category option[value="currency"]') as HTMLOptionElement).disabled).toBe(true);
+            expect(calculator.convertCurrency('EUR', 'USD')).toBe(false);
+        });
+    });
+
+    describe('undo', () => {
+        it('undoes AC with Ctrl+Z and redoes it with Shift+Ctrl+Z', () => {
+            pressKeys(['1', '2', '+', '5', 'Escape']);
+
+            pressKeys(['z'], { ctrlKey: true });
+            expect(displayText()).toBe('5');
+
+            pressKeys(['Enter']);
+            expect(displayText()).toBe('17');
+
+            pressKeys(['z'], { metaKey: true });
+            pressKeys(['Z'], { metaKey: true, shiftKey: true });
+            expect(displayText()).toBe('17');
+        });
+
+        it('undoes a mistaken operator', () => {
+            pressKeys(['8', '*']);
+            pressKeys(['z'], { ctrlKey: true });
+            pressKeys(['-', '3', 'Enter']);
+
+            expect(displayText()).toBe('5');
+        });
+
+        it('does nothing when there is nothing to undo', () => {
+            expect(calculator.undo()).toBe(false);
+            expect(calculator.redo()).toBe(false);
+        });
+    });
+
+    describe('persistence', () => {
+        it('restores the display, pending operation, memory and settings after a reload', () => {
+            calculator.updateSettings({ locale: 'de-DE' });
+            pressKeys(['3'], { ctrlKey: true });
+            pressKeys(['4', '2']);
+            pressKeys(['π'], { altKey: true, code: 'KeyP' });
+            pressKeys(['*', '2']);
+
+            calculator = mountCalculator();
+            expect(displayText()).toBe('2');
+            expect(calculator.settings.locale).toBe('de-DE');
+            expect(calculator.calculatorWindow.classList.contains('mode-programmer')).toBe(true);
+
+            pressKeys(['Enter']);
+            expect(displayText()).toBe('84');
+            expect(calculator.engine.getState().memory.toString()).toBe('42');
+        });
+
+        it('keeps every digit of a saved result', () => {
+            pressKeys(['1', '/', '3', 'Enter']);
+
+            calculator = mountCalculator();
+            expect(calculator.currentValue).toBe('0.3333333333333333333333333333333333');
+        });
+
+        it('starts fresh when the saved state is corrupt', () => {
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+            localStorage.setItem('macos-calculator', '{"version":1,"state":');
+
+            calculator = mountCalculator();
+            expect(displayText()).toBe('0');
+        });
+    });
+
+    describe('modes', () => {
+        it('switches to Scientific mode with Ctrl+2', () => {
+            pressKeys(['2'], { ctrlKey: true });
+
+            expect(calculator.calculatorWindow.classList.contains('mode-scientific')).toBe(true);
+        });
+
+        it('raises to a power with ^', () => {
+            pressKeys(['2', '^', '3', '^', '2', 'Enter']);
+
+            expect(displayText()).toBe('512');
+        });
+
+        it('enters hex digits from the keyboard in Programmer mode', () => {
+            pressKeys(['3'], { ctrlKey: true });
+            (document.querySelector('.base-btn[data-base="16"]') as HTMLElement).click();
+            pressKeys(['f', 'f']);
+
+            expect(displayText()).toBe('FF');
+            expect(calculator.currentValue).toBe('255');
+        });
+    });
+
+    describe('keyboard shortcuts', () => {
+        const help = (): HTMLElement => document.querySelector('.shortcut-help') as HTMLElement;
+
+        it('opens the shortcut list on ? and closes it with Escape without clearing', () => {
+            pressKeys(['4', '2', '?']);
+
+            expect(help().hidden).toBe(false);
+            expect(help().textContent).toContain('Memory add (M+)');
+            expect(document.activeElement).toBe(help().querySelector('.shortcut-help-close'));
+
+            document.activeElement?.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+            expect(help().hidden).toBe(true);
+            expect(displayText()).toBe('42');
+        });
+
+        it('changes sign with Option+Minus', () => {
+            pressKeys(['5']);
+            pressKeys(['–'], { altKey: true, code: 'Minus' });
+
+            expect(displayText()).toBe('-5');
+        });
+
+        it('runs scientific functions in Scientific mode', () => {
+            pressKeys(['2'], { ctrlKey: true });
+            pressKeys(['8', '1', 'q']);
+
+            expect(displayText()).toBe('9');
+        });
+
+        it('remaps keys and keeps the bindings in the settings', () => {
+            expect(calculator.bindKey('m', 'memoryAdd')).toBe(true);
+            expect(calculator.bindKey('c', 'none')).toBe(true);
+            pressKeys(['7', 'm', 'c']);
+            expect(displayText()).toBe('7');
+
+            pressKeys(['Escape']);
+            pressKeys(['®'], { altKey: true, code: 'KeyR' });
+            expect(displayText()).toBe('7');
+
+            calculator = mountCalculator();
+            expect(calculator.getKeymap().slice(0, 2)).toEqual([{ keys: 'c', command: 'none' }, { keys: 'm', command: 'memoryAdd' }]);
+
+            calculator.resetKeymap();
+            pressKeys(['1', 'c']);
+            expect(displayText()).toBe('0');
+        });
+
+        it('lists remapped keys in the shortcut list', () => {
+            calculator.bindKey('Mod+M', 'memoryRecall');
+            pressKeys(['?']);
+
+            expect(help().textContent).toMatch(/Memory recall \(MR\)(⌘M|Ctrl\+M) (⌥R|Alt\+R)/);
+        });
+
+        it('uses Alt for the memory keys and leaves Ctrl+R to the browser', () => {
+            pressKeys(['4', '2']);
+            const reload = new KeyboardEvent('keydown', { key: 'r', ctrlKey: true, bubbles: true, cancelable: true });
+            document.dispatchEvent(reload);
+            document.dispatchEvent(new KeyboardEvent('keydown', { key: 'π', code: 'KeyP', altKey: true, bubbles: true }));
+
+            expect(reload.defaultPrevented).toBe(false);
+            expect(calculator.engine.getState().memory.toString()).toBe('42');
+        });
+
+        it('rejects shortcuts it cannot read', () => {
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+            expect(calculator.bindKey('Hyper+M', 'memoryAdd')).toBe(false);
+            expect(calculator.settings.keyBindings).toEqual([]);
+        });
+    });
+
+    describe('accessibility', () => {
+        const announcement = (): string => document.querySelector('.announcer')?.textContent ?? '';
+        const grid = (label: string): HTMLElement => document.querySelector(`[role="grid"][aria-label="${label}"]`) as HTMLElement;
+        const tabStops = (label: string): string[] => Array.from(grid(label).querySelectorAll<HTMLButtonElement>('.btn'))
+            .filter((key) => key.tabIndex === 0)
+            .map((key) => key.getAttribute('aria-label') ?? '');
+
+        /** Focuses a key and presses a key on it, as a keyboard user would */
+        function pressOn(label: string, key: string, init: KeyboardEventInit = {}): void {
+            const button = buttonLabelled(label);
+            button.focus();
+            button.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init }));
+        }
+
+        const focused = (): string | null | undefined => document.activeElement?.getAttribute('aria-label');
+
+        it('gives each key grid a single Tab stop', () => {
+            expect(tabStops('Calculator buttons')).toEqual(['All Clear']);
+            expect(tabStops('Scientific functions')).toEqual(['Open parenthesis']);
+            expect(tabStops('Memory registers')).toEqual(['Store in register']);
+        });
+
+        it('moves between keys with the arrow keys', () => {
+            pressOn('5', 'ArrowRight');
+            expect(focused()).toBe('6');
+
+            pressOn('6', 'ArrowUp');
+            expect(focused()).toBe('9');
+
+            pressOn('9', 'End');
+            expect(focused()).toBe('Multiply');
+
+            pressOn('Multiply', 'ArrowRight');
+            expect(focused()).toBe('Multiply');
+
+            pressOn('Multiply', 'End', { ctrlKey: true });
+            expect(focused()).toBe('Equals');
+            expect(tabStops('Calculator buttons')).toEqual(['Equals']);
+            expect(displayText()).toBe('0');
+        });
+
+        it('moves through the wide 0 key by column', () => {
+            pressOn('2', 'ArrowDown');
+            expect(focused()).toBe('0');
+
+            pressOn('0', 'ArrowRight');
+            expect(focused()).toBe('Decimal point');
+
+            pressOn('1', 'ArrowDown');
+            expect(focused()).toBe('0');
+        });
+
+        it('skips disabled keys and moves the Tab stop off them', () => {
+            pressOn('7', 'ArrowRight');
+            calculator.setMode('programmer');
+            calculator.dispatch({ type: 'setBase', base: 2 });
+
+            expect(tabStops('Calculator buttons')).toEqual(['All Clear']);
+
+            pressOn('0', 'ArrowRight');
+            expect(focused()).toBe('Equals');
+
+            pressOn('1', 'ArrowUp');
+            expect(focused()).toBe('All Clear');
+        });
+
+        it('presses the focused key on Enter instead of running =', () => {
+            pressKeys(['4']);
+            pressOn('2', 'Enter');
+
+            expect(calculator.currentValue).toBe('4');
+            expect(announcement()).toBe('');
+        });
+
+        it('announces the pending calculation and the result with operators as words', () => {
+            pressKeys(['6', '*']);
+            expect(announcement()).toBe('6 times');
+            expect(document.getElementById('display')?.getAttribute('aria-label')).toBe('Calculator display showing: 6, after 6 times');
+
+            pressKeys(['(', '8', '/']);
+            expect(announcement()).toBe('6 times open parenthesis 8 divided by');
+
+            pressKeys(['2', ')', 'Enter']);
+            expect(announcement()).toBe('6 times open parenthesis 8 divided by 2 close parenthesis equals 24');
+        });
+
+        it('announces function results', () => {
+            calculator.setMode('scientific');
+            clickButtons(['9', 'Square root']);
+
+            expect(announcement()).toBe('square root of 9 equals 3');
+        });
+
+        it('reads out a repeated announcement again', () => {
+            pressKeys(['6', '*']);
+            const first = announcement();
+            calculator.undo();
+            calculator.redo();
+
+            expect(first).toBe('6 times');
+            expect(announcement()).not.toBe(first);
+            expect(announcement().trim()).toBe(first);
+        });
+    });
+
+    describe('host API', () => {
+        const pluginKeys = (): HTMLElement => document.querySelector('.plugin-keys') as HTMLElement;
+        const vat: CalculatorPlugin = {
+            name: 'tax',
+            functions: [{ name: 'vat', label: 'VAT', apply: (x) => x.times(Decimal.parse('1.2')) }],
+            buttons: [{ label: '+VAT', title: 'Add 20% VAT', action: { type: 'customFunction', name: 'vat' } }],
+        };
+
+        it('runs dispatched actions like key presses', () => {
+            calculator.dispatch({ type: 'enterNumber', value: '6' });
+            calculator.dispatch({ type: 'operator', operator: '*' });
+            calculator.dispatch({ type: 'enterNumber', value: '7' });
+
+            expect(calculator.dispatch({ type: 'equals' })).toBe(true);
+            expect(displayText()).toBe('42');
+        });
+
+        it('tells listeners about values, results, errors and modes', () => {
+            const events: string[] = [];
+            calculator.on('valuechange', ({ value }) => events.push(`value ${value}`));
+            calculator.on('result', ({ entry }) => events.push(`result ${entry.expression} = ${entry.result.toString()}`));
+            calculator.on('error', ({ error }) => events.push(`error ${error.code}`));
+            calculator.on('modechange', ({ mode }) => events.push(`mode ${mode}`));
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+
+            pressKeys(['2', '+', '3', 'Enter', '/', '0', 'Enter']);
+            calculator.setMode('scientific');
+
+            expect(events).toEqual(['value 2', 'value 3', 'value 5', 'result 2 + 3 = 5', 'value 0', 'error divisionByZero', 'mode scientific', 'value 0']);
+        });
+
+        it('reports undo as a value change', () => {
+            pressKeys(['4', '2']);
+            const listener = vi.fn();
+            calculator.on('valuechange', listener);
+            calculator.undo();
+
+            expect(listener).toHaveBeenCalledWith(expect.objectContaining({ value: '4' }));
+        });
+
+        it('stops calling a listener removed with off', () => {
+            const listener = vi.fn();
+            calculator.on('valuechange', listener);
+            calculator.off('valuechange', listener);
+            pressKeys(['4']);
+
+            expect(listener).not.toHaveBeenCalled();
+        });
+
+        it('adds plugin keys that apply plugin functions', () => {
+            const remove = calculator.use(vat);
+            pasteText('50');
+            buttonLabelled('Add 20% VAT').click();
+
+            expect(pluginKeys().hidden).toBe(false);
+            expect(displayText()).toBe('60');
+            expect(calculator.enterExpression('vat(10)')).toBe(true);
+            expect(displayText()).toBe('12');
+
+            remove();
+            expect(pluginKeys().hidden).toBe(true);
+            expect(() => buttonLabelled('Add 20% VAT')).toThrow();
+        });
+
+        it('runs plugin setup and cleanup', () => {
+            const cleanup = vi.fn();
+            const remove = calculator.use({ name: 'logger', setup: (host) => {
+                const stop = host.on('valuechange', () => {});
+                return () => {
+                    stop();
+                    cleanup();
+                };
+            } });
+
+            remove();
+            remove();
+            expect(cleanup).toHaveBeenCalledTimes(1);
+        });
+
+        it('refuses a plugin added twice', () => {
+            const remove = calculator.use(vat);
+
+            expect(() => calculator.use(vat)).toThrow('Plugin already added: tax');
+            remove();
+        });
+    });
+});
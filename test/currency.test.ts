@@ -0,0 +1,103 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+    convertAmount,
+    crossRate,
+    currencyCodes,
+    minorUnits,
+    overrideRate,
+    parseRateTable,
+    resetRate,
+} from '../src/ts/currency';
+import { Decimal } from '../src/ts/decimal';
+
+const table = parseRateTable(JSON.parse(readFileSync(resolve(__dirname, '../src/data/currency-rates.json'), 'utf8')));
+
+describe('parseRateTable', () => {
+    it('reads the bundled rate table', () => {
+        expect(table.base).toBe('EUR');
+        expect(table.date).toBe('2026-10-01');
+        expect(table.rates.EUR.toString()).toBe('1');
+        expect(table.rates.USD.toString()).toBe('1.1734');
+    });
+
+    it('accepts rates written as JSON numbers', () => {
+        expect(parseRateTable({ base: 'USD', date: '2026-10-01', rates: { EUR: 0.85 } }).rates.EUR.toString()).toBe('0.85');
+    });
+
+    it.each([
+        ['a missing base', { date: '2026-10-01', rates: {} }],
+        ['a missing date', { base: 'EUR', rates: {} }],
+        ['missing rates', { base: 'EUR', date: '2026-10-01' }],
+        ['a negative rate', { base: 'EUR', date: '2026-10-01', rates: { USD: '-1' } }],
+        ['a zero rate', { base: 'EUR', date: '2026-10-01', rates: { USD: '0' } }],
+        ['a bad code', { base: 'EUR', date: '2026-10-01', rates: { dollar: '1' } }],
+    ])('rejects %s', (_name, data) => {
+        expect(() => parseRateTable(data)).toThrow();
+    });
+});
+
+describe('crossRate', () => {
+    it('converts through the base currency', () => {
+        expect(crossRate(table, {}, 'EUR', 'USD').toString()).toBe('1.1734');
+        expect(crossRate(table, {}, 'USD', 'EUR').toSignificantDigits(6).toString()).toBe('0.852224');
+        expect(crossRate(table, {}, 'GBP', 'JPY').toSignificantDigits(6).toString()).toBe('197.831');
+    });
+
+    it('prefers the user\'s rates', () => {
+        expect(crossRate(table, { USD: '1.25' }, 'EUR', 'USD').toString()).toBe('1.25');
+    });
+
+    it('rejects unknown currencies', () => {
+        expect(() => crossRate(table, {}, 'EUR', 'XYZ')).toThrow('Unknown currency: XYZ');
+    });
+});
+
+describe('overrideRate', () => {
+    it('stores a pair rate against the base currency', () => {
+        const overrides = overrideRate(table, {}, 'USD', 'JPY', '150');
+
+        expect(overrides).toEqual({ JPY: '176.01' });
+        expect(crossRate(table, overrides, 'USD', 'JPY').toString()).toBe('150');
+    });
+
+    it('overrides the other currency when converting to the base', () => {
+        const overrides = overrideRate(table, {}, 'GBP', 'EUR', '1.25');
+
+        expect(overrides).toEqual({ GBP: '0.8' });
+    });
+});
+
+describe('resetRate', () => {
+    it('removes the override overrideRate stored for the pair', () => {
+        expect(resetRate(table, { JPY: '176.01', USD: '1.2' }, 'USD', 'JPY')).toEqual({ USD: '1.2' });
+        expect(resetRate(table, { GBP: '0.8', USD: '1.2' }, 'GBP', 'EUR')).toEqual({ USD: '1.2' });
+    });
+});
+
+describe('convertAmount', () => {
+    it.each([
+        ['100', '1.1734', 'USD', '117.34'],
+        ['10.5', '172.35', 'JPY', '1810'],
+        ['2.345', '1', 'EUR', '2.35'],
+        ['-2.345', '1', 'EUR', '-2.35'],
+        ['0.004', '1', 'EUR', '0'],
+        ['0.0009', '1', 'EUR', '0'],
+        ['1', '0.30712', 'KWD', '0.307'],
+    ])('%s at %s → %s %s', (amount, rate, currency, expected) => {
+        expect(convertAmount(Decimal.parse(amount), Decimal.parse(rate), currency).toString()).toBe(expected);
+    });
+});
+
+describe('currencyCodes', () => {
+    it('lists the base currency first, then alphabetically', () => {
+        expect(currencyCodes(table).slice(0, 3)).toEqual(['EUR', 'AUD', 'BGN']);
+    });
+});
+
+describe('minorUnits', () => {
+    it.each([['EUR', 2], ['JPY', 0], ['KWD', 3]])('%s has %i decimals', (code, places) => {
+        expect(minorUnits(code)).toBe(places);
+    });
+});
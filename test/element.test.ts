@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Decimal } from '../src/ts/decimal';
+import { CalculatorElement } from '../src/ts/element';
+import { CalculatorPlugin } from '../src/ts/plugins';
+import { displayText, mountCalculator, pressKeys } from './helpers';
+
+/**
+ * Adds a <macos-calculator> with the given attributes to the page
+ */
+function addElement(attributes: Record<string, string> = {}): CalculatorElement {
+    const element = document.createElement('macos-calculator');
+    Object.entries(attributes).forEach(([name, value]) => element.setAttribute(name, value));
+    document.body.append(element);
+    return element;
+}
+
+/**
+ * Presses keys with focus inside an element, as after clicking it
+ */
+function pressKeysIn(element: CalculatorElement, keys: readonly string[]): void {
+    const target = element.shadowRoot?.querySelector<HTMLElement>('#display');
+    keys.forEach((key) => {
+        target?.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, composed: true }));
+    });
+}
+
+const displayOf = (element: CalculatorElement): string =>
+    element.shadowRoot?.querySelector('#display')?.textContent ?? '';
+
+describe('<macos-calculator>', () => {
+    beforeEach(() => {
+        vi.stubGlobal('fetch', () => Promise.resolve(new Response('', { status: 404 })));
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        localStorage.clear();
+        document.body.innerHTML = '';
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.unstubAllGlobals();
+    });
+
+    it('renders a calculator in its shadow root', () => {
+        const element = addElement();
+
+        expect(element).toBeInstanceOf(CalculatorElement);
+        expect(element.calculator).not.toBeNull();
+        expect(element.shadowRoot?.querySelector('.calculator-window')).not.toBeNull();
+        expect(document.querySelector('.calculator-window')).toBeNull();
+    });
+
+    it('keeps side-by-side calculators independent', () => {
+        const left = addElement();
+        const right = addElement();
+
+        pressKeysIn(left, ['1', '2', '+', '3', 'Enter']);
+        pressKeysIn(right, ['7']);
+        left.shadowRoot?.querySelector<HTMLElement>('.btn[data-type="negate"]')?.click();
+
+        expect(displayOf(left)).toBe('-15');
+        expect(displayOf(right)).toBe('7');
+    });
+
+    it('keeps plugin functions to the calculator they were added to', () => {
+        const left = addElement();
+        const right = addElement();
+        const page = mountCalculator();
+        const vat: CalculatorPlugin = {
+            name: 'tax',
+            functions: [{ name: 'vat', label: 'VAT', apply: (x) => x.times(Decimal.parse('1.2')) }],
+            buttons: [{ label: '+VAT', title: 'Add 20% VAT', action: { type: 'customFunction', name: 'vat' } }],
+        };
+        const vatKey = (element: CalculatorElement): HTMLElement | null =>
+            element.shadowRoot?.querySelector<HTMLElement>('[aria-label="Add 20% VAT"]') ?? null;
+
+        const removeLeft = left.calculator?.use(vat);
+        right.calculator?.use(vat);
+        pressKeysIn(right, ['5', '0']);
+        vatKey(right)?.click();
+
+        expect(displayOf(right)).toBe('60');
+        expect(page.enterExpression('vat(10)')).toBe(false);
+
+        removeLeft?.();
+        expect(vatKey(left)).toBeNull();
+        expect(right.calculator?.enterExpression('vat(10)')).toBe(true);
+        expect(displayOf(right)).toBe('12');
+    });
+
+    it('keeps its keys from the page calculator, and the page\'s keys from it', () => {
+        const page = mountCalculator();
+        const element = addElement();
+
+        pressKeysIn(element, ['8']);
+        pressKeys(['3']);
+
+        expect(displayOf(element)).toBe('8');
+        expect(displayText()).toBe('3');
+        expect(page.currentValue).toBe('3');
+    });
+
+    it('ignores keys pressed outside every calculator', () => {
+        const element = addElement();
+
+        document.body.dispatchEvent(new KeyboardEvent('keydown', { key: '5', bubbles: true }));
+
+        expect(displayOf(element)).toBe('0');
+    });
+
+    it('applies the mode, locale, theme and accent attributes', () => {
+        const element = addElement({ mode: 'scientific', locale: 'de-DE', theme: 'dark', accent: '#0a84ff' });
+        pressKeysIn(element, ['1', '2', '3', '4', ',', '5']);
+
+        expect(element.calculator?.engine.getState().mode).toBe('scientific');
+        expect(displayOf(element)).toBe('1.234,5');
+        expect(element.dataset.theme).toBe('dark');
+        expect(element.style.getPropertyValue('--accent')).toBe('#0a84ff');
+
+        element.setAttribute('mode', 'programmer');
+        element.removeAttribute('theme');
+        element.removeAttribute('accent');
+
+        expect(element.calculator?.engine.getState().mode).toBe('programmer');
+        expect(element.dataset.theme).toBe('system');
+        expect(element.style.getPropertyValue('--accent')).toBe('');
+    });
+
+    it('keeps the page theme and its own theme apart', () => {
+        const page = mountCalculator();
+        const element = addElement({ theme: 'high-contrast' });
+        page.updateSettings({ theme: 'light' });
+
+        expect(document.documentElement.dataset.theme).toBe('light');
+        expect(element.dataset.theme).toBe('high-contrast');
+    });
+
+    it('reflects mode switches back to the attribute', () => {
+        const element = addElement();
+        element.calculator?.setMode('programmer');
+
+        expect(element.getAttribute('mode')).toBe('programmer');
+    });
+
+    it('dispatches calculator events on the element', () => {
+        const element = addElement();
+        const results: string[] = [];
+        document.addEventListener('calculatorresult', (event) => {
+            results.push((event as CustomEvent).detail.entry.result.toString());
+        }, { once: true });
+
+        pressKeysIn(element, ['6', '*', '7', 'Enter']);
+
+        expect(results).toEqual(['42']);
+    });
+
+    it('saves state under its id only', () => {
+        pressKeysIn(addElement({ id: 'budget' }), ['4', '2']);
+        pressKeysIn(addElement(), ['9']);
+
+        expect(Object.keys(localStorage)).toEqual(['macos-calculator:budget']);
+
+        document.body.innerHTML = '';
+        expect(displayOf(addElement({ id: 'budget' }))).toBe('42');
+    });
+});
@@ -0,0 +1,401 @@
+import { describe, expect, it } from 'vitest';
+import { Decimal } from '../src/ts/decimal';
+import {
+    CalculatorAction,
+    CalculatorEngine,
+    CalculatorState,
+    canClearEntry,
+    HISTORY_LIMIT,
+    INITIAL_STATE,
+    reduce,
+} from '../src/ts/engine';
+import { DivisionByZeroError } from '../src/ts/errors';
+import { FunctionRegistry } from '../src/ts/expression';
+import { formatTapeAsCsv } from '../src/ts/history';
+
+/**
+ * Runs a space-separated script through a fresh engine
+ *
+ * Digits and "." are typed, operators are pressed and "=" calculates;
+ * anything else must be given as an action object.
+ */
+function run(script: string | CalculatorAction[], initialState: CalculatorState = INITIAL_STATE): CalculatorState {
+    const engine = new CalculatorEngine(initialState);
+    const actions = typeof script === 'string' ? script.split(' ').flatMap(toActions) : script;
+    actions.forEach((action) => engine.dispatch(action));
+    return engine.getState();
+}
+
+function toActions(token: string): CalculatorAction[] {
+    if (token === '=') {
+        return [{ type: 'equals' }];
+    }
+    if (token === '%') {
+        return [{ type: 'percent' }];
+    }
+    if (['+', '-', '*', '/'].includes(token)) {
+        return [{ type: 'operator', operator: token as '+' | '-' | '*' | '/' }];
+    }
+    return token.split('').map((char): CalculatorAction => (char === '.' ? { type: 'decimal' } : { type: 'digit', digit: char }));
+}
+
+describe('reduce', () => {
+    it('never modifies the input state', () => {
+        const next = reduce(INITIAL_STATE, { type: 'digit', digit: '4' });
+
+        expect(INITIAL_STATE.currentValue).toBe('0');
+        expect(next.currentValue).toBe('4');
+        expect(Object.isFrozen(next)).toBe(true);
+    });
+
+    it('reports errors in the state instead of throwing', () => {
+        const state = run('1 / 0 =');
+
+        expect(state.error?.code).toBe('divisionByZero');
+        expect(state.error?.message).toBe('Division by zero');
+        expect(state.currentValue).toBe('0');
+    });
+
+    it.each([
+        ['overflow', [...toActions('1'), { type: 'operator', operator: 'ee' }, ...toActions('99999'), { type: 'equals' }]],
+        ['notANumber', [...toActions('1'), { type: 'negate' }, { type: 'function', name: 'sqrt' }]],
+        ['syntax', [{ type: 'expression', source: '2 +' }]],
+        ['divisionByZero', [{ type: 'expression', source: '1 + 2 / 0' }]],
+    ] as [string, CalculatorAction[]][])('reports %s errors with their code', (code, actions) => {
+        expect(run(actions).error?.code).toBe(code);
+    });
+
+    it('starts a new calculation with the action after an error', () => {
+        const failed = run('5 / 0 =');
+
+        expect(run('7 + 1 =', failed).currentValue).toBe('8');
+        expect(run('+ 1 =', failed).currentValue).toBe('1');
+        expect(run('+ 1 =', failed).tape).toHaveLength(1);
+    });
+});
+
+describe('enterNumber', () => {
+    it('enters a number as the operand of a pending operator', () => {
+        const state = run([
+            { type: 'enterNumber', value: '1234.50' },
+            { type: 'operator', operator: '*' },
+            { type: 'enterNumber', value: '2' },
+            { type: 'equals' },
+        ]);
+
+        expect(state.currentValue).toBe('2469');
+    });
+
+    it('wraps numbers to the word in programmer mode', () => {
+        const state = run([{ type: 'enterNumber', value: '300' }], { ...INITIAL_STATE, mode: 'programmer', wordSize: 8, signed: false });
+
+        expect(state.currentValue).toBe('44');
+    });
+
+    it('reports text that is not a number', () => {
+        const { error } = run([{ type: 'enterNumber', value: 'twelve' }]);
+
+        expect(error?.code).toBe('invalidInput');
+        expect(error?.message).toBe('Invalid number: twelve');
+    });
+});
+
+describe('customFunction', () => {
+    const vat = { name: 'vat', label: 'VAT', apply: (x: Decimal) => x.times(Decimal.parse('1.2')) };
+
+    it('applies a function from the engine\'s registry to the display', () => {
+        const engine = new CalculatorEngine();
+        engine.functions.register(vat);
+        [...toActions('50'), { type: 'customFunction', name: 'vat' } as CalculatorAction].forEach((action) => engine.dispatch(action));
+
+        expect(engine.getState().currentValue).toBe('60');
+        expect(engine.getState().operandLabel).toBe('VAT(50)');
+    });
+
+    it('takes the registry as an argument to reduce', () => {
+        const functions = new FunctionRegistry();
+        functions.register(vat);
+        const state = reduce(reduce(INITIAL_STATE, { type: 'digit', digit: '5' }), { type: 'customFunction', name: 'vat' }, functions);
+
+        expect(state.currentValue).toBe('6');
+    });
+
+    it('reports names that are not registered', () => {
+        expect(run([{ type: 'customFunction', name: 'vat' }]).error?.code).toBe('invalidInput');
+    });
+
+    it('does not see the functions of other engines', () => {
+        new CalculatorEngine().functions.register(vat);
+
+        expect(run([{ type: 'customFunction', name: 'vat' }]).error?.code).toBe('invalidInput');
+        expect(run([{ type: 'expression', source: 'vat(10)' }]).error?.code).toBe('syntax');
+    });
+});
+
+describe('clearEntry', () => {
+    it('clears the display and keeps the pending operations', () => {
+        const state = run([...toActions('2'), { type: 'operator', operator: '*' }, { type: 'openParen' },
+            ...toActions('5'), { type: 'operator', operator: '+' }, ...toActions('9'), { type: 'clearEntry' }]);
+
+        expect(state.currentValue).toBe('0');
+        expect(state.previousValue?.toString()).toBe('5');
+        expect(state.operator).toBe('+');
+        expect(run([...toActions('3'), { type: 'closeParen' }, { type: 'equals' }], state).currentValue).toBe('16');
+    });
+
+    it('keeps the operation repeated by =', () => {
+        const state = run([{ type: 'clearEntry' }, ...toActions('4'), { type: 'equals' }], run('2 * 3 ='));
+
+        expect(state.currentValue).toBe('12');
+    });
+
+    it('offers C only while there is an entry to clear', () => {
+        expect(canClearEntry(INITIAL_STATE)).toBe(false);
+        expect(canClearEntry(run('7'))).toBe(true);
+        expect(canClearEntry(run([{ type: 'clearEntry' }], run('5 + 7')))).toBe(false);
+        expect(canClearEntry({ ...run('7'), error: new DivisionByZeroError() })).toBe(false);
+    });
+});
+
+describe('backspace', () => {
+    it('leaves zero when only a minus sign would remain', () => {
+        const state = run([...toActions('5'), { type: 'negate' }, { type: 'backspace' }]);
+
+        expect(state.currentValue).toBe('0');
+        expect(run('+ 2 =', state).currentValue).toBe('2');
+    });
+});
+
+describe('arithmetic', () => {
+    it.each([
+        ['0.1 + 0.2 =', '0.3'],
+        ['9007199254740993 + 1 =', '9007199254740994'],
+        ['1 / 3 =', '0.3333333333333333333333333333333333'],
+        ['2 / 3 =', '0.6666666666666666666666666666666667'],
+        ['1.5 * 1.5 =', '2.25'],
+        ['5 + 3 * 2 =', '11'],
+        ['2 * 3 = = =', '54'],
+        ['5 + =', '10'],
+        ['200 + 10 % =', '220'],
+        ['200 - 10 % =', '180'],
+        ['200 * 10 % =', '20'],
+        ['200 / 10 % =', '2000'],
+    ])('%s %s', (script, expected) => {
+        expect(run(script).currentValue).toBe(expected);
+    });
+
+    it('chains left to right with immediate execution', () => {
+        const immediate = { ...INITIAL_STATE, immediateExecution: true };
+
+        expect(run('5 + 3 * 2 =', immediate).currentValue).toBe('16');
+    });
+});
+
+describe('paper tape', () => {
+    it('records each completed calculation', () => {
+        const state = run('2 * 3 = =');
+
+        expect(state.tape.map((entry) => `${entry.expression} = ${entry.result.toString()}`))
+            .toEqual(['2 × 3 = 6', '6 × 3 = 18']);
+    });
+
+    it('records evaluated expressions', () => {
+        const state = run([{ type: 'expression', source: ' 12 * (3 + 4)  / 7 ' }]);
+
+        expect(state.currentValue).toBe('12');
+        expect(state.waitingForNewValue).toBe(true);
+        expect(state.tape.map((entry) => entry.expression)).toEqual(['12 * (3 + 4) / 7']);
+    });
+
+    it('records unit conversions', () => {
+        const state = run([...toActions('12'), { type: 'convert', from: 'in', to: 'cm' }]);
+
+        expect(state.currentValue).toBe('30.48');
+        expect(state.tape.map((entry) => entry.expression)).toEqual(['12 in → cm']);
+    });
+
+    it('records currency conversions rounded to the minor unit', () => {
+        const state = run([...toActions('100'), { type: 'convertCurrency', from: 'USD', to: 'EUR', rate: '0.852225' }]);
+
+        expect(state.currentValue).toBe('85.22');
+        expect(state.tape.map((entry) => entry.expression)).toEqual(['100 USD → EUR']);
+    });
+
+    it('exports expressions that look like spreadsheet formulas as text', () => {
+        const tape = [
+            { expression: '=1+2', result: Decimal.of(3n) },
+            { expression: '-2 × 3', result: Decimal.of(-6n) },
+            { expression: '@sum(1,2)', result: Decimal.of(3n) },
+            { expression: '\t=1', result: Decimal.ONE },
+            { expression: '\r=1', result: Decimal.ONE },
+            { expression: '2 + 3', result: Decimal.of(5n) },
+        ];
+
+        expect(formatTapeAsCsv(tape)).toBe("expression,result\r\n'=1+2,3\r\n'-2 × 3,-6\r\n\"'@sum(1,2)\",3\r\n'\t=1,1\r\n\"'\r=1\",1\r\n2 + 3,5\r\n");
+    });
+
+    it('survives clear', () => {
+        const state = run([{ type: 'clear' }], run('1 + 1 ='));
+
+        expect(state.tape).toHaveLength(1);
+    });
+});
+
+describe('undo and redo', () => {
+    const engineAfter = (script: string): CalculatorEngine => {
+        const engine = new CalculatorEngine();
+        script.split(' ').flatMap(toActions).forEach((action) => engine.dispatch(action));
+        return engine;
+    };
+
+    it.each([
+        ['clear', { type: 'clear' }],
+        ['negate', { type: 'negate' }],
+        ['percent', { type: 'percent' }],
+        ['an operator', { type: 'operator', operator: '*' }],
+        ['memory add', { type: 'memoryAdd' }],
+    ] as const)('undoes %s', (_name, action) => {
+        const engine = engineAfter('12 + 5');
+        const before = engine.getState();
+
+        engine.dispatch(action);
+        engine.undo();
+
+        expect(engine.getState()).toBe(before);
+    });
+
+    it('continues a calculation after undoing a mistaken operator', () => {
+        const engine = engineAfter('12 + 5 *');
+        engine.undo();
+        engine.dispatch({ type: 'equals' });
+
+        expect(engine.getState().currentValue).toBe('17');
+    });
+
+    it('redoes undone actions until a new action is dispatched', () => {
+        const engine = engineAfter('1 + 2 =');
+        engine.undo();
+        engine.undo();
+        expect(engine.getState().currentValue).toBe('1');
+
+        engine.redo();
+        expect(engine.getState().currentValue).toBe('2');
+
+        engine.dispatch({ type: 'digit', digit: '9' });
+        expect(engine.canRedo()).toBe(false);
+    });
+
+    it('skips actions that change nothing and states with errors', () => {
+        const engine = engineAfter('1 / 0');
+        engine.dispatch({ type: 'decimal' });
+        engine.dispatch({ type: 'decimal' });
+        engine.dispatch({ type: 'equals' });
+        engine.dispatch({ type: 'clear' });
+
+        expect(engine.undo().currentValue).toBe('0.');
+        expect(engine.undo().currentValue).toBe('0');
+        expect(engine.undo().operator).toBe('/');
+    });
+
+    it('keeps a bounded history', () => {
+        const engine = new CalculatorEngine();
+        for (let i = 0; i < HISTORY_LIMIT + 20; i++) {
+            engine.dispatch({ type: 'digit', digit: '1' });
+        }
+
+        let steps = 0;
+        while (engine.canUndo()) {
+            engine.undo();
+            steps++;
+        }
+        expect(steps).toBe(HISTORY_LIMIT);
+        expect(engine.getState().currentValue).toHaveLength(20);
+    });
+
+    it('keeps the history bounded through undo and redo', () => {
+        const engine = new CalculatorEngine();
+        for (let i = 0; i < HISTORY_LIMIT + 20; i++) {
+            engine.dispatch({ type: 'digit', digit: '1' });
+        }
+        for (let i = 0; i < 5; i++) {
+            engine.undo();
+            engine.redo();
+        }
+
+        let steps = 0;
+        while (engine.canUndo()) {
+            engine.undo();
+            steps++;
+        }
+        expect(steps).toBe(HISTORY_LIMIT);
+    });
+});
+
+describe('programmer mode', () => {
+    const programmer = (wordSize: 8 | 16 | 32 | 64, signed: boolean): CalculatorState =>
+        ({ ...INITIAL_STATE, mode: 'programmer', base: 16, wordSize, signed });
+
+    it('wraps results to the word size', () => {
+        expect(run('255 + 1 =', { ...programmer(8, false), base: 10 }).currentValue).toBe('0');
+        expect(run('127 + 1 =', { ...programmer(8, true), base: 10 }).currentValue).toBe('-128');
+    });
+
+    it('ignores digits that do not fit the word', () => {
+        expect(run([
+            { type: 'digit', digit: 'F' },
+            { type: 'digit', digit: 'F' },
+            { type: 'digit', digit: 'F' },
+        ], programmer(8, false)).currentValue).toBe('255');
+    });
+
+    it('divides integers toward zero', () => {
+        expect(run('7 / 2 =', { ...programmer(32, true), base: 10 }).currentValue).toBe('3');
+    });
+
+    it.each([
+        ['and', 0b1100, 0b1010, '8'],
+        ['or', 0b1100, 0b1010, '14'],
+        ['xor', 0b1100, 0b1010, '6'],
+        ['nand', 0b1100, 0b1010, '247'],
+        ['nor', 0b1100, 0b1010, '241'],
+        ['shl', 0x81, 1, '2'],
+        ['shr', 0x81, 1, '64'],
+        ['rol', 0x81, 1, '3'],
+        ['ror', 0x81, 1, '192'],
+    ] as const)('%s', (operator, a, b, expected) => {
+        const state = run([
+            ...toActions(String(a)),
+            { type: 'operator', operator },
+            ...toActions(String(b)),
+            { type: 'equals' },
+        ], { ...programmer(8, false), base: 10 });
+
+        expect(state.currentValue).toBe(expected);
+    });
+
+    it('gives shifts precedence over AND, like C', () => {
+        const state = run([
+            ...toActions('1'),
+            { type: 'operator', operator: 'and' },
+            ...toActions('1'),
+            { type: 'operator', operator: 'shl' },
+            ...toActions('1'),
+            { type: 'equals' },
+        ], { ...programmer(8, false), base: 10 });
+
+        expect(state.currentValue).toBe('0');
+    });
+
+    it('negates in two\'s complement', () => {
+        expect(run([...toActions('1'), { type: 'negate' }], { ...programmer(8, false), base: 10 }).currentValue).toBe('255');
+    });
+
+    it('toggles bits and reinterprets them on signedness changes', () => {
+        const state = run([
+            { type: 'toggleBit', bit: 7 },
+            { type: 'setSigned', signed: true },
+        ], programmer(8, false));
+
+        expect(state.currentValue).toBe('-128');
+    });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { Decimal } from '../src/ts/decimal';
+import { CalculatorError, DivisionByZeroError, OverflowError, toCalculatorError } from '../src/ts/errors';
+import { evaluateExpression, ExpressionError } from '../src/ts/expression';
+import { applyFunction } from '../src/ts/scientific';
+
+const thrownBy = (fn: () => unknown): CalculatorError => {
+    try {
+        fn();
+    } catch (error) {
+        return error as CalculatorError;
+    }
+    throw new Error('Nothing was thrown');
+};
+
+describe('CalculatorError', () => {
+    it('shows short text and keeps the details in the message', () => {
+        const error = new OverflowError();
+
+        expect(error).toBeInstanceOf(CalculatorError);
+        expect(error.code).toBe('overflow');
+        expect(error.displayText).toBe('Overflow');
+        expect(error.message).toBe('Result is too large');
+    });
+
+    it('wraps unexpected errors as internal', () => {
+        const error = toCalculatorError(new TypeError('x is undefined'));
+
+        expect(error.code).toBe('internal');
+        expect(error.displayText).toBe('Error');
+        expect(error.message).toBe('x is undefined');
+    });
+
+    it('returns calculator errors unchanged', () => {
+        const error = new DivisionByZeroError();
+
+        expect(toCalculatorError(error)).toBe(error);
+    });
+});
+
+describe('error codes', () => {
+    it.each([
+        ['division by zero', () => Decimal.ONE.dividedBy(Decimal.ZERO), 'divisionByZero'],
+        ['text that is not a number', () => Decimal.parse('twelve'), 'invalidInput'],
+        ['a number beyond the exponent range', () => Decimal.parse('1e999999999'), 'overflow'],
+        ['the square root of −1', () => applyFunction('sqrt', Decimal.parse('-1'), 'deg'), 'notANumber'],
+        ['ln 0', () => applyFunction('ln', Decimal.ZERO, 'deg'), 'notANumber'],
+        ['200!', () => applyFunction('factorial', Decimal.parse('200'), 'deg'), 'overflow'],
+        ['a malformed formula', () => evaluateExpression('2 *'), 'syntax'],
+    ])('%s', (_name, fn, code) => {
+        expect(thrownBy(fn).code).toBe(code);
+    });
+
+    it('parses numbers below the exponent range as zero', () => {
+        expect(Decimal.parse('1e-999999999')).toBe(Decimal.ZERO);
+        expect(Decimal.parse('0.000001e-340').isZero()).toBe(true);
+        expect(Decimal.parse('0.001e340').exponent()).toBe(337);
+    });
+
+    it('keeps the code of a failure inside a formula', () => {
+        const error = thrownBy(() => evaluateExpression('1 + 2 / 0'));
+
+        expect(error).toBeInstanceOf(ExpressionError);
+        expect(error.code).toBe('divisionByZero');
+        expect(error.message).toBe('Division by zero at position 7');
+    });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CalculatorAction, CalculatorState, INITIAL_STATE, reduce } from '../src/ts/engine';
+import { CalculatorEmitter, stateEvents } from '../src/ts/events';
+
+const after = (actions: CalculatorAction[], state: CalculatorState = INITIAL_STATE): CalculatorState =>
+    actions.reduce(reduce, state);
+
+const eventTypes = (previous: CalculatorState, next: CalculatorState): string[] =>
+    stateEvents(previous, next).map((event) => event.type);
+
+describe('stateEvents', () => {
+    const pending = after([{ type: 'digit', digit: '6' }, { type: 'operator', operator: '*' }, { type: 'digit', digit: '7' }]);
+
+    it('reports value changes', () => {
+        expect(eventTypes(INITIAL_STATE, after([{ type: 'digit', digit: '4' }]))).toEqual(['valuechange']);
+        expect(eventTypes(pending, after([{ type: 'decimal' }, { type: 'backspace' }], pending))).toEqual([]);
+    });
+
+    it('reports results recorded on the tape', () => {
+        const next = after([{ type: 'equals' }], pending);
+        const events = stateEvents(pending, next);
+
+        expect(events.map((event) => event.type)).toEqual(['valuechange', 'result']);
+        expect(events[1].type === 'result' && events[1].detail.entry.expression).toBe('6 × 7');
+    });
+
+    it('does not report restored tape entries as results', () => {
+        const done = after([{ type: 'equals' }], pending);
+        const cleared = after([{ type: 'clear' }], done);
+
+        expect(eventTypes(done, cleared)).toEqual(['valuechange']);
+        expect(eventTypes(cleared, done)).toEqual(['valuechange']);
+    });
+
+    it('reports errors alone', () => {
+        const failed = after([{ type: 'operator', operator: '/' }, { type: 'digit', digit: '0' }, { type: 'equals' }]);
+        const events = stateEvents(INITIAL_STATE, failed);
+
+        expect(events.map((event) => event.type)).toEqual(['error']);
+        expect(events[0].type === 'error' && events[0].detail.error.code).toBe('divisionByZero');
+    });
+
+    it('reports mode changes', () => {
+        const events = stateEvents(INITIAL_STATE, after([{ type: 'setMode', mode: 'scientific' }]));
+
+        expect(events).toEqual([{ type: 'modechange', detail: expect.objectContaining({ mode: 'scientific', previousMode: 'basic' }) }]);
+    });
+});
+
+describe('CalculatorEmitter', () => {
+    const event = { type: 'valuechange', detail: { value: '4', state: INITIAL_STATE } } as const;
+
+    it('calls listeners until they unsubscribe', () => {
+        const emitter = new CalculatorEmitter();
+        const listener = vi.fn();
+        const stop = emitter.on('valuechange', listener);
+
+        emitter.emit(event);
+        stop();
+        emitter.emit(event);
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith(event.detail);
+    });
+
+    it('keeps calling listeners after one throws', () => {
+        const emitter = new CalculatorEmitter();
+        const listener = vi.fn();
+        const log = vi.spyOn(console, 'error').mockImplementation(() => {});
+        emitter.on('valuechange', () => {
+            throw new Error('broken dashboard');
+        });
+        emitter.on('valuechange', listener);
+
+        emitter.emit(event);
+
+        expect(listener).toHaveBeenCalled();
+        expect(log).toHaveBeenCalled();
+        log.mockRestore();
+    });
+});
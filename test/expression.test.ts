@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Decimal } from '../src/ts/decimal';
+import {
+    evaluateExpression,
+    ExpressionError,
+    FunctionRegistry,
+    MAX_NESTING,
+    parseExpression,
+} from '../src/ts/expression';
+
+describe('evaluateExpression', () => {
+    it.each([
+        ['12*(3+4)/7', '12'],
+        ['5+3*2', '11'],
+        ['(5+3)*2', '16'],
+        ['8-3-2', '3'],
+        ['2^3^2', '512'],
+        ['-2^2', '-4'],
+        ['2^-1', '0.5'],
+        ['0.1 + 0.2', '0.3'],
+        ['1e3 + .5', '1000.5'],
+        ['12 × 3 ÷ 4 − 1', '8'],
+        ['2(3+4)', '14'],
+        ['(1+2)(3+4)', '21'],
+        ['5!', '120'],
+        ['50%', '0.5'],
+        ['sqrt(16) + √9', '7'],
+        ['sin(30)', '0.5'],
+        ['log(1000) + log2(8) + ln(1)', '6'],
+        ['--3', '3'],
+        ['2**10', '1024'],
+    ])('%s = %s', (source, expected) => {
+        expect(evaluateExpression(source).toString()).toBe(expected);
+    });
+
+    it('evaluates formulas with tens of thousands of terms', () => {
+        expect(evaluateExpression('1+'.repeat(30000) + '1').toString()).toBe('30001');
+        expect(evaluateExpression('2' + '*1'.repeat(30000) + '^2').toString()).toBe('2');
+    });
+
+    it('uses the angle mode for trigonometry', () => {
+        expect(evaluateExpression('cos(0) + sin(0)', 'rad').toString()).toBe('1');
+    });
+
+    it('multiplies constants implicitly', () => {
+        expect(evaluateExpression('2π').equals(evaluateExpression('2 * pi'))).toBe(true);
+    });
+});
+
+describe('parseExpression errors', () => {
+    it.each([
+        ['', 'Empty expression', 0],
+        ['12*(3+', 'Unexpected end of expression', 6],
+        ['12*(3+4', 'Missing ")"', 7],
+        ['12*)3', 'Unexpected ")"', 3],
+        ['3 + 4)', 'Unexpected ")"', 5],
+        ['2 $ 3', 'Unexpected character "$"', 2],
+        ['foo(2)', 'Unknown name "foo"', 0],
+        ['2 * * 3', 'Unexpected "*"', 4],
+        ['2 3', 'Missing operator', 2],
+        ['12 34', 'Missing operator', 3],
+        ['(1+2)3', 'Missing operator', 5],
+        ['5! 3', 'Missing operator', 3],
+    ])('%j', (source, reason, position) => {
+        const error = captureError(() => parseExpression(source));
+
+        expect(error).toBeInstanceOf(ExpressionError);
+        expect(error.reason).toBe(reason);
+        expect(error.position).toBe(position);
+        expect(error.message).toBe(`${reason} at position ${position + 1}`);
+    });
+
+    it.each([
+        ['parentheses', '('.repeat(10000) + '1' + ')'.repeat(10000), MAX_NESTING],
+        ['signs', '-'.repeat(10000) + '1', MAX_NESTING],
+        ['powers', '2^'.repeat(10000) + '2', 2 * MAX_NESTING + 1],
+        ['function calls', 'sin '.repeat(10000) + '1', 4 * MAX_NESTING],
+    ])('reports %s nested too deeply at the level beyond the limit', (_name, source, position) => {
+        const error = captureError(() => parseExpression(source));
+
+        expect(error).toBeInstanceOf(ExpressionError);
+        expect(error.reason).toBe('Too deeply nested');
+        expect(error.position).toBe(position);
+    });
+
+    it('accepts nesting up to the limit', () => {
+        expect(evaluateExpression('('.repeat(MAX_NESTING) + '1' + ')'.repeat(MAX_NESTING)).toString()).toBe('1');
+    });
+
+    it('reports evaluation errors at the failing operator', () => {
+        const error = captureError(() => evaluateExpression('1 + 4 / 0'));
+
+        expect(error.reason).toBe('Division by zero');
+        expect(error.position).toBe(6);
+    });
+
+    it.each([
+        ['(10^1000)^1000', 3],
+        ['((10^300)^1000)^100', 9],
+        ['10^300 * 10^300 * 10^300', 7],
+        ['1e999999999 + 1', 0],
+    ])('overflows %j at position %i without calculating on', (source, position) => {
+        const error = captureError(() => evaluateExpression(source));
+
+        expect(error.code).toBe('overflow');
+        expect(error.position).toBe(position);
+    });
+
+    it('rounds intermediate results too small to show to zero', () => {
+        expect(evaluateExpression('(10^-1000)^1000 + 1').toString()).toBe('1');
+    });
+});
+
+describe('custom functions', () => {
+    let functions: FunctionRegistry;
+
+    beforeEach(() => {
+        functions = new FunctionRegistry();
+    });
+
+    it('can be called in formulas once registered', () => {
+        functions.register({ name: 'double', apply: (x) => x.times(Decimal.of(2n)) });
+
+        expect(evaluateExpression('double(21) + 1', 'deg', functions).toString()).toBe('43');
+        expect(evaluateExpression('3 double 2', 'deg', functions).toString()).toBe('12');
+    });
+
+    it('are unknown names again once unregistered', () => {
+        functions.register({ name: 'double', apply: (x) => x });
+        functions.unregister('double');
+
+        expect(captureError(() => parseExpression('double(2)', functions)).reason).toBe('Unknown name "double"');
+    });
+
+    it('are unknown names to formulas given another registry', () => {
+        functions.register({ name: 'double', apply: (x) => x });
+
+        expect(captureError(() => parseExpression('double(2)', new FunctionRegistry())).reason).toBe('Unknown name "double"');
+        expect(captureError(() => parseExpression('double(2)')).reason).toBe('Unknown name "double"');
+    });
+
+    it.each(['sin', 'pi', 'log', 'Double', 'x2'])('rejects the name %s', (name) => {
+        expect(() => functions.register({ name, apply: (x) => x })).toThrow();
+    });
+
+    it('rejects a name registered twice', () => {
+        functions.register({ name: 'double', apply: (x) => x });
+
+        expect(() => functions.register({ name: 'double', apply: (x) => x })).toThrow('Function name is already taken: "double"');
+    });
+
+    it('reports their failures at the function', () => {
+        functions.register({ name: 'double', apply: () => Decimal.ONE.dividedBy(Decimal.ZERO) });
+        const error = captureError(() => evaluateExpression('1 + double(2)', 'deg', functions));
+
+        expect(error.code).toBe('divisionByZero');
+        expect(error.position).toBe(4);
+    });
+});
+
+function captureError(fn: () => unknown): ExpressionError {
+    try {
+        fn();
+    } catch (error) {
+        return error as ExpressionError;
+    }
+    throw new Error('Expected an error');
+}
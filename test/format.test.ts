@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { formatDisplayNumber, getNumberSymbols, localizeNumber, parseNumberText } from '../src/ts/format';
+
+describe('formatDisplayNumber', () => {
+    it.each([
+        ['123456789', '123456789'],
+        ['12.', '12.'],
+        ['-0.50', '-0.50'],
+        ['1234567890', '1.234568e9'],
+        ['-1234567890', '-1.234568e9'],
+        ['999999999.5', '1e9'],
+        ['-999999999.5', '-1e9'],
+        ['999999999.4', '999999999'],
+        ['0.0000001', '0.0000001'],
+        ['0.000000012', '1.2e-8'],
+        ['0.00000012345', '1.2345e-7'],
+        ['-0.00000012345', '-1.2345e-7'],
+        ['0.0000001234', '1.234e-7'],
+        ['0.3333333333333333333333333333333333', '0.33333333'],
+        ['0.6666666666666666666666666666666667', '0.66666667'],
+        ['1.0000000001', '1'],
+        ['99999949999999999999', '9.99999e19'],
+        ['99999950000000000000', '1e20'],
+        ['9999999999999999999999999999999999', '1e34'],
+        ['1e-100', '1e-100'],
+    ])('%s → %s', (text, expected) => {
+        expect(formatDisplayNumber(text, 9)).toBe(expected);
+    });
+
+    it('uses a wider budget when given one', () => {
+        expect(formatDisplayNumber('0.3333333333333333333333333333333333', 16)).toBe('0.333333333333333');
+    });
+
+    it('passes other text through', () => {
+        expect(formatDisplayNumber('Error', 9)).toBe('Error');
+    });
+});
+
+describe('localizeNumber', () => {
+    it.each([
+        ['en-US', '1234567.5', '1,234,567.5'],
+        ['de-DE', '1234567.5', '1.234.567,5'],
+        ['fr-FR', '1234567.5', '1 234 567,5'],
+        ['en-IN', '1234567.5', '12,34,567.5'],
+        ['de-DE', '12.', '12,'],
+        ['de-DE', '0.50', '0,50'],
+        ['de-DE', '-1234', '-1.234'],
+        ['de-DE', '1.234568e9', '1,234568e9'],
+        ['en-US', '99999999999999999999', '99,999,999,999,999,999,999'],
+    ])('%s: %s → %s', (locale, text, expected) => {
+        expect(localizeNumber(text, { locale, useGrouping: true })).toBe(expected);
+    });
+
+    it('leaves out thousands separators when grouping is off', () => {
+        expect(localizeNumber('1234567.5', { locale: 'de-DE', useGrouping: false })).toBe('1234567,5');
+    });
+
+    it('passes other text through', () => {
+        expect(localizeNumber('Error', { locale: 'de-DE', useGrouping: true })).toBe('Error');
+    });
+});
+
+describe('parseNumberText', () => {
+    it.each([
+        ['$1,234.50', 'en-US', '1234.5'],
+        ['USD 1,234.50', 'en-US', '1234.5'],
+        ['1.234,5 €', 'de-DE', '1234.5'],
+        ['CHF 1’234.50', 'de-CH', '1234.5'],
+        ['1 234,5', 'fr-FR', '1234.5'],
+        ['12,34,567.5', 'en-IN', '1234567.5'],
+        ['(12.00)', 'en-US', '-12'],
+        ['−5', 'en-US', '-5'],
+        ['1,234', 'en-US', '1234'],
+        ['1,5', 'en-US', '1.5'],
+        ['1.234', 'en-US', '1.234'],
+        ['1.234', 'de-DE', '1234'],
+        ['2.5e3', 'en-US', '2500'],
+    ])('%s (%s) → %s', (text, locale, expected) => {
+        expect(parseNumberText(text, locale)).toBe(expected);
+    });
+
+    it('accepts two-digit groups only where the locale uses them', () => {
+        expect(parseNumberText('1,00,000', 'en-IN')).toBe('100000');
+        expect(parseNumberText('1,00,000', 'en-US')).toBeNull();
+    });
+
+    it.each(['', '12 apples', '1.2.3', '1,23,4', '555-1234', '-', '1e999999999', '1,000,00', '1,23.45'])('rejects "%s"', (text) => {
+        expect(parseNumberText(text, 'en-US')).toBeNull();
+    });
+});
+
+describe('getNumberSymbols', () => {
+    it('reads the symbols of a locale', () => {
+        expect(getNumberSymbols('de-CH')).toEqual({ decimal: '.', group: '’', minusSign: '-' });
+    });
+
+    it('rejects malformed locale tags', () => {
+        expect(() => getNumberSymbols('not a locale')).toThrow(RangeError);
+    });
+});
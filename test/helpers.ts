@@ -0,0 +1,102 @@
+/**
+ * Test helpers: mounting the real calculator markup and replaying user input
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { vi } from 'vitest';
+import { Calculator } from '../src/ts/calculator';
+import { CALCULATOR_MARKUP } from '../src/ts/markup';
+
+/** Document listeners added by the mounted calculator */
+const documentListeners: [string, EventListenerOrEventListenerObject][] = [];
+
+/**
+ * Replaces the document body with the calculator markup and creates a Calculator on it
+ *
+ * Document-level listeners of the previously mounted calculator are removed
+ * first, so key presses only reach the new instance.
+ *
+ * @param fetchFile - Replaces fetch (defaults to reading files from the repository)
+ */
+export function mountCalculator(fetchFile: typeof fetch = serveFile): Calculator {
+    documentListeners.splice(0).forEach(([type, listener]) => document.removeEventListener(type, listener));
+    document.body.innerHTML = CALCULATOR_MARKUP;
+
+    const addEventListener = document.addEventListener.bind(document);
+    const spy = vi.spyOn(document, 'addEventListener').mockImplementation((type, listener, options) => {
+        if (listener) {
+            documentListeners.push([type, listener]);
+        }
+        addEventListener(type, listener, options);
+    });
+
+    vi.stubGlobal('fetch', fetchFile);
+
+    try {
+        return new Calculator();
+    } finally {
+        spy.mockRestore();
+    }
+}
+
+/**
+ * Reads a file from the repository, as a static server would serve it
+ */
+async function serveFile(url: RequestInfo | URL): Promise<Response> {
+    return new Response(readFileSync(resolve(__dirname, '..', String(url))));
+}
+
+/**
+ * Dispatches a keydown event on the document for each key
+ *
+ * @param keys - KeyboardEvent key values, e.g. ['1', '+', '2', 'Enter']
+ * @param init - Modifier flags applied to every key
+ */
+export function pressKeys(keys: readonly string[], init: KeyboardEventInit = {}): void {
+    keys.forEach((key) => {
+        document.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, ...init }));
+    });
+}
+
+/**
+ * Dispatches a paste event carrying plain text on the document
+ *
+ * @param text - The pasted text
+ * @param target - Element the paste happens in (defaults to the body)
+ */
+export function pasteText(text: string, target: Element = document.body): void {
+    const event = new Event('paste', { bubbles: true, cancelable: true });
+    Object.defineProperty(event, 'clipboardData', { value: { getData: () => text } });
+    target.dispatchEvent(event);
+}
+
+/**
+ * Clicks calculator buttons identified by their aria-label
+ *
+ * @param labels - Accessible names, e.g. ['7', 'Multiply', '6', 'Equals']
+ */
+export function clickButtons(labels: readonly string[]): void {
+    labels.forEach((label) => {
+        buttonLabelled(label).click();
+    });
+}
+
+/**
+ * Finds a calculator button by its aria-label
+ *
+ * @throws {Error} When no button has the label
+ */
+export function buttonLabelled(label: string): HTMLButtonElement {
+    const button = Array.from(document.querySelectorAll<HTMLButtonElement>('.btn'))
+        .find((btn) => btn.getAttribute('aria-label') === label);
+    if (!button) {
+        throw new Error(`No button labelled "${label}"`);
+    }
+    return button;
+}
+
+/** Text currently shown in #display */
+export function displayText(): string {
+    return document.getElementById('display')?.textContent ?? '';
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import {
+    buildKeymap,
+    commandAction,
+    DEFAULT_KEYMAP,
+    findCommand,
+    formatShortcut,
+    KeyPress,
+    matchesShortcut,
+    parseShortcut,
+} from '../src/ts/keymap';
+
+/** A key press with no modifiers unless given */
+const press = (key: string, init: Partial<KeyPress> = {}): KeyPress =>
+    ({ key, code: '', ctrlKey: false, metaKey: false, altKey: false, shiftKey: false, ...init });
+
+const basic = { mode: 'basic', base: 10 } as const;
+
+describe('parseShortcut', () => {
+    it('reads modifiers and the key', () => {
+        expect(parseShortcut('Mod+Shift+Z')).toEqual({ key: 'z', mod: true, ctrl: false, meta: false, alt: false, shift: true });
+        expect(parseShortcut('Cmd+1')).toMatchObject({ key: '1', meta: true });
+    });
+
+    it('reads + as a key', () => {
+        expect(parseShortcut('+').key).toBe('+');
+        expect(parseShortcut('Ctrl++')).toMatchObject({ key: '+', ctrl: true });
+    });
+
+    it('rejects unknown modifiers', () => {
+        expect(() => parseShortcut('Hyper+M')).toThrow('Unknown modifier "hyper"');
+    });
+});
+
+describe('matchesShortcut', () => {
+    it('accepts Ctrl or ⌘ for Mod', () => {
+        const undo = parseShortcut('Mod+Z');
+
+        expect(matchesShortcut(undo, press('z', { ctrlKey: true }))).toBe(true);
+        expect(matchesShortcut(undo, press('z', { metaKey: true }))).toBe(true);
+        expect(matchesShortcut(undo, press('z'))).toBe(false);
+        expect(matchesShortcut(undo, press('Z', { metaKey: true, shiftKey: true }))).toBe(false);
+    });
+
+    it('keeps bare keys from matching modified presses', () => {
+        expect(matchesShortcut(parseShortcut('c'), press('c', { metaKey: true }))).toBe(false);
+        expect(matchesShortcut(parseShortcut('Ctrl+L'), press('l', { metaKey: true }))).toBe(false);
+    });
+
+    it('ignores Shift on typed characters', () => {
+        expect(matchesShortcut(parseShortcut('+'), press('+', { shiftKey: true }))).toBe(true);
+        expect(matchesShortcut(parseShortcut('a'), press('A', { shiftKey: true }))).toBe(true);
+    });
+
+    it('matches Alt shortcuts by the physical key', () => {
+        expect(matchesShortcut(parseShortcut('Alt+-'), press('–', { altKey: true, code: 'Minus' }))).toBe(true);
+        expect(matchesShortcut(parseShortcut('Alt+X'), press('≈', { altKey: true, code: 'KeyX' }))).toBe(true);
+    });
+});
+
+describe('findCommand', () => {
+    it('maps the default keys', () => {
+        expect(findCommand(DEFAULT_KEYMAP, press('7'), basic)).toBe('digit7');
+        expect(findCommand(DEFAULT_KEYMAP, press('Enter'), basic)).toBe('equals');
+        expect(findCommand(DEFAULT_KEYMAP, press('?', { shiftKey: true }), basic)).toBe('showShortcuts');
+        expect(findCommand(DEFAULT_KEYMAP, press('z', { metaKey: true, shiftKey: true }), basic)).toBe('redo');
+    });
+
+    it('leaves Cmd+C to the browser', () => {
+        expect(findCommand(DEFAULT_KEYMAP, press('c', { metaKey: true }), basic)).toBeNull();
+    });
+
+    it('uses the bindings of the current mode first', () => {
+        expect(findCommand(DEFAULT_KEYMAP, press('c'), { mode: 'programmer', base: 16 })).toBe('digitC');
+        expect(findCommand(DEFAULT_KEYMAP, press('c'), { mode: 'programmer', base: 10 })).toBe('clear');
+        expect(findCommand(DEFAULT_KEYMAP, press('^'), { mode: 'programmer', base: 10 })).toBe('xor');
+        expect(findCommand(DEFAULT_KEYMAP, press('^'), basic)).toBe('power');
+        expect(findCommand(DEFAULT_KEYMAP, press('s'), { mode: 'scientific', base: 10 })).toBe('sin');
+        expect(findCommand(DEFAULT_KEYMAP, press('s'), basic)).toBeNull();
+    });
+
+    it('puts user bindings ahead of the defaults', () => {
+        const keymap = buildKeymap([{ keys: 'c', command: 'none' }, { keys: 'm', command: 'memoryAdd' }]);
+
+        expect(findCommand(keymap, press('c'), basic)).toBe('none');
+        expect(findCommand(keymap, press('m'), basic)).toBe('memoryAdd');
+        expect(findCommand(keymap, press('Escape'), basic)).toBe('clear');
+    });
+});
+
+describe('commandAction', () => {
+    it('maps engine commands to actions', () => {
+        expect(commandAction('digitF')).toEqual({ type: 'digit', digit: 'F' });
+        expect(commandAction('negate')).toEqual({ type: 'negate' });
+        expect(commandAction('shiftLeft')).toEqual({ type: 'operator', operator: 'shl' });
+    });
+
+    it('leaves view commands to the view', () => {
+        expect(commandAction('undo')).toBeNull();
+    });
+});
+
+describe('formatShortcut', () => {
+    it.each([
+        ['Mod+Shift+Z', true, '⇧⌘Z'],
+        ['Mod+Shift+Z', false, 'Ctrl+Shift+Z'],
+        ['Alt+-', true, '⌥-'],
+        ['Ctrl+L', true, '⌃L'],
+        ['Escape', true, 'esc'],
+        ['Escape', false, 'Esc'],
+    ])('%s (Mac: %s) → %s', (keys, apple, expected) => {
+        expect(formatShortcut(keys, apple)).toBe(expected);
+    });
+});
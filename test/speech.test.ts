@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { CalculatorAction, CalculatorState, INITIAL_STATE, reduce } from '../src/ts/engine';
+import { describeChange, speakExpression } from '../src/ts/speech';
+
+const after = (actions: CalculatorAction[], state: CalculatorState = INITIAL_STATE): CalculatorState =>
+    actions.reduce(reduce, state);
+
+describe('speakExpression', () => {
+    it.each([
+        ['6 × 7', '6 times 7'],
+        ['12 ÷ (3 − 1)', '12 divided by open parenthesis 3 minus 1 close parenthesis'],
+        ['12*(3+4)/7', '12 times open parenthesis 3 plus 4 close parenthesis divided by 7'],
+        ['2 ^ 10', '2 to the power of 10'],
+        ['1.5 E 3', '1.5 times ten to the power of 3'],
+        ['50%', '50 percent'],
+        ['12 AND 10', '12 and 10'],
+        ['1 << 4', '1 shifted left by 4'],
+        ['5 km → mi', '5 km to mi'],
+    ])('reads %s as "%s"', (text, spoken) => {
+        expect(speakExpression(text)).toBe(spoken);
+    });
+
+    it('reads function calls without their parentheses', () => {
+        expect(speakExpression('sin(30)')).toBe('sin of 30');
+        expect(speakExpression('√(9)')).toBe('square root of 9');
+        expect(speakExpression('sin⁻¹(0.5)')).toBe('sin inverse of 0.5');
+        expect(speakExpression('log₁₀(100)')).toBe('log base 10 of 100');
+        expect(speakExpression('-(cos(0))')).toBe('minus open parenthesis cos of 0 close parenthesis');
+        expect(speakExpression('NOT(5)')).toBe('not 5');
+    });
+
+    it('keeps exponents inside numbers', () => {
+        expect(speakExpression('1.5e-7 + 1')).toBe('1.5e-7 plus 1');
+    });
+});
+
+describe('describeChange', () => {
+    const pending = after([{ type: 'digit', digit: '6' }, { type: 'operator', operator: '*' }]);
+
+    it('announces the pending operator', () => {
+        expect(describeChange(after([{ type: 'digit', digit: '6' }]), pending, '6')).toBe('6 times');
+    });
+
+    it('announces results', () => {
+        const typed = after([{ type: 'digit', digit: '7' }], pending);
+
+        expect(describeChange(typed, after([{ type: 'equals' }], typed), '42')).toBe('6 times 7 equals 42');
+    });
+
+    it('announces computed values but not typed digits', () => {
+        const typed = after([{ type: 'digit', digit: '9' }]);
+
+        expect(describeChange(INITIAL_STATE, typed, '9')).toBe('');
+        expect(describeChange(typed, after([{ type: 'function', name: 'sqrt' }], typed), '3')).toBe('square root of 9 equals 3');
+        expect(describeChange(typed, after([{ type: 'constant', name: 'pi' }], typed), '3.141592654')).toBe('pi equals 3.141592654');
+    });
+
+    it('leaves errors to the view', () => {
+        const failed = after([{ type: 'operator', operator: '/' }, { type: 'digit', digit: '0' }, { type: 'equals' }]);
+
+        expect(describeChange(INITIAL_STATE, failed, 'Cannot divide by 0')).toBe('');
+    });
+});
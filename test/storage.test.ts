@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CalculatorEngine, CalculatorState, INITIAL_STATE } from '../src/ts/engine';
+import { CalculatorSettings, DEFAULT_SETTINGS } from '../src/ts/settings';
+import {
+    deserializeSnapshot,
+    loadSnapshot,
+    migrateSnapshot,
+    saveSnapshot,
+    serializeSnapshot,
+    SNAPSHOT_VERSION,
+    STORAGE_KEY,
+} from '../src/ts/storage';
+
+/** A state with something in every field: a suspended operation, a parenthesis, memory, registers and tape */
+function busyState(): CalculatorState {
+    const engine = new CalculatorEngine({ ...INITIAL_STATE, mode: 'scientific', angleMode: 'rad' });
+    engine.dispatch({ type: 'digit', digit: '2' });
+    engine.dispatch({ type: 'operator', operator: '*' });
+    engine.dispatch({ type: 'digit', digit: '3' });
+    engine.dispatch({ type: 'equals' });
+    engine.dispatch({ type: 'memoryAdd' });
+    engine.dispatch({ type: 'storeRegister', register: 'B' });
+    engine.dispatch({ type: 'operator', operator: '+' });
+    engine.dispatch({ type: 'openParen' });
+    engine.dispatch({ type: 'digit', digit: '1' });
+    engine.dispatch({ type: 'operator', operator: '/' });
+    engine.dispatch({ type: 'digit', digit: '7' });
+    return engine.getState();
+}
+
+describe('snapshots', () => {
+    beforeEach(() => {
+        localStorage.clear();
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('round-trips the engine state and settings', () => {
+        const state = busyState();
+        const settings: CalculatorSettings = {
+            locale: 'de-DE',
+            useGrouping: false,
+            currencyRates: { USD: '1.2' },
+            keyBindings: [{ keys: 'm', command: 'memoryAdd' }, { keys: 'Alt+X', command: 'none', context: 'programmer' }],
+            theme: 'high-contrast',
+            accentColor: '#0a84ff',
+        };
+
+        const restored = deserializeSnapshot(serializeSnapshot({ state, settings }));
+
+        expect(restored.settings).toEqual(settings);
+        expect(restored.state).toEqual(state);
+    });
+
+    it('continues a restored calculation', () => {
+        const restored = deserializeSnapshot(serializeSnapshot({ state: busyState(), settings: DEFAULT_SETTINGS }));
+        const engine = new CalculatorEngine(restored.state);
+
+        engine.dispatch({ type: 'closeParen' });
+        engine.dispatch({ type: 'equals' });
+
+        expect(engine.getState().currentValue).toBe('6.142857142857142857142857142857143');
+    });
+
+    it('does not save errors', () => {
+        const state = { ...INITIAL_STATE, error: 'Division by zero' };
+
+        expect(deserializeSnapshot(serializeSnapshot({ state, settings: DEFAULT_SETTINGS })).state.error).toBeNull();
+    });
+
+    it('saves to and loads from storage', () => {
+        saveSnapshot({ state: { ...INITIAL_STATE, currentValue: '12.' }, settings: DEFAULT_SETTINGS }, localStorage);
+
+        expect(JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}').version).toBe(SNAPSHOT_VERSION);
+        expect(loadSnapshot(localStorage)?.state.currentValue).toBe('12.');
+    });
+
+    it('returns null when nothing is saved', () => {
+        expect(loadSnapshot(localStorage)).toBeNull();
+    });
+
+    it.each([
+        ['malformed JSON', '{"version":1,'],
+        ['a value that is not a snapshot', '[1, 2, 3]'],
+        ['a missing version', '{"state":{}}'],
+        ['a newer version', `{"version":${SNAPSHOT_VERSION + 1}}`],
+    ])('discards %s', (_name, text) => {
+        localStorage.setItem(STORAGE_KEY, text);
+
+        expect(loadSnapshot(localStorage)).toBeNull();
+        expect(localStorage.getItem(STORAGE_KEY)).toBeNull();
+    });
+
+    it('keeps valid settings when the state is invalid', () => {
+        const data = JSON.parse(serializeSnapshot({ state: busyState(), settings: { ...DEFAULT_SETTINGS, locale: 'fr-FR' } }));
+        data.state.memory = 'lots';
+
+        const restored = deserializeSnapshot(JSON.stringify(data));
+
+        expect(restored.state).toBe(INITIAL_STATE);
+        expect(restored.settings.locale).toBe('fr-FR');
+    });
+
+    it.each([
+        ['a huge exponent', { memory: '1e999999999' }],
+        ['a tiny exponent', { previousValue: '5e-999999999' }],
+        ['too many digits', { currentValue: '9'.repeat(100000) }],
+    ])('discards a state with a number with %s', (_name, fields) => {
+        const data = JSON.parse(serializeSnapshot({ state: busyState(), settings: DEFAULT_SETTINGS }));
+        Object.assign(data.state, fields);
+
+        expect(deserializeSnapshot(JSON.stringify(data)).state).toBe(INITIAL_STATE);
+    });
+
+    it('keeps the state when the settings are invalid', () => {
+        const data = JSON.parse(serializeSnapshot({ state: busyState(), settings: DEFAULT_SETTINGS }));
+        data.settings.locale = 'not a locale';
+
+        const restored = deserializeSnapshot(JSON.stringify(data));
+
+        expect(restored.state.memory.toString()).toBe('6');
+        expect(restored.settings).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it.each([
+        ['an invalid exchange rate', { currencyRates: { USD: 'cheap' } }],
+        ['an unknown shortcut command', { keyBindings: [{ keys: 'm', command: 'launchRocket' }] }],
+        ['an invalid shortcut', { keyBindings: [{ keys: 'Hyper+M', command: 'memoryAdd' }] }],
+        ['an unknown theme', { theme: 'sepia' }],
+        ['an invalid accent color', { accentColor: 'orange' }],
+    ])('discards settings with %s', (_name, settings) => {
+        const data = JSON.parse(serializeSnapshot({ state: INITIAL_STATE, settings: DEFAULT_SETTINGS }));
+        Object.assign(data.settings, settings);
+
+        expect(deserializeSnapshot(JSON.stringify(data)).settings).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it('drops saved exchange rates that are not positive', () => {
+        const data = JSON.parse(serializeSnapshot({ state: INITIAL_STATE, settings: DEFAULT_SETTINGS }));
+        data.settings.currencyRates = { USD: '0', GBP: '-0.8', JPY: '1e999999999', CHF: '0.93' };
+        data.settings.locale = 'de-DE';
+
+        const { settings } = deserializeSnapshot(JSON.stringify(data));
+
+        expect(settings.currencyRates).toEqual({ CHF: '0.93' });
+        expect(settings.locale).toBe('de-DE');
+    });
+
+    it('survives storage that throws', () => {
+        const storage = {
+            getItem: () => {
+                throw new Error('SecurityError');
+            },
+            setItem: () => {
+                throw new Error('QuotaExceededError');
+            },
+        } as unknown as Storage;
+
+        expect(loadSnapshot(storage)).toBeNull();
+        expect(() => saveSnapshot({ state: INITIAL_STATE, settings: DEFAULT_SETTINGS }, storage)).not.toThrow();
+    });
+});
+
+describe('migrateSnapshot', () => {
+    it('applies each migration in turn', () => {
+        const migrations = [
+            (data: Record<string, unknown>) => ({ ...data, renamed: data.original }),
+            (data: Record<string, unknown>) => ({ ...data, added: true }),
+        ];
+
+        expect(migrateSnapshot({ version: 1, original: 'x' }, migrations))
+            .toEqual({ version: 3, original: 'x', renamed: 'x', added: true });
+        expect(migrateSnapshot({ version: 2, renamed: 'y' }, migrations))
+            .toEqual({ version: 3, renamed: 'y', added: true });
+    });
+
+    it('leaves a current snapshot alone', () => {
+        expect(migrateSnapshot({ version: SNAPSHOT_VERSION })).toEqual({ version: SNAPSHOT_VERSION });
+    });
+});
@@ -0,0 +1,75 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { describe, expect, it } from 'vitest';
+import { accentVariables, contrastRatio, isAccentColor } from '../src/ts/theme';
+
+const stylesheet = readFileSync(resolve(__dirname, '../src/css/input.css'), 'utf8');
+
+/** Custom properties set by the first rule for a theme in input.css */
+function palette(theme: string): Record<string, string> {
+    const start = stylesheet.indexOf(`:root[data-theme="${theme}"],`);
+    const block = stylesheet.slice(stylesheet.indexOf('{', start) + 1, stylesheet.indexOf('}', start));
+    return Object.fromEntries([...block.matchAll(/(--[\w-]+):\s*([^;]+);/g)].map(([, name, value]) => [name, value.trim()]));
+}
+
+describe('contrastRatio', () => {
+    it('follows the WCAG formula', () => {
+        expect(contrastRatio('#ffffff', '#000000')).toBe(21);
+        expect(contrastRatio('#777777', '#ffffff')).toBeCloseTo(4.48, 2);
+        expect(contrastRatio('#ff9500', '#ff9500')).toBe(1);
+    });
+
+    it('does not depend on which color is in front', () => {
+        expect(contrastRatio('#0a84ff', '#1c1c1e')).toBe(contrastRatio('#1c1c1e', '#0a84ff'));
+    });
+});
+
+describe('accentVariables', () => {
+    it('derives a lighter hover shade', () => {
+        expect(accentVariables('#0A84FF')).toEqual({
+            '--accent': '#0a84ff',
+            '--accent-hover': '#54a9ff',
+            '--accent-text': '#000000',
+        });
+    });
+
+    it('picks the more readable text color', () => {
+        expect(accentVariables('#5e35b1')['--accent-text']).toBe('#ffffff');
+        expect(accentVariables('#ffd60a')['--accent-text']).toBe('#000000');
+    });
+
+    it('rejects colors that are not #rrggbb', () => {
+        expect(isAccentColor('#fff')).toBe(false);
+        expect(() => accentVariables('rebeccapurple')).toThrow();
+    });
+});
+
+describe('high-contrast theme', () => {
+    const colors = palette('high-contrast');
+    const pairs: [string, string][] = [
+        ['--theme-text', '--theme-window'],
+        ['--theme-text', '--theme-surface'],
+        ['--theme-text-muted', '--theme-window'],
+        ['--theme-text-faint', '--theme-window'],
+        ['--theme-selected-text', '--theme-selected'],
+        ['--theme-text', '--theme-key'],
+        ['--theme-text', '--theme-key-hover'],
+        ['--theme-function-key-text', '--theme-function-key'],
+        ['--theme-function-key-text', '--theme-function-key-hover'],
+        ['--theme-text', '--theme-scientific-key'],
+        ['--theme-text', '--theme-scientific-key-hover'],
+        ['--theme-text', '--theme-scientific-key-active'],
+        ['--accent-text', '--accent'],
+        ['--accent-text', '--accent-hover'],
+        ['--accent-active-text', '--accent-active'],
+        ['--theme-error', '--theme-window'],
+    ];
+
+    it.each(pairs)('shows %s on %s at 7:1 or more (WCAG AAA)', (foreground, background) => {
+        expect(contrastRatio(colors[foreground], colors[background])).toBeGreaterThanOrEqual(7);
+    });
+
+    it('shows the focus ring at 3:1 or more', () => {
+        expect(contrastRatio(colors['--theme-focus'], colors['--theme-window'])).toBeGreaterThanOrEqual(3);
+    });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { Decimal } from '../src/ts/decimal';
+import { convert, UNITS, unitsIn } from '../src/ts/units';
+
+const converted = (value: string, from: string, to: string): string => convert(Decimal.parse(value), from, to).toString();
+
+describe('convert', () => {
+    it.each([
+        ['12', 'in', 'cm', '30.48'],
+        ['1', 'mi', 'km', '1.609344'],
+        ['1', 'nmi', 'ft', '6076.115485564304461942257217847769'],
+        ['1', 'lb', 'oz', '16'],
+        ['14', 'st', 'kg', '88.90410452'],
+        ['1', 'gal', 'L', '3.785411784'],
+        ['1', 'gal', 'floz', '128'],
+        ['1', 'tbsp', 'tsp', '3'],
+        ['1', 'GiB', 'MB', '1073.741824'],
+        ['1', 'B', 'bit', '8'],
+        ['1', 'wk', 'h', '168'],
+        ['1', 'yr', 'd', '365.25'],
+    ])('%s %s → %s', (value, from, to, expected) => {
+        expect(converted(value, from, to)).toBe(expected);
+    });
+
+    it.each([
+        ['212', 'F', 'C', '100'],
+        ['-40', 'C', 'F', '-40'],
+        ['0', 'C', 'K', '273.15'],
+        ['0', 'K', 'F', '-459.67'],
+        ['491.67', 'R', 'C', '0'],
+        ['98.6', 'F', 'C', '37'],
+    ])('%s °%s → °%s (affine)', (value, from, to, expected) => {
+        expect(converted(value, from, to)).toBe(expected);
+    });
+
+    it('round-trips every unit through its category\'s first unit', () => {
+        UNITS.forEach((unit) => {
+            const [first] = unitsIn(unit.category);
+            const there = convert(Decimal.parse('1234.5'), unit.id, first.id);
+
+            expect(convert(there, first.id, unit.id).toSignificantDigits(30).toString()).toBe('1234.5');
+        });
+    });
+
+    it('rejects temperatures below absolute zero', () => {
+        expect(() => converted('-300', 'C', 'F')).toThrow('Below absolute zero');
+    });
+
+    it('rejects units of different categories', () => {
+        expect(() => converted('1', 'kg', 'm')).toThrow('Cannot convert kilograms to metres');
+    });
+
+    it('rejects unknown units', () => {
+        expect(() => converted('1', 'cubit', 'm')).toThrow('Unknown unit: cubit');
+    });
+});